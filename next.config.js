@@ -12,6 +12,14 @@ const nextConfig = {
       },
     ]
   },
+  experimental: {
+    // Runs src/instrumentation.ts at startup, which validates the OAuth redirect URI configuration.
+    instrumentationHook: true,
+    serverActions: {
+      // Activity files (GPX, TCX, FIT) are uploaded through a server action; see activityFileActions.ts.
+      bodySizeLimit: '25mb',
+    },
+  },
   typescript: {
     // ignoreBuildErrors: true, // Temporarily removed to surface potential issues
   },
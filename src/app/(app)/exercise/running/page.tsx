@@ -7,6 +7,8 @@ import { Button } from '@/components/ui/button';
 import { DatePickerWithRange } from '@/components/ui/date-range-picker';
 import { useToast } from '@/hooks/use-toast';
 import { getNormalizedActivitiesForDateRangeAndType } from '@/app/actions/activityActions';
+import { getActivitySourceLabel } from '@/lib/activity-dedup';
+import ActivityDetailsDialog from '@/components/health/activity-details-dialog';
 import type { NormalizedActivityFirestore, RunningRadarGoals } from '@/types';
 import { NormalizedActivityType } from '@/types';
 import { format, parseISO, startOfDay, endOfDay, differenceInDays } from 'date-fns';
@@ -372,8 +374,9 @@ export default function RunningExercisePage() {
                    {activity.elevationGainMeters !== undefined && <p><strong>Elevation Gain:</strong> {activity.elevationGainMeters.toFixed(0)} m</p>}
                 </CardContent>
                 <CardFooter className="text-xs text-muted-foreground bg-muted/20 py-2 px-4 justify-between items-center">
-                  <span>Source: <span className="capitalize font-medium">{activity.dataSource}</span></span>
+                  <span>Source: <span className="capitalize font-medium">{getActivitySourceLabel(activity)}</span></span>
                   <span>ID: {activity.originalId}</span>
+                  <ActivityDetailsDialog activity={activity} />
                 </CardFooter>
               </Card>
             ))}
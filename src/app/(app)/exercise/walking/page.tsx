@@ -7,6 +7,7 @@ import { Button } from '@/components/ui/button';
 import { DatePickerWithRange } from '@/components/ui/date-range-picker';
 import { useToast } from '@/hooks/use-toast';
 import { getNormalizedActivitiesForDateRangeAndType } from '@/app/actions/activityActions';
+import { getActivitySourceLabel } from '@/lib/activity-dedup';
 import type { NormalizedActivityFirestore, WalkingRadarGoals } from '@/types';
 import { NormalizedActivityType } from '@/types';
 import { format, parseISO, startOfDay, endOfDay, differenceInDays } from 'date-fns';
@@ -370,7 +371,7 @@ export default function WalkingExercisePage() {
                   {activity.calories !== undefined && <p><strong>Calories:</strong> {activity.calories.toLocaleString()} kcal</p>}
                 </CardContent>
                 <CardFooter className="text-xs text-muted-foreground bg-muted/20 py-2 px-4 justify-between items-center">
-                  <span>Source: <span className="capitalize font-medium">{activity.dataSource}</span></span>
+                  <span>Source: <span className="capitalize font-medium">{getActivitySourceLabel(activity)}</span></span>
                   <span>ID: {activity.originalId}</span>
                 </CardFooter>
               </Card>
@@ -1,13 +1,15 @@
 
 'use client';
 
-import React, { useEffect, useCallback } from 'react';
+import React, { useEffect, useCallback, useRef } from 'react';
 import { usePathname, useRouter } from 'next/navigation';
 import { useAuth } from '@/hooks/useAuth';
 import { Loader2 } from 'lucide-react';
 import AppLayoutClient from '@/components/layout/app-layout-client';
 import { SidebarProvider } from '@/components/ui/sidebar';
 import { useToast } from '@/hooks/use-toast';
+import { syncAllConnectedApps } from '@/app/actions/syncActions';
+import { migrateWithingsCookieTokens } from '@/app/actions/withingsActions';
 
 export default function AuthenticatedAppLayout({
   children,
@@ -19,12 +21,36 @@ export default function AuthenticatedAppLayout({
   const pathname = usePathname();
   const { toast } = useToast();
 
+  const isSyncingRef = useRef(false);
+
   const handleSyncAll = useCallback(async () => {
-    toast({
-      title: 'Sync Not Implemented',
-      description: 'The "Sync Apps" functionality is not yet available.',
-    });
-  }, [toast]);
+    if (!user || isSyncingRef.current) return;
+    isSyncingRef.current = true;
+    toast({ title: 'Syncing Connected Apps...', description: 'Fetching the latest data from your connected apps.' });
+    try {
+      const result = await syncAllConnectedApps(user.uid, Intl.DateTimeFormat().resolvedOptions().timeZone);
+      toast({
+        title: result.success ? 'Sync Complete!' : 'Sync Finished With Errors',
+        description: (
+          <div className="space-y-1">
+            <p>{result.message}</p>
+            {result.results.length > 0 && (
+              <ul className="text-xs space-y-0.5">
+                {result.results.map(r => (
+                  <li key={r.provider}>
+                    <span className="font-medium">{r.providerName}:</span> {r.message}
+                  </li>
+                ))}
+              </ul>
+            )}
+          </div>
+        ),
+        variant: result.success ? 'default' : 'destructive',
+      });
+    } finally {
+      isSyncingRef.current = false;
+    }
+  }, [user, toast]);
 
   useEffect(() => {
     if (authLoading) {
@@ -44,6 +70,14 @@ export default function AuthenticatedAppLayout({
 
   }, [user, authLoading, router, pathname]);
 
+  useEffect(() => {
+    if (!user) return;
+    // Withings tokens used to live in browser cookies; move any leftovers into Firestore.
+    migrateWithingsCookieTokens().catch(error => {
+      console.error('[AppLayout] Failed to migrate Withings tokens:', error);
+    });
+  }, [user]);
+
   if (authLoading || !user) {
     // Show a global loader while auth state is being confirmed or if there's no user yet (and redirect is pending)
     return (
@@ -6,6 +6,9 @@ import { Tabs, TabsContent, TabsList, TabsTrigger } from "@/components/ui/tabs";
 import DemographicsForm from '@/components/profile/demographics-form';
 import ChangePasswordForm from '@/components/profile/change-password-form';
 import FitnessConnections from '@/components/profile/fitness-connections';
+import ConnectionHealth from '@/components/profile/connection-health';
+import ActivityFileImport from '@/components/profile/activity-file-import';
+import AppleHealthImport from '@/components/profile/apple-health-import';
 import DiagnosticsConnections from '@/components/profile/diagnostics-connections';
 import InsuranceConnections from '@/components/profile/insurance-connections';
 import DashboardMetricsForm from '@/components/profile/dashboard-metrics-form';
@@ -70,6 +73,9 @@ export default function ProfilePage() {
         <TabsContent value="connections" className="flex-grow">
            <div className="space-y-6">
             <FitnessConnections userProfile={userProfile} />
+            <ConnectionHealth userProfile={userProfile} />
+            <ActivityFileImport />
+            <AppleHealthImport userProfile={userProfile} />
             <DiagnosticsConnections userProfile={userProfile} />
             <InsuranceConnections userProfile={userProfile} />
            </div>
@@ -6,8 +6,9 @@ import { Card, CardHeader, CardTitle, CardDescription, CardContent, CardFooter }
 import { Button } from '@/components/ui/button';
 import { DatePickerWithRange } from '@/components/ui/date-range-picker';
 import { useToast } from '@/hooks/use-toast';
-import { getFitbitSleepLogsForDateRange } from '@/app/actions/fitbitActions'; // Action to fetch sleep logs
-import type { FitbitSleepLogFirestore, SleepRadarGoals, UserProfile } from '@/types';
+import { getNormalizedSleepForDateRange } from '@/app/actions/sleepActions'; // Action to fetch sleep records
+import { selectPreferredSleepRecords } from '@/lib/sleep-utils';
+import type { NormalizedSleepFirestore, SleepRadarGoals, UserProfile } from '@/types';
 import { format, parseISO, startOfDay, endOfDay, differenceInDays, differenceInMinutes } from 'date-fns';
 import { Loader2, Bed } from 'lucide-react';
 import { useAuth } from '@/hooks/useAuth';
@@ -51,7 +52,7 @@ export default function SleepPage() {
     from: startOfDay(new Date()), // Default to today
     to: endOfDay(new Date()),
   });
-  const [sleepLogs, setSleepLogs] = useState<FitbitSleepLogFirestore[]>([]);
+  const [sleepLogs, setSleepLogs] = useState<NormalizedSleepFirestore[]>([]);
 
   const userGoals: SleepRadarGoals = userProfile?.sleepRadarGoals || {};
 
@@ -62,15 +63,15 @@ export default function SleepPage() {
     }
     startDataFetchTransition(async () => {
       try {
-        const result = await getFitbitSleepLogsForDateRange(user.uid, {
+        const result = await getNormalizedSleepForDateRange(user.uid, {
           from: format(viewDateRange.from!, 'yyyy-MM-dd'),
           to: format(viewDateRange.to!, 'yyyy-MM-dd'),
         });
 
         if (result.success && result.data) {
-          setSleepLogs(result.data.sort((a, b) => parseISO(b.startTime).getTime() - parseISO(a.startTime).getTime()));
+          setSleepLogs(result.data.sort((a, b) => parseISO(b.startTimeUtc).getTime() - parseISO(a.startTimeUtc).getTime()));
           if (result.data.length === 0) {
-            toast({ title: 'No Sleep Data', description: 'No sleep logs found from Fitbit for the selected range.', variant: 'default' });
+            toast({ title: 'No Sleep Data', description: 'No sleep logs found from your connected apps for the selected range.', variant: 'default' });
           }
         } else {
           setSleepLogs([]);
@@ -91,9 +92,9 @@ export default function SleepPage() {
   // eslint-disable-next-line react-hooks/exhaustive-deps
   }, [viewDateRange, user]);
 
-  const formatDurationFromMs = (ms?: number): string => {
-    if (ms === undefined || ms === null || isNaN(ms)) return 'N/A';
-    const totalMinutes = Math.floor(ms / (1000 * 60));
+  const formatDurationFromSec = (seconds?: number): string => {
+    if (seconds === undefined || seconds === null || isNaN(seconds)) return 'N/A';
+    const totalMinutes = Math.floor(seconds / 60);
     const h = Math.floor(totalMinutes / 60);
     const m = totalMinutes % 60;
     return `${h}h ${m}m`;
@@ -113,28 +114,35 @@ export default function SleepPage() {
     const numberOfDays = differenceInDays(endOfDay(viewDateRange.to), startOfDay(viewDateRange.from)) + 1;
     if (numberOfDays <= 0) return [];
 
-    // Consider only main sleep logs for averages if available, or all logs.
-    // For simplicity, averaging all logs for now.
-    const relevantLogs = sleepLogs; // .filter(log => log.isMainSleep); // Or further filter by date range if needed
+    // A night recorded by several apps is averaged once, from the most trusted source.
+    const relevantLogs = selectPreferredSleepRecords(sleepLogs);
 
     if (relevantLogs.length === 0) return [];
 
-    let totalDurationMs = 0;
+    // Not every source reports efficiency or stages, so those are averaged over the logs that have them.
+    const logsWithEfficiency = relevantLogs.filter(log => log.efficiencyPercent !== undefined);
+    const logsWithStages = relevantLogs.filter(log => log.stageMinutes?.deep !== undefined || log.stageMinutes?.rem !== undefined);
+
+    let totalDurationSec = 0;
     let totalEfficiencySum = 0;
     let totalDeepSleepMinutes = 0;
     let totalRemSleepMinutes = 0;
     
     relevantLogs.forEach(log => {
-      totalDurationMs += log.duration || 0; // duration is in ms
-      totalEfficiencySum += log.efficiency || 0; // efficiency is %
-      totalDeepSleepMinutes += log.levels?.summary?.deep?.minutes || 0;
-      totalRemSleepMinutes += log.levels?.summary?.rem?.minutes || 0;
+      totalDurationSec += log.durationSec || 0;
+    });
+    logsWithEfficiency.forEach(log => {
+      totalEfficiencySum += log.efficiencyPercent || 0;
+    });
+    logsWithStages.forEach(log => {
+      totalDeepSleepMinutes += log.stageMinutes?.deep || 0;
+      totalRemSleepMinutes += log.stageMinutes?.rem || 0;
     });
 
-    const avgDurationHours = (totalDurationMs / relevantLogs.length) / (1000 * 60 * 60);
-    const avgEfficiencyPercent = totalEfficiencySum / relevantLogs.length;
-    const avgDeepSleepMinutes = totalDeepSleepMinutes / relevantLogs.length;
-    const avgRemSleepMinutes = totalRemSleepMinutes / relevantLogs.length;
+    const avgDurationHours = (totalDurationSec / relevantLogs.length) / (60 * 60);
+    const avgEfficiencyPercent = totalEfficiencySum / logsWithEfficiency.length;
+    const avgDeepSleepMinutes = totalDeepSleepMinutes / logsWithStages.length;
+    const avgRemSleepMinutes = totalRemSleepMinutes / logsWithStages.length;
 
     const goalDuration = userGoals.targetSleepDurationHours ?? DEFAULT_TARGET_SLEEP_DURATION_HOURS;
     const goalEfficiency = userGoals.minSleepEfficiencyPercent ?? DEFAULT_MIN_SLEEP_EFFICIENCY_PERCENT;
@@ -193,7 +201,7 @@ export default function SleepPage() {
             <div>
               <CardTitle className="text-3xl font-bold tracking-tight">Sleep Analysis</CardTitle>
               <CardDescription className="text-muted-foreground">
-                View and analyze your sleep patterns from Fitbit. Set your goals in Profile &gt; Sleep Goals.
+                View and analyze your sleep patterns from Fitbit, Google Fit and Withings. Set your goals in Profile &gt; Sleep Goals.
               </CardDescription>
             </div>
           </div>
@@ -216,7 +224,7 @@ export default function SleepPage() {
               </Button>
             </div>
             <p className="text-xs text-muted-foreground mt-2">
-              Data is fetched from your stored Fitbit sleep logs. Sync new logs from your Profile page.
+              Data is fetched from your stored sleep logs. Sync new logs from your Profile page.
             </p>
           </div>
         </CardContent>
@@ -297,29 +305,29 @@ export default function SleepPage() {
           </h3>
           <div className="grid gap-4 md:grid-cols-2 lg:grid-cols-3">
             {sleepLogs.map((log) => (
-              <Card key={log.logId} className="shadow-sm hover:shadow-md transition-shadow rounded-lg overflow-hidden">
+              <Card key={log.id} className="shadow-sm hover:shadow-md transition-shadow rounded-lg overflow-hidden">
                 <CardHeader className="pb-2 bg-muted/30">
                   <CardTitle className="text-lg capitalize flex items-center gap-2">
                      <Bed className="h-5 w-5 text-primary" />
                     Sleep on {format(parseISO(log.dateOfSleep), 'PP')}
                   </CardTitle>
                    <CardDescription className="text-xs">
-                     Started: {format(parseISO(log.startTime), 'PPpp')}
+                     Started: {format(parseISO(log.startTimeUtc), 'PPpp')}
                   </CardDescription>
                 </CardHeader>
                 <CardContent className="space-y-1 text-sm pt-4">
-                  <p><strong>Duration:</strong> {formatDurationFromMs(log.duration)}</p>
-                  <p><strong>Time in Bed:</strong> {formatDurationFromMins(log.timeInBed)}</p>
-                  <p><strong>Efficiency:</strong> {log.efficiency}%</p>
-                  {log.levels?.summary?.deep && <p><strong>Deep Sleep:</strong> {formatDurationFromMins(log.levels.summary.deep.minutes)}</p>}
-                  {log.levels?.summary?.light && <p><strong>Light Sleep:</strong> {formatDurationFromMins(log.levels.summary.light.minutes)}</p>}
-                  {log.levels?.summary?.rem && <p><strong>REM Sleep:</strong> {formatDurationFromMins(log.levels.summary.rem.minutes)}</p>}
-                  {log.levels?.summary?.wake && <p><strong>Awake:</strong> {formatDurationFromMins(log.levels.summary.wake.minutes)}</p>}
-                   <p><strong>Type:</strong> <span className="capitalize">{log.type}</span> {log.isMainSleep && '(Main Sleep)'}</p>
+                  <p><strong>Time in Bed:</strong> {formatDurationFromSec(log.durationSec)}</p>
+                  <p><strong>Time Asleep:</strong> {formatDurationFromMins(log.minutesAsleep)}</p>
+                  {log.efficiencyPercent !== undefined && <p><strong>Efficiency:</strong> {log.efficiencyPercent}%</p>}
+                  {log.stageMinutes?.deep !== undefined && <p><strong>Deep Sleep:</strong> {formatDurationFromMins(log.stageMinutes.deep)}</p>}
+                  {log.stageMinutes?.light !== undefined && <p><strong>Light Sleep:</strong> {formatDurationFromMins(log.stageMinutes.light)}</p>}
+                  {log.stageMinutes?.rem !== undefined && <p><strong>REM Sleep:</strong> {formatDurationFromMins(log.stageMinutes.rem)}</p>}
+                  {log.stageMinutes?.awake !== undefined && <p><strong>Awake:</strong> {formatDurationFromMins(log.stageMinutes.awake)}</p>}
+                  {log.isMainSleep && <p className="text-muted-foreground">(Main Sleep)</p>}
                 </CardContent>
                  <CardFooter className="text-xs text-muted-foreground bg-muted/20 py-2 px-4 justify-between items-center">
                     <span>Source: <span className="capitalize font-medium">{log.dataSource}</span></span>
-                    <span>Log ID: {log.logId}</span>
+                    <span>Log ID: {log.originalId}</span>
                 </CardFooter>
               </Card>
             ))}
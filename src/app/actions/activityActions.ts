@@ -2,8 +2,10 @@
 'use server';
 
 import { adminDb } from '@/lib/firebase/serverApp';
+import admin from 'firebase-admin';
 import type { NormalizedActivityFirestore, NormalizedActivityType } from '@/types';
-import { format, parseISO } from 'date-fns';
+import { findDuplicateGroups, isCanonicalActivity, mergeDuplicateActivities, MERGED_DATA_SOURCE } from '@/lib/activity-dedup';
+import { format, parseISO, subDays, addDays } from 'date-fns';
 
 interface GetActivitiesResponse {
   success: boolean;
@@ -37,7 +39,11 @@ export async function getNormalizedActivitiesForDateRangeAndType(
     const querySnapshot = await firestoreQuery.get();
     const activities: NormalizedActivityFirestore[] = [];
     querySnapshot.forEach((docSnap) => {
-      activities.push(docSnap.data() as NormalizedActivityFirestore);
+      const activity = docSnap.data() as NormalizedActivityFirestore;
+      // Activities merged into a canonical record are represented by that record.
+      if (isCanonicalActivity(activity)) {
+        activities.push(activity);
+      }
     });
 
     console.log(`[ActivityActions] Fetched ${activities.length} ${activityType} activities from Firestore for user ${userId}.`);
@@ -47,3 +53,86 @@ export async function getNormalizedActivitiesForDateRangeAndType(
     return { success: false, error: `Failed to fetch ${activityType} activities: ${String(error.message || 'Unknown Firestore error')}` };
   }
 }
+
+interface DeduplicateActivitiesResult {
+  success: boolean;
+  message: string;
+  mergedCount?: number;
+  error?: string;
+}
+
+// Firestore allows at most 500 writes per batch.
+const MAX_BATCH_WRITES = 450;
+
+/**
+ * Finds activities recorded by more than one source within a date range and merges each set of
+ * duplicates into a canonical activity. Safe to run repeatedly: canonical records are rebuilt from
+ * their sources, and links that no longer apply are removed.
+ * Called after every sync that writes activities.
+ */
+export async function deduplicateActivities(
+  userId: string,
+  dateRange: { from: string; to: string } // Dates in 'yyyy-MM-dd' format
+): Promise<DeduplicateActivitiesResult> {
+  if (!userId) {
+    return { success: false, message: 'User not authenticated.' };
+  }
+
+  try {
+    const activitiesCollectionRef = adminDb.collection('users').doc(userId).collection('activities');
+
+    // Look one day past each end so that workouts crossing midnight (or stored under a different
+    // local date by another source) still find their duplicates.
+    const querySnapshot = await activitiesCollectionRef
+      .where('date', '>=', format(subDays(parseISO(dateRange.from), 1), 'yyyy-MM-dd'))
+      .where('date', '<=', format(addDays(parseISO(dateRange.to), 1), 'yyyy-MM-dd'))
+      .get();
+    const activities = querySnapshot.docs.map(docSnap => docSnap.data() as NormalizedActivityFirestore);
+    const isInRange = (activity: NormalizedActivityFirestore) => activity.date >= dateRange.from && activity.date <= dateRange.to;
+
+    const writes: Array<(batch: admin.firestore.WriteBatch) => void> = [];
+    const rebuiltCanonicalIds = new Set<string>();
+    let mergedCount = 0;
+
+    for (const group of findDuplicateGroups(activities)) {
+      if (!group.some(isInRange)) continue;
+
+      if (group.length === 1) {
+        const [activity] = group;
+        if (activity.canonicalActivityId) {
+          writes.push(batch => batch.update(activitiesCollectionRef.doc(activity.id), { canonicalActivityId: admin.firestore.FieldValue.delete() }));
+        }
+        continue;
+      }
+
+      const canonical = mergeDuplicateActivities(group, userId);
+      rebuiltCanonicalIds.add(canonical.id);
+      mergedCount++;
+      // The canonical record is rebuilt from scratch so fields dropped by a source do not linger.
+      writes.push(batch => batch.set(activitiesCollectionRef.doc(canonical.id), canonical));
+      group.forEach(activity => {
+        if (activity.canonicalActivityId !== canonical.id) {
+          writes.push(batch => batch.update(activitiesCollectionRef.doc(activity.id), { canonicalActivityId: canonical.id }));
+        }
+      });
+    }
+
+    // Canonical records whose duplicates no longer match (e.g. one source was deleted or edited).
+    activities
+      .filter(activity => activity.dataSource === MERGED_DATA_SOURCE && isInRange(activity) && !rebuiltCanonicalIds.has(activity.id))
+      .forEach(activity => writes.push(batch => batch.delete(activitiesCollectionRef.doc(activity.id))));
+
+    for (let i = 0; i < writes.length; i += MAX_BATCH_WRITES) {
+      const batch = adminDb.batch();
+      writes.slice(i, i + MAX_BATCH_WRITES).forEach(write => write(batch));
+      await batch.commit();
+    }
+
+    const message = `Merged ${mergedCount} set(s) of duplicate activities.`;
+    console.log(`[ActivityActions] ${message} (user ${userId}, ${dateRange.from} to ${dateRange.to})`);
+    return { success: true, message, mergedCount };
+  } catch (error: any) {
+    console.error(`[ActivityActions] Error deduplicating activities for user ${userId}:`, error);
+    return { success: false, message: 'Failed to deduplicate activities.', error: String(error.message || 'Unknown Firestore error') };
+  }
+}
@@ -0,0 +1,300 @@
+'use server';
+
+import { createHash } from 'crypto';
+import admin from 'firebase-admin';
+import { adminDb } from '@/lib/firebase/serverApp';
+import { deduplicateActivities } from '@/app/actions/activityActions';
+import {
+  detectActivityFileFormat,
+  isActivityFileParseError,
+  parseActivityFile,
+  type ActivityFileFormat,
+  type ParsedActivityFile,
+} from '@/lib/activity-file-parsers';
+import { buildTrackSeries, computeTrackMetrics } from '@/lib/track-metrics';
+import { downsampleAlignedSeries } from '@/lib/downsampling';
+import { DEFAULT_TIME_ZONE, formatLocalDateTimeInTimeZone, isValidTimeZone } from '@/lib/timezone-utils';
+import {
+  NormalizedActivityType,
+  type ActivityFileFirestore,
+  type ActivityStreamsFirestore,
+  type NormalizedActivityFirestore,
+  type UserProfile,
+} from '@/types';
+
+const FILE_DATA_SOURCE = 'file';
+// Enough for several hours recorded at one point per second. The server action body limit in
+// next.config.js must stay above this.
+const MAX_ACTIVITY_FILE_BYTES = 20 * 1024 * 1024;
+// Same chart resolution as Strava streams.
+const MAX_STREAM_POINTS = 500;
+const DEFAULT_IMPORTED_FILES_LIMIT = 10;
+
+const CONTENT_TYPES: Record<ActivityFileFormat, string> = {
+  gpx: 'application/gpx+xml',
+  tcx: 'application/vnd.garmin.tcx+xml',
+  fit: 'application/octet-stream',
+};
+
+// Matched in order against the sport named in the file, e.g. 'Running' (TCX) or 'hiking' (FIT).
+const SPORT_ACTIVITY_TYPES: Array<[RegExp, NormalizedActivityType]> = [
+  [/run/i, NormalizedActivityType.Running],
+  [/hik/i, NormalizedActivityType.Hiking],
+  [/walk/i, NormalizedActivityType.Walking],
+  [/swim/i, NormalizedActivityType.Swimming],
+  [/bik|cycl|ride/i, NormalizedActivityType.Cycling],
+  [/training|fitness|workout|strength/i, NormalizedActivityType.Workout],
+];
+
+interface ImportActivityFileResult {
+  success: boolean;
+  message?: string;
+  data?: NormalizedActivityFirestore;
+  error?: string;
+}
+
+interface GetImportedActivityFilesResponse {
+  success: boolean;
+  data?: ActivityFileFirestore[];
+  error?: string;
+}
+
+function getActivityTypeForSport(sport: string | undefined): NormalizedActivityType {
+  if (!sport) return NormalizedActivityType.Other;
+  return SPORT_ACTIVITY_TYPES.find(([pattern]) => pattern.test(sport))?.[1] ?? NormalizedActivityType.Other;
+}
+
+function isNormalizedActivityType(value: unknown): value is NormalizedActivityType {
+  return Object.values(NormalizedActivityType).includes(value as NormalizedActivityType);
+}
+
+function getActivityFilesBucket() {
+  return admin.storage().bucket(process.env.NEXT_PUBLIC_FIREBASE_STORAGE_BUCKET);
+}
+
+async function getUserTimeZone(userId: string): Promise<string> {
+  const userProfile = (await adminDb.collection('users').doc(userId).get()).data() as UserProfile | undefined;
+  return isValidTimeZone(userProfile?.timezone) ? userProfile.timezone : DEFAULT_TIME_ZONE;
+}
+
+/**
+ * Builds the activity and its chart streams from a parsed file. Files carry UTC times only, so the
+ * local start time and date use the user's profile time zone.
+ */
+function normalizeActivityFile(
+  userId: string,
+  file: ActivityFileFirestore,
+  parsed: ParsedActivityFile,
+  timeZone: string
+): { activity: NormalizedActivityFirestore; streams: ActivityStreamsFirestore } {
+  const metrics = computeTrackMetrics(parsed.points);
+  const startTimeLocal = formatLocalDateTimeInTimeZone(metrics.startTimeMs, timeZone);
+  const lastFetched = new Date().toISOString();
+
+  const activity: NormalizedActivityFirestore = {
+    id: file.activityId,
+    userId,
+    originalId: file.id,
+    dataSource: FILE_DATA_SOURCE,
+    type: file.activityTypeOverride ?? getActivityTypeForSport(parsed.sport),
+    name: parsed.name || file.fileName.replace(/\.[^.]+$/, ''),
+    startTimeUtc: new Date(metrics.startTimeMs).toISOString(),
+    startTimeLocal,
+    timezone: timeZone,
+    durationMovingSec: metrics.durationMovingSec,
+    durationElapsedSec: metrics.durationElapsedSec,
+    distanceMeters: metrics.distanceMeters,
+    calories: parsed.calories,
+    averageHeartRateBpm: metrics.averageHeartRateBpm !== undefined ? Math.round(metrics.averageHeartRateBpm) : undefined,
+    maxHeartRateBpm: metrics.maxHeartRateBpm,
+    elevationGainMeters: metrics.elevationGainMeters,
+    mapPolyline: metrics.mapPolyline,
+    date: startTimeLocal.slice(0, 10),
+    lastFetched,
+  };
+
+  const series = buildTrackSeries(parsed.points);
+  const downsampled = downsampleAlignedSeries({ ...series }, MAX_STREAM_POINTS);
+  const streams: ActivityStreamsFirestore = {
+    activityId: file.activityId,
+    dataSource: FILE_DATA_SOURCE,
+    originalId: file.id,
+    originalSampleCount: series.timeSec.length,
+    sampleCount: downsampled.timeSec!.length,
+    timeSec: downsampled.timeSec!,
+    lastFetched,
+  };
+  // Firestore rejects undefined values, so only the recorded streams are set.
+  for (const key of ['distanceMeters', 'heartRateBpm', 'altitudeMeters', 'velocityMetersPerSec', 'cadence'] as const) {
+    if (downsampled[key]) streams[key] = downsampled[key];
+  }
+
+  return {
+    activity: Object.fromEntries(Object.entries(activity).filter(([, value]) => value !== undefined)) as NormalizedActivityFirestore,
+    streams,
+  };
+}
+
+async function saveActivityFile(userId: string, file: ActivityFileFirestore, parsed: ParsedActivityFile): Promise<NormalizedActivityFirestore> {
+  const timeZone = await getUserTimeZone(userId);
+  const { activity, streams } = normalizeActivityFile(userId, file, parsed, timeZone);
+
+  const userRef = adminDb.collection('users').doc(userId);
+  const activityRef = userRef.collection('activities').doc(activity.id);
+  // The activity is replaced, so metrics the new parse no longer reports do not survive it. Only the
+  // deduplication bookkeeping of a reparsed activity is carried over.
+  const canonicalActivityId = (await activityRef.get()).get('canonicalActivityId') as string | undefined;
+  if (canonicalActivityId) activity.canonicalActivityId = canonicalActivityId;
+
+  const batch = adminDb.batch();
+  batch.set(userRef.collection('activity_files').doc(file.id), file);
+  batch.set(activityRef, activity);
+  batch.set(userRef.collection('activity_streams').doc(activity.id), streams);
+  await batch.commit();
+
+  return activity;
+}
+
+/**
+ * Imports an activity recorded on a device we do not integrate with, from a GPX, TCX or FIT file.
+ * The original file is kept in Cloud Storage so the activity can be parsed again later.
+ * @param formData `file`: the uploaded file; `activityType` (optional): a NormalizedActivityType to use
+ * instead of the sport named in the file.
+ */
+export async function importActivityFile(userId: string, formData: FormData): Promise<ImportActivityFileResult> {
+  if (!userId) {
+    return { success: false, error: 'User not authenticated.' };
+  }
+
+  const upload = formData.get('file');
+  if (!(upload instanceof File) || upload.size === 0) {
+    return { success: false, error: 'Please choose a file to import.' };
+  }
+  if (upload.size > MAX_ACTIVITY_FILE_BYTES) {
+    return { success: false, error: `The file is too large. Files up to ${MAX_ACTIVITY_FILE_BYTES / (1024 * 1024)} MB can be imported.` };
+  }
+  const requestedType = formData.get('activityType');
+  const activityTypeOverride = isNormalizedActivityType(requestedType) ? requestedType : undefined;
+
+  try {
+    const content = Buffer.from(await upload.arrayBuffer());
+    const format = detectActivityFileFormat(upload.name, content);
+    if (!format) {
+      return { success: false, error: 'Unsupported file type. Please upload a GPX, TCX or FIT file.' };
+    }
+    const parsed = parseActivityFile(format, content);
+
+    const fileId = createHash('sha256').update(content).digest('hex');
+    const fileRef = adminDb.collection('users').doc(userId).collection('activity_files').doc(fileId);
+    if ((await fileRef.get()).exists) {
+      return { success: false, error: 'This file has already been imported.' };
+    }
+
+    const storagePath = `users/${userId}/activity_files/${fileId}.${format}`;
+    await getActivityFilesBucket().file(storagePath).save(content, {
+      resumable: false,
+      contentType: CONTENT_TYPES[format],
+      metadata: { metadata: { originalFileName: upload.name } },
+    });
+
+    const now = new Date().toISOString();
+    const file: ActivityFileFirestore = {
+      id: fileId,
+      fileName: upload.name,
+      format,
+      sizeBytes: upload.size,
+      storagePath,
+      activityId: `${FILE_DATA_SOURCE}-${fileId.slice(0, 24)}`,
+      uploadedAt: now,
+      lastParsedAt: now,
+    };
+    if (activityTypeOverride) file.activityTypeOverride = activityTypeOverride;
+
+    const activity = await saveActivityFile(userId, file, parsed);
+    await deduplicateActivities(userId, { from: activity.date, to: activity.date });
+
+    const message = `Imported "${activity.name}" (${parsed.points.length} track points) from ${upload.name}.`;
+    console.log(`[ActivityFileActions] ${message} (user ${userId})`);
+    return { success: true, message, data: activity };
+  } catch (error: any) {
+    if (isActivityFileParseError(error)) {
+      return { success: false, error: error.message };
+    }
+    console.error(`[ActivityFileActions] Error importing ${upload.name} for user ${userId}:`, error);
+    return { success: false, error: `Failed to import the file: ${String(error.message || 'Unknown error')}` };
+  }
+}
+
+/**
+ * Parses a previously imported file again from its stored original and rewrites its activity,
+ * e.g. after the parsers or metric calculations have improved.
+ * @param activityType If given, replaces the activity type chosen at import.
+ */
+export async function reparseActivityFile(
+  userId: string,
+  fileId: string,
+  activityType?: NormalizedActivityType
+): Promise<ImportActivityFileResult> {
+  if (!userId) {
+    return { success: false, error: 'User not authenticated.' };
+  }
+
+  try {
+    const fileRef = adminDb.collection('users').doc(userId).collection('activity_files').doc(fileId);
+    const fileSnap = await fileRef.get();
+    if (!fileSnap.exists) {
+      return { success: false, error: 'Imported file not found.' };
+    }
+    const stored = fileSnap.data() as ActivityFileFirestore;
+    const previousActivity = (await adminDb.collection('users').doc(userId).collection('activities').doc(stored.activityId).get()).data() as
+      | NormalizedActivityFirestore
+      | undefined;
+
+    const [content] = await getActivityFilesBucket().file(stored.storagePath).download();
+    const parsed = parseActivityFile(stored.format, content);
+
+    const file: ActivityFileFirestore = { ...stored, lastParsedAt: new Date().toISOString() };
+    if (isNormalizedActivityType(activityType)) file.activityTypeOverride = activityType;
+
+    const activity = await saveActivityFile(userId, file, parsed);
+    // The start date can only change if the user's time zone did, but both days need re-checking then.
+    const dates = [activity.date, previousActivity?.date ?? activity.date].sort();
+    await deduplicateActivities(userId, { from: dates[0], to: dates[1] });
+
+    const message = `Re-imported "${activity.name}" from ${stored.fileName}.`;
+    console.log(`[ActivityFileActions] ${message} (user ${userId})`);
+    return { success: true, message, data: activity };
+  } catch (error: any) {
+    if (isActivityFileParseError(error)) {
+      return { success: false, error: error.message };
+    }
+    console.error(`[ActivityFileActions] Error re-parsing activity file ${fileId} for user ${userId}:`, error);
+    return { success: false, error: `Failed to re-import the file: ${String(error.message || 'Unknown error')}` };
+  }
+}
+
+/**
+ * Returns the most recently imported activity files, newest first.
+ */
+export async function getImportedActivityFiles(
+  userId: string,
+  limit: number = DEFAULT_IMPORTED_FILES_LIMIT
+): Promise<GetImportedActivityFilesResponse> {
+  if (!userId) {
+    return { success: false, error: 'User not authenticated.' };
+  }
+
+  try {
+    const snapshot = await adminDb
+      .collection('users')
+      .doc(userId)
+      .collection('activity_files')
+      .orderBy('uploadedAt', 'desc')
+      .limit(limit)
+      .get();
+    return { success: true, data: snapshot.docs.map(doc => doc.data() as ActivityFileFirestore) };
+  } catch (error: any) {
+    console.error(`[ActivityFileActions] Error fetching imported activity files for user ${userId}:`, error);
+    return { success: false, error: `Failed to fetch imported files: ${String(error.message || 'Unknown Firestore error')}` };
+  }
+}
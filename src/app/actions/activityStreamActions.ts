@@ -0,0 +1,50 @@
+'use server';
+
+import { adminDb } from '@/lib/firebase/serverApp';
+import { fetchStravaActivityStreams } from '@/app/actions/stravaActions';
+import type { ActivityStreamsFirestore, NormalizedActivityFirestore } from '@/types';
+
+interface GetActivityStreamsResponse {
+  success: boolean;
+  data?: ActivityStreamsFirestore | null; // null when none of the activity's sources recorded streams
+  error?: string;
+}
+
+/**
+ * Returns the detailed data streams (heart rate, pace, altitude, cadence) of an activity.
+ * Streams are looked up under the activity's source records, so a merged activity uses the streams of
+ * any source that has them. Strava streams that were not fetched during the sync are fetched now.
+ * @param activityId The ID of the activity document, as returned by the activity queries.
+ */
+export async function getActivityStreams(userId: string, activityId: string): Promise<GetActivityStreamsResponse> {
+  if (!userId) {
+    return { success: false, error: 'User not authenticated.' };
+  }
+
+  try {
+    const userRef = adminDb.collection('users').doc(userId);
+    const activitySnap = await userRef.collection('activities').doc(activityId).get();
+    if (!activitySnap.exists) {
+      return { success: false, error: 'Activity not found.' };
+    }
+    const activity = activitySnap.data() as NormalizedActivityFirestore;
+    const sources = activity.mergedFrom || [{ id: activity.id, dataSource: activity.dataSource, originalId: activity.originalId }];
+
+    const streamSnaps = await adminDb.getAll(...sources.map(source => userRef.collection('activity_streams').doc(source.id)));
+    const storedStreams = streamSnaps.find(snap => snap.exists);
+    if (storedStreams) {
+      return { success: true, data: storedStreams.data() as ActivityStreamsFirestore };
+    }
+
+    const stravaSource = sources.find(source => source.dataSource === 'strava');
+    if (stravaSource) {
+      console.log(`[ActivityStreamActions] Fetching streams of ${stravaSource.id} on demand for user ${userId}.`);
+      return await fetchStravaActivityStreams(userId, Number(stravaSource.originalId));
+    }
+
+    return { success: true, data: null };
+  } catch (error: any) {
+    console.error(`[ActivityStreamActions] Error fetching streams of activity ${activityId} for user ${userId}:`, error);
+    return { success: false, error: `Failed to fetch activity details: ${String(error.message || 'Unknown Firestore error')}` };
+  }
+}
@@ -0,0 +1,185 @@
+'use server';
+
+import { z } from 'zod';
+import { adminDb } from '@/lib/firebase/serverApp';
+import { deduplicateActivities } from '@/app/actions/activityActions';
+import { APPLE_HEALTH_DATA_SOURCE, type AppleHealthImportBatch } from '@/lib/apple-health-export';
+import { DEFAULT_TIME_ZONE, isValidTimeZone } from '@/lib/timezone-utils';
+import { NormalizedActivityType, type UserProfile } from '@/types';
+
+// Firestore allows at most 500 writes per batch; each call writes one batch.
+const MAX_RECORDS_PER_BATCH = 450;
+
+// The export is read in the browser, so everything it sends is validated here before it is stored.
+const recordId = z.string().regex(/^apple_health-[\w.-]{1,100}$/);
+const date = z.string().regex(/^\d{4}-\d{2}-\d{2}$/);
+const dateTime = z.string().datetime();
+const localDateTime = z.string().regex(/^\d{4}-\d{2}-\d{2}T\d{2}:\d{2}:\d{2}$/);
+const amount = z.number().finite().nonnegative();
+const sleepStage = z.enum(['awake', 'light', 'deep', 'rem', 'asleep', 'outOfBed']);
+
+const activitySchema = z.object({
+  id: recordId,
+  originalId: z.string().max(100),
+  type: z.nativeEnum(NormalizedActivityType),
+  name: z.string().max(100).optional(),
+  startTimeUtc: dateTime,
+  startTimeLocal: localDateTime.optional(),
+  durationMovingSec: amount.optional(),
+  durationElapsedSec: amount.optional(),
+  distanceMeters: amount.optional(),
+  calories: amount.optional(),
+  averageHeartRateBpm: amount.optional(),
+  maxHeartRateBpm: amount.optional(),
+  elevationGainMeters: amount.optional(),
+  date,
+}).strict();
+
+const dailySummarySchema = z.object({
+  date,
+  steps: amount.optional(),
+  restingHeartRate: amount.optional(),
+  averageHeartRate: amount.optional(),
+  minHeartRate: amount.optional(),
+  maxHeartRate: amount.optional(),
+}).strict();
+
+const measurementSchema = z.object({
+  id: recordId,
+  originalId: z.string().max(100),
+  measuredAtUtc: dateTime,
+  date,
+  weightKg: amount.optional(),
+}).strict();
+
+const sleepSchema = z.object({
+  id: recordId,
+  originalId: z.string().max(100),
+  dateOfSleep: date,
+  startTimeUtc: dateTime,
+  endTimeUtc: dateTime,
+  durationSec: amount,
+  minutesAsleep: amount.optional(),
+  minutesAwake: amount.optional(),
+  efficiencyPercent: amount.max(100).optional(),
+  isMainSleep: z.boolean().optional(),
+  stageMinutes: z.record(sleepStage, amount).optional(),
+  stageSegments: z.array(z.object({ stage: sleepStage, startTimeUtc: dateTime, durationSec: amount }).strict()).max(500).optional(),
+}).strict();
+
+const importBatchSchema = z.object({
+  activities: z.array(activitySchema).optional(),
+  dailySummaries: z.array(dailySummarySchema).optional(),
+  measurements: z.array(measurementSchema).optional(),
+  sleep: z.array(sleepSchema).optional(),
+}).strict();
+
+interface SaveAppleHealthBatchResult {
+  success: boolean;
+  savedCount?: number;
+  error?: string;
+}
+
+interface CompleteAppleHealthImportResult {
+  success: boolean;
+  message?: string;
+  error?: string;
+}
+
+async function getUserTimeZone(userId: string): Promise<string> {
+  const userProfile = (await adminDb.collection('users').doc(userId).get()).data() as UserProfile | undefined;
+  return isValidTimeZone(userProfile?.timezone) ? userProfile.timezone : DEFAULT_TIME_ZONE;
+}
+
+/**
+ * Stores one batch of records read from an Apple Health export. Record IDs are derived from the data,
+ * so a batch that is sent again (e.g. when an import is repeated) overwrites the same documents.
+ */
+export async function saveAppleHealthImportBatch(userId: string, batch: AppleHealthImportBatch): Promise<SaveAppleHealthBatchResult> {
+  if (!userId) {
+    return { success: false, error: 'User not authenticated.' };
+  }
+
+  const parsed = importBatchSchema.safeParse(batch);
+  if (!parsed.success) {
+    console.warn(`[AppleHealthActions] Rejected an invalid import batch from user ${userId}:`, parsed.error.issues.slice(0, 5));
+    return { success: false, error: 'The export contained records that could not be imported.' };
+  }
+  const { activities = [], dailySummaries = [], measurements = [], sleep = [] } = parsed.data;
+  const recordCount = activities.length + dailySummaries.length + measurements.length + sleep.length;
+  if (recordCount > MAX_RECORDS_PER_BATCH) {
+    return { success: false, error: `A batch can hold at most ${MAX_RECORDS_PER_BATCH} records.` };
+  }
+
+  try {
+    const timeZone = await getUserTimeZone(userId);
+    const lastFetched = new Date().toISOString();
+    const userRef = adminDb.collection('users').doc(userId);
+    const writeBatch = adminDb.batch();
+
+    activities.forEach(activity => {
+      writeBatch.set(
+        userRef.collection('activities').doc(activity.id),
+        { ...activity, userId, dataSource: APPLE_HEALTH_DATA_SOURCE, lastFetched },
+        { merge: true }
+      );
+    });
+    dailySummaries.forEach(summary => {
+      // Same composite key of date and source as the Google Fit summaries.
+      writeBatch.set(userRef.collection('daily_summaries').doc(`${summary.date}_${APPLE_HEALTH_DATA_SOURCE}`), {
+        ...summary,
+        timezone: timeZone,
+        dataSource: APPLE_HEALTH_DATA_SOURCE,
+        lastFetched,
+      });
+    });
+    measurements.forEach(measurement => {
+      writeBatch.set(userRef.collection('measurements').doc(measurement.id), {
+        ...measurement,
+        userId,
+        dataSource: APPLE_HEALTH_DATA_SOURCE,
+        lastFetched,
+      });
+    });
+    sleep.forEach(record => {
+      writeBatch.set(userRef.collection('sleep').doc(record.id), {
+        ...record,
+        userId,
+        dataSource: APPLE_HEALTH_DATA_SOURCE,
+        lastFetched,
+      });
+    });
+
+    await writeBatch.commit();
+    return { success: true, savedCount: recordCount };
+  } catch (error: any) {
+    console.error(`[AppleHealthActions] Error saving an import batch for user ${userId}:`, error);
+    return { success: false, error: `Failed to save imported records: ${String(error.message || 'Unknown Firestore error')}` };
+  }
+}
+
+/**
+ * Finishes an Apple Health import once all batches are stored: merges the imported workouts with
+ * activities from other sources and records when the import happened.
+ * @param activityDateRange The range of dates of the imported workouts, if there were any.
+ */
+export async function completeAppleHealthImport(
+  userId: string,
+  activityDateRange?: { from: string; to: string }
+): Promise<CompleteAppleHealthImportResult> {
+  if (!userId) {
+    return { success: false, error: 'User not authenticated.' };
+  }
+
+  try {
+    if (activityDateRange) {
+      await deduplicateActivities(userId, activityDateRange);
+    }
+    await adminDb.collection('users').doc(userId).set({ appleHealthLastImportAt: new Date().toISOString() }, { merge: true });
+    console.log(`[AppleHealthActions] Completed Apple Health import for user ${userId}.`);
+    return { success: true, message: 'Apple Health import complete.' };
+  } catch (error: any) {
+    console.error(`[AppleHealthActions] Error completing the Apple Health import for user ${userId}:`, error);
+    return { success: false, error: `Failed to complete the import: ${String(error.message || 'Unknown error')}` };
+  }
+}
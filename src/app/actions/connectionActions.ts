@@ -0,0 +1,219 @@
+'use server';
+
+import { adminDb, getFirebaseUserFromCookie } from '@/lib/firebase/serverApp';
+import admin from 'firebase-admin';
+import { cookies } from 'next/headers';
+import { getOAuthProvider } from '@/lib/oauth/providers';
+import { disconnectOAuthConnection } from '@/lib/oauth/connections';
+import { deduplicateActivities } from '@/app/actions/activityActions';
+import type { SyncProviderId, SyncRunFirestore, UserProfile } from '@/types';
+
+interface ImportedDataCountsResult {
+  success: boolean;
+  counts?: Record<string, number>; // Keyed by collection name
+  totalCount?: number;
+  error?: string;
+}
+
+interface DisconnectResult {
+  success: boolean;
+  message: string;
+  deletedCount?: number;
+  data?: Partial<UserProfile>;
+  error?: string;
+}
+
+interface RecentSyncRunsResult {
+  success: boolean;
+  runs?: (SyncRunFirestore & { id: string })[];
+  error?: string;
+}
+
+const DEFAULT_SYNC_RUNS_LIMIT = 10;
+
+// Collections holding normalized records from every source, told apart by their `dataSource` field.
+const SHARED_DATA_COLLECTIONS = ['activities', 'activity_streams', 'sleep', 'daily_summaries', 'measurements'];
+
+// Collections holding one provider's raw data.
+const PROVIDER_DATA_COLLECTIONS: Partial<Record<SyncProviderId, string[]>> = {
+  fitbit: ['fitbit_sleep', 'fitbit_activity_summaries', 'fitbit_heart_rate', 'fitbit_heart_rate_intraday'],
+};
+
+// Sync bookkeeping that is useless without the connection, so it is removed even when the data is kept.
+const PROVIDER_STATE_COLLECTIONS: Partial<Record<SyncProviderId, string[]>> = {
+  fitbit: ['fitbit_sync_queue'],
+};
+
+// Sync cursors on the profile. Cleared along with the data, so that reconnecting imports everything again.
+const SYNC_CURSOR_FIELDS: Partial<Record<SyncProviderId, (keyof UserProfile)[]>> = {
+  fitbit: ['fitbitLastSuccessfulSync'],
+  strava: ['stravaLastSyncTimestamp', 'stravaLatestActivityStartTime', 'stravaBackfill'],
+  googlefit: ['googleFitLastSuccessfulSync'],
+};
+
+// Firestore allows at most 500 writes per batch.
+const MAX_BATCH_WRITES = 450;
+
+function getImportedDataQueries(userId: string, providerId: SyncProviderId, dataSource: string): Array<{ collection: string; query: admin.firestore.Query }> {
+  const userRef = adminDb.collection('users').doc(userId);
+  return [
+    ...SHARED_DATA_COLLECTIONS.map(collection => ({
+      collection,
+      query: userRef.collection(collection).where('dataSource', '==', dataSource),
+    })),
+    ...(PROVIDER_DATA_COLLECTIONS[providerId] || []).map(collection => ({
+      collection,
+      query: userRef.collection(collection) as admin.firestore.Query,
+    })),
+  ];
+}
+
+/**
+ * Deletes every document matched by a query, in batches.
+ * @param onDelete (Optional) Called with each document before it is deleted.
+ * @returns The number of deleted documents.
+ */
+async function deleteQueryResults(query: admin.firestore.Query, onDelete?: (docSnap: admin.firestore.QueryDocumentSnapshot) => void): Promise<number> {
+  let deletedCount = 0;
+  while (true) {
+    const snapshot = await query.limit(MAX_BATCH_WRITES).get();
+    if (snapshot.empty) break;
+
+    const batch = adminDb.batch();
+    snapshot.docs.forEach(docSnap => {
+      onDelete?.(docSnap);
+      batch.delete(docSnap.ref);
+    });
+    await batch.commit();
+    deletedCount += snapshot.size;
+  }
+  return deletedCount;
+}
+
+// Server actions can be called by anyone, so the actions below that revoke or delete act on the user
+// of the session cookie rather than on a user ID sent by the client.
+async function getSessionUserId(): Promise<string | null> {
+  const firebaseUser = await getFirebaseUserFromCookie(cookies());
+  return firebaseUser?.uid ?? null;
+}
+
+/**
+ * Counts the records imported from a provider for the signed-in user, e.g. to tell them what
+ * disconnecting with "delete data" would remove.
+ */
+export async function getImportedDataCounts(providerId: string): Promise<ImportedDataCountsResult> {
+  const userId = await getSessionUserId();
+  if (!userId) {
+    return { success: false, error: 'User not authenticated.' };
+  }
+  const provider = getOAuthProvider(providerId);
+  if (!provider) {
+    return { success: false, error: `Unknown provider: ${providerId}` };
+  }
+
+  try {
+    const counts: Record<string, number> = {};
+    let totalCount = 0;
+    for (const { collection, query } of getImportedDataQueries(userId, provider.id, provider.dataSource)) {
+      const countSnapshot = await query.count().get();
+      counts[collection] = countSnapshot.data().count;
+      totalCount += counts[collection];
+    }
+    return { success: true, counts, totalCount };
+  } catch (error: any) {
+    console.error(`[ConnectionActions] Error counting ${provider.name} data for user ${userId}:`, error);
+    return { success: false, error: `Failed to count imported data: ${String(error.message || 'Unknown Firestore error')}` };
+  }
+}
+
+/**
+ * Disconnects a provider for the signed-in user: revokes our access at the provider, deletes the stored
+ * tokens and removes the connection from the profile. With `deleteData`, every record imported from the
+ * provider is deleted as well; otherwise it is kept.
+ */
+export async function disconnectFitnessApp(
+  providerId: string,
+  options: { deleteData: boolean }
+): Promise<DisconnectResult> {
+  const userId = await getSessionUserId();
+  if (!userId) {
+    return { success: false, message: 'User not authenticated.' };
+  }
+  const provider = getOAuthProvider(providerId);
+  if (!provider) {
+    return { success: false, message: `Unknown provider: ${providerId}` };
+  }
+
+  try {
+    const { revoked } = await disconnectOAuthConnection(userId, provider);
+    const userRef = adminDb.collection('users').doc(userId);
+
+    for (const collection of PROVIDER_STATE_COLLECTIONS[provider.id] || []) {
+      await deleteQueryResults(userRef.collection(collection));
+    }
+
+    let deletedCount = 0;
+    if (options.deleteData) {
+      // Canonical activities merged from a deleted activity must be rebuilt from the remaining sources.
+      const mergedActivityDates: string[] = [];
+      for (const { collection, query } of getImportedDataQueries(userId, provider.id, provider.dataSource)) {
+        deletedCount += await deleteQueryResults(query, docSnap => {
+          if (collection === 'activities' && docSnap.get('canonicalActivityId')) {
+            mergedActivityDates.push(docSnap.get('date'));
+          }
+        });
+      }
+
+      if (mergedActivityDates.length > 0) {
+        mergedActivityDates.sort();
+        await deduplicateActivities(userId, { from: mergedActivityDates[0], to: mergedActivityDates[mergedActivityDates.length - 1] });
+      }
+
+      const cursorFields = SYNC_CURSOR_FIELDS[provider.id] || [];
+      if (cursorFields.length > 0) {
+        await userRef.update(Object.fromEntries(cursorFields.map(field => [field, admin.firestore.FieldValue.delete()])));
+      }
+      console.log(`[ConnectionActions] Deleted ${deletedCount} ${provider.name} record(s) for user ${userId}.`);
+    }
+
+    const updatedProfile = (await userRef.get()).data() as UserProfile | undefined;
+
+    let message = `${provider.name} disconnected.`;
+    message += options.deleteData ? ` Deleted ${deletedCount} imported record(s).` : ' Your imported data was kept.';
+    if (!revoked) {
+      message += ` Access could not be revoked automatically; you can remove this app in your ${provider.name} account settings.`;
+    }
+
+    return {
+      success: true,
+      message,
+      deletedCount,
+      data: { connectedFitnessApps: updatedProfile?.connectedFitnessApps || [] },
+    };
+  } catch (error: any) {
+    console.error(`[ConnectionActions] Error disconnecting ${provider.name} for user ${userId}:`, error);
+    return { success: false, message: `Failed to disconnect ${provider.name}.`, error: String(error.message || 'Unknown error') };
+  }
+}
+
+/**
+ * Fetches the signed-in user's most recent sync runs across all providers, newest first.
+ */
+export async function getRecentSyncRuns(limit: number = DEFAULT_SYNC_RUNS_LIMIT): Promise<RecentSyncRunsResult> {
+  const userId = await getSessionUserId();
+  if (!userId) {
+    return { success: false, error: 'User not authenticated.' };
+  }
+
+  try {
+    const snapshot = await adminDb.collection('users').doc(userId).collection('sync_runs')
+      .orderBy('startedAt', 'desc')
+      .limit(limit)
+      .get();
+    const runs = snapshot.docs.map(docSnap => ({ id: docSnap.id, ...(docSnap.data() as SyncRunFirestore) }));
+    return { success: true, runs };
+  } catch (error: any) {
+    console.error(`[ConnectionActions] Error fetching sync runs for user ${userId}:`, error);
+    return { success: false, error: `Failed to fetch sync history: ${String(error.message || 'Unknown Firestore error')}` };
+  }
+}
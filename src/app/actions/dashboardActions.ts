@@ -7,12 +7,15 @@ import type {
   UserProfile, 
   DashboardMetricIdValue, 
   RadarDataPoint,
-  FitbitSleepLogFirestore,
   NormalizedActivityFirestore,
   FitbitActivitySummaryFirestore,
-  FitbitHeartRateFirestore
+  FitbitHeartRateFirestore,
+  DailySummaryFirestore
 } from '@/types';
 import { AVAILABLE_DASHBOARD_METRICS, DashboardMetricId, NormalizedActivityType } from '@/types';
+import { isCanonicalActivity } from '@/lib/activity-dedup';
+import { selectPreferredSleepRecords } from '@/lib/sleep-utils';
+import { getNormalizedSleepForDateRange } from '@/app/actions/sleepActions';
 import { differenceInDays, format, parseISO, startOfDay, endOfDay } from 'date-fns';
 
 interface DateRange {
@@ -20,9 +23,51 @@ interface DateRange {
   to: string;   // YYYY-MM-DD
 }
 
+// Reads source-tagged daily summaries (e.g. from Google Fit) for the date range.
+async function getDailySummaries(userId: string, dateRange: DateRange): Promise<DailySummaryFirestore[]> {
+  const summariesRef = adminDb.collection('users').doc(userId).collection('daily_summaries');
+  const q = summariesRef
+    .where('date', '>=', dateRange.from)
+    .where('date', '<=', dateRange.to);
+
+  const querySnapshot = await q.get();
+  return querySnapshot.docs.map(doc => doc.data() as DailySummaryFirestore);
+}
+
+// Source preference for a day summarized by several apps, best first. Sources not listed rank last.
+const DAILY_SUMMARY_SOURCE_PRIORITY = ['apple_health', 'google-fit'];
+
+function dailySummarySourceRank(dataSource: string): number {
+  const index = DAILY_SUMMARY_SOURCE_PRIORITY.indexOf(dataSource);
+  return index === -1 ? DAILY_SUMMARY_SOURCE_PRIORITY.length : index;
+}
+
+/**
+ * Keeps one summary per day, from the most trusted source, so a day summarized by two apps
+ * is not counted twice. Filter for the metric first, so a day only one source reported still counts.
+ */
+function selectPreferredDailySummaries(summaries: DailySummaryFirestore[]): DailySummaryFirestore[] {
+  const preferredByDate = new Map<string, DailySummaryFirestore>();
+  for (const summary of summaries) {
+    const preferred = preferredByDate.get(summary.date);
+    if (!preferred || dailySummarySourceRank(summary.dataSource) < dailySummarySourceRank(preferred.dataSource)) {
+      preferredByDate.set(summary.date, summary);
+    }
+  }
+  return [...preferredByDate.values()];
+}
+
 async function calculateAvgDailySteps(userId: string, dateRange: DateRange, numberOfDays: number): Promise<number | undefined> {
   if (numberOfDays <= 0) return 0;
   try {
+    // Option 1: Source-tagged daily summaries (e.g. Google Fit), which count every step of the day
+    const dailySummaries = selectPreferredDailySummaries((await getDailySummaries(userId, dateRange)).filter(s => s.steps !== undefined));
+    if (dailySummaries.length > 0) {
+      const totalStepsFromSummaries = dailySummaries.reduce((sum, s) => sum + (s.steps || 0), 0);
+      return totalStepsFromSummaries / dailySummaries.length;
+    }
+
+    // Option 2: Fallback: Add up the steps of walks, runs and hikes
     const activitiesRef = adminDb.collection('users').doc(userId).collection('activities');
     const q = activitiesRef 
       .where('date', '>=', dateRange.from)
@@ -33,6 +78,7 @@ async function calculateAvgDailySteps(userId: string, dateRange: DateRange, numb
     let totalSteps = 0;
     querySnapshot.forEach(doc => {
       const activity = doc.data() as NormalizedActivityFirestore;
+      if (!isCanonicalActivity(activity)) return; // Counted through its canonical record
       totalSteps += activity.steps || 0;
     });
     return totalSteps / numberOfDays;
@@ -45,23 +91,17 @@ async function calculateAvgDailySteps(userId: string, dateRange: DateRange, numb
 async function calculateAvgSleepDuration(userId: string, dateRange: DateRange, numberOfDays: number): Promise<number | undefined> {
   if (numberOfDays <= 0) return 0;
   try {
-    const sleepLogsRef = adminDb.collection('users').doc(userId).collection('fitbit_sleep');
-    const q = sleepLogsRef
-      .where('dateOfSleep', '>=', dateRange.from)
-      .where('dateOfSleep', '<=', dateRange.to);
-      // .where('isMainSleep', '==', true) // Consider only main sleep if available and desired
-    
-    const querySnapshot = await q.get();
+    const sleepResult = await getNormalizedSleepForDateRange(userId, dateRange);
+    if (!sleepResult.success) throw new Error(sleepResult.error);
+
+    // A night recorded by several apps counts once, from the most trusted source.
+    const sleepRecords = selectPreferredSleepRecords(sleepResult.data || []);
     let totalSleepMinutes = 0;
-    let sleepLogCount = 0;
-    querySnapshot.forEach(doc => {
-      const sleepLog = doc.data() as FitbitSleepLogFirestore;
-      // Fitbit duration is in ms, convert to minutes
-      totalSleepMinutes += (sleepLog.duration || 0) / (1000 * 60); 
-      sleepLogCount++;
+    sleepRecords.forEach(sleep => {
+      totalSleepMinutes += (sleep.durationSec || 0) / 60;
     });
-    if (sleepLogCount === 0) return 0; // Or undefined if you prefer to distinguish no data from zero
-    return (totalSleepMinutes / sleepLogCount) / 60; // Average duration in hours
+    if (sleepRecords.length === 0) return 0; // Or undefined if you prefer to distinguish no data from zero
+    return (totalSleepMinutes / sleepRecords.length) / 60; // Average duration in hours
   } catch (error) {
     console.error(`[DashboardActions] Error calculating avg sleep duration for user ${userId}:`, error);
     return undefined;
@@ -89,7 +129,14 @@ async function calculateAvgActiveMinutes(userId: string, dateRange: DateRange, n
       return totalActiveMinutesFromSummaries / summaryDaysCount;
     }
 
-    // Option 2: Fallback or primary: Calculate from normalized activities
+    // Option 2: Source-tagged daily summaries (e.g. Google Fit) when there is no Fitbit data
+    const dailySummaries = selectPreferredDailySummaries((await getDailySummaries(userId, dateRange)).filter(s => s.activeMinutes !== undefined));
+    if (dailySummaries.length > 0) {
+      const totalActiveMinutes = dailySummaries.reduce((sum, s) => sum + (s.activeMinutes || 0), 0);
+      return totalActiveMinutes / dailySummaries.length;
+    }
+
+    // Option 3: Fallback: Calculate from normalized activities
     const activitiesRef = adminDb.collection('users').doc(userId).collection('activities');
     const qActivities = activitiesRef 
       .where('date', '>=', dateRange.from)
@@ -99,6 +146,7 @@ async function calculateAvgActiveMinutes(userId: string, dateRange: DateRange, n
     let totalMovingDurationSec = 0;
     activitySnapshot.forEach(doc => {
       const activity = doc.data() as NormalizedActivityFirestore;
+      if (!isCanonicalActivity(activity)) return; // Counted through its canonical record
       totalMovingDurationSec += activity.durationMovingSec || 0;
     });
     return (totalMovingDurationSec / numberOfDays) / 60; // Avg daily active minutes
@@ -127,8 +175,15 @@ async function calculateAvgRestingHeartRate(userId: string, dateRange: DateRange
         daysWithData++;
       }
     });
-    if (daysWithData === 0) return undefined; // No data or no RHR in data
-    return totalRestingHeartRate / daysWithData;
+    if (daysWithData > 0) {
+      return totalRestingHeartRate / daysWithData;
+    }
+
+    // Fallback: source-tagged daily summaries (e.g. Google Fit) when there is no Fitbit data
+    const dailySummaries = selectPreferredDailySummaries((await getDailySummaries(userId, dateRange)).filter(s => s.restingHeartRate !== undefined));
+    if (dailySummaries.length === 0) return undefined; // No data or no RHR in data
+    const totalFromSummaries = dailySummaries.reduce((sum, s) => sum + (s.restingHeartRate || 0), 0);
+    return totalFromSummaries / dailySummaries.length;
   } catch (error) {
     console.error(`[DashboardActions] Error calculating avg resting heart rate for user ${userId}:`, error);
     return undefined;
@@ -156,6 +211,7 @@ async function calculateAvgWorkoutDuration(userId: string, dateRange: DateRange,
         let workoutCount = 0;
         querySnapshot.forEach(doc => {
             const activity = doc.data() as NormalizedActivityFirestore;
+            if (!isCanonicalActivity(activity)) return; // Counted through its canonical record
             totalWorkoutDurationSec += activity.durationMovingSec || 0;
             workoutCount++;
         });
@@ -183,7 +239,8 @@ async function calculateTotalWorkouts(userId: string, dateRange: DateRange, numb
             .where('type', 'in', workoutTypes);
 
         const querySnapshot = await q.get();
-        return querySnapshot.size; // Total number of workout sessions
+        // Total number of workout sessions, counting each set of cross-source duplicates once
+        return querySnapshot.docs.filter(doc => isCanonicalActivity(doc.data() as NormalizedActivityFirestore)).length;
     } catch (error) {
         console.error(`[DashboardActions] Error calculating total workouts for user ${userId}:`, error);
         return undefined;
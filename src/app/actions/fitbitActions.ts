@@ -2,16 +2,64 @@
 'use server';
 
 import { adminDb } from '@/lib/firebase/serverApp';
+import admin from 'firebase-admin';
+import { deduplicateActivities } from '@/app/actions/activityActions';
 import { getValidFitbitAccessToken } from '@/lib/fitbit-auth-utils';
-import { getSleepLogs, type FitbitSleepLog } from '@/lib/services/fitbitService';
-import type { UserProfile, FitbitSleepLogFirestore } from '@/types';
+import {
+  getSleepLogs,
+  getLoggedActivitiesForDate,
+  getDailyActivitySummary,
+  getHeartRateTimeSeries,
+  getWeightLogs,
+  createFitbitSubscription,
+  FITBIT_ACTIVITY_LIST_LIMIT,
+  type FitbitSleepLog,
+  type FitbitSleepLevelData,
+  type FitbitWeightLog,
+  type FitbitActivityLog,
+  type FitbitDailyActivityResponse,
+  type FitbitHeartRateActivitiesResponse,
+} from '@/lib/services/fitbitService';
+import {
+  NormalizedActivityType,
+  type UserProfile,
+  type FitbitSleepLogFirestore,
+  type NormalizedSleepFirestore,
+  type NormalizedSleepSegment,
+  type NormalizedSleepStage,
+  type NormalizedActivityFirestore,
+  type FitbitActivitySummaryFirestore,
+  type FitbitHeartRateFirestore,
+  type FitbitHeartRateIntradayChunkFirestore,
+  type BodyMeasurementFirestore,
+  type FitbitCollectionType,
+  type FitbitSyncQueueItemFirestore,
+} from '@/types';
+import { DEFAULT_TIME_ZONE, getZonedDateTimeMillis, isValidTimeZone } from '@/lib/timezone-utils';
+import { summarizeSleepStages } from '@/lib/sleep-utils';
+import { createRateLimitedSyncResult, isApiQuotaExceededError } from '@/lib/api-quota';
+import { downsampleMinMaxMean } from '@/lib/downsampling';
+import { tombstoneActivitiesMissingAtSource } from '@/lib/activity-reconciliation';
+import {
+  INTRADAY_CHUNK_SECONDS,
+  INTRADAY_CHUNKS_PER_DAY,
+  decodeIntradayChunk,
+  encodeIntradayChunks,
+  getIntradayChunkId,
+  parseTimeOfDay,
+  type IntradayHeartRateSample,
+} from '@/lib/heart-rate-intraday';
 import { format, subDays, parseISO } from 'date-fns';
 
+// Firestore allows at most 500 writes per batch.
+const MAX_BATCH_WRITES = 450;
+
 interface SyncResult {
   success: boolean;
   message: string;
   syncedCount?: number;
   error?: string;
+  resumeCursor?: string; // Set when the provider's rate limit stopped the sync early; where to resume from
 }
 
 /**
@@ -25,8 +73,60 @@ function normalizeFitbitSleepLog(log: FitbitSleepLog, userId: string): FitbitSle
   };
 }
 
+// Fitbit reports sleep stages ('stages' logs) or sleep/awake/restless levels ('classic' logs).
+const FITBIT_SLEEP_LEVEL_MAP: Record<FitbitSleepLevelData['level'], NormalizedSleepStage> = {
+  deep: 'deep',
+  light: 'light',
+  rem: 'rem',
+  wake: 'awake',
+  awake: 'awake',
+  restless: 'awake',
+  asleep: 'asleep',
+};
+
 /**
- * Fetches sleep logs from Fitbit for a given date range and stores them in Firestore.
+ * Converts a Fitbit sleep log into the source-agnostic sleep format.
+ * Fitbit times are local without an offset, so the user's time zone is needed for the UTC timestamps.
+ */
+function normalizeFitbitSleepLogToSleep(log: FitbitSleepLog, userId: string, timeZone: string): NormalizedSleepFirestore {
+  const stageSegments: NormalizedSleepSegment[] = (log.levels?.data || []).map(level => ({
+    stage: FITBIT_SLEEP_LEVEL_MAP[level.level] || 'asleep',
+    startTimeUtc: new Date(getZonedDateTimeMillis(level.dateTime, timeZone)).toISOString(),
+    durationSec: level.seconds,
+  }));
+
+  const sleep: NormalizedSleepFirestore = {
+    id: `fitbit-${log.logId}`,
+    userId: userId,
+    originalId: String(log.logId),
+    dataSource: 'fitbit',
+    dateOfSleep: log.dateOfSleep,
+    startTimeUtc: new Date(getZonedDateTimeMillis(log.startTime, timeZone)).toISOString(),
+    endTimeUtc: new Date(getZonedDateTimeMillis(log.endTime, timeZone)).toISOString(),
+    timezone: timeZone,
+    durationSec: Math.round(log.duration / 1000),
+    minutesAsleep: log.minutesAsleep,
+    minutesAwake: log.minutesAwake,
+    minutesToFallAsleep: log.minutesToFallAsleep,
+    efficiencyPercent: log.efficiency,
+    isMainSleep: log.isMainSleep,
+    stageMinutes: stageSegments.length > 0 ? summarizeSleepStages(stageSegments) : undefined,
+    stageSegments: stageSegments.length > 0 ? stageSegments : undefined,
+    lastFetched: new Date().toISOString(),
+  };
+  return Object.fromEntries(
+    Object.entries(sleep).filter(([, value]) => value !== undefined)
+  ) as NormalizedSleepFirestore;
+}
+
+async function getUserTimeZone(userId: string): Promise<string> {
+  const userProfile = (await adminDb.collection('users').doc(userId).get()).data() as UserProfile | undefined;
+  return isValidTimeZone(userProfile?.timezone) ? userProfile.timezone : DEFAULT_TIME_ZONE;
+}
+
+/**
+ * Fetches sleep logs from Fitbit for a given date range and stores them in Firestore,
+ * both as raw Fitbit logs and in the normalized sleep collection.
  */
 export async function syncFitbitSleepData(userId: string, startDate: string, endDate: string): Promise<SyncResult> {
   if (!userId) {
@@ -45,6 +145,7 @@ export async function syncFitbitSleepData(userId: string, startDate: string, end
     const end = parseISO(endDate);
     let current = start;
     let allSleepLogs: FitbitSleepLog[] = [];
+    let resumeCursor: string | undefined;
 
     // Fetch data for each day in the range
     while (current <= end) {
@@ -55,25 +156,40 @@ export async function syncFitbitSleepData(userId: string, startDate: string, end
           allSleepLogs.push(...dailyLogs.sleep);
         }
       } catch (error: any) {
-        // If a single day fails (e.g., rate limit), log it but try to continue
+        if (isApiQuotaExceededError(error)) {
+          // Out of requests for now: store what we have and resume from this day next time.
+          resumeCursor = dateString;
+          break;
+        }
+        // If a single day fails, log it but try to continue
         console.error(`[FitbitActions] Failed to fetch sleep data for ${dateString}:`, error.message);
       }
       current = subDays(current, -1); // Move to the next day
     }
 
     if (allSleepLogs.length === 0) {
+      if (resumeCursor) {
+        return createRateLimitedSyncResult('fitbit', '0 sleep log(s)', 0, resumeCursor);
+      }
       return { success: true, message: 'No new sleep logs found in the selected date range.', syncedCount: 0 };
     }
 
+    const timeZone = await getUserTimeZone(userId);
+
     // Use a batch write to save all logs to Firestore atomically
     const batch = adminDb.batch();
     const sleepCollectionRef = adminDb.collection('users').doc(userId).collection('fitbit_sleep');
+    const normalizedSleepCollectionRef = adminDb.collection('users').doc(userId).collection('sleep');
 
     allSleepLogs.forEach(log => {
       const normalizedLog = normalizeFitbitSleepLog(log, userId);
       // Use a composite key of date and logId to ensure uniqueness
       const docRef = sleepCollectionRef.doc(`${normalizedLog.dateOfSleep}_${normalizedLog.logId}`);
       batch.set(docRef, normalizedLog, { merge: true });
+
+      const sleep = normalizeFitbitSleepLogToSleep(log, userId, timeZone);
+      // Plain set, so stages from an earlier version of the log do not linger.
+      batch.set(normalizedSleepCollectionRef.doc(sleep.id), sleep);
     });
 
     await batch.commit();
@@ -82,6 +198,10 @@ export async function syncFitbitSleepData(userId: string, startDate: string, end
     const userProfileRef = adminDb.collection('users').doc(userId);
     await userProfileRef.set({ fitbitLastSuccessfulSync: new Date().toISOString() }, { merge: true });
 
+    if (resumeCursor) {
+      return createRateLimitedSyncResult('fitbit', `${allSleepLogs.length} sleep log(s)`, allSleepLogs.length, resumeCursor);
+    }
+
     const message = `Successfully synced ${allSleepLogs.length} sleep log(s).`;
     console.log(`[FitbitActions] ${message}`);
     return { success: true, message, syncedCount: allSleepLogs.length };
@@ -92,6 +212,566 @@ export async function syncFitbitSleepData(userId: string, startDate: string, end
   }
 }
 
+// Fitbit activity type IDs for the most common logged activities.
+const FITBIT_ACTIVITY_TYPE_MAP: Record<number, NormalizedActivityType> = {
+  90013: NormalizedActivityType.Walking,  // Walk
+  90009: NormalizedActivityType.Running,  // Run
+  90012: NormalizedActivityType.Hiking,   // Hike
+  90024: NormalizedActivityType.Swimming, // Swim
+  90022: NormalizedActivityType.Swimming, // Swim (pool)
+  35001: NormalizedActivityType.Swimming, // Swim (open water)
+  90001: NormalizedActivityType.Cycling,  // Bike
+  1071: NormalizedActivityType.Cycling,   // Outdoor Bike
+  3000: NormalizedActivityType.Workout,   // Workout
+  2131: NormalizedActivityType.Workout,   // Weights
+  52001: NormalizedActivityType.Workout,  // Yoga
+  90017: NormalizedActivityType.Workout,  // Elliptical
+};
+
+// Meters per unit for the distance units Fitbit reports in activity logs.
+const FITBIT_DISTANCE_UNIT_TO_METERS: Record<string, number> = {
+  kilometer: 1000,
+  mile: 1609.344,
+  meter: 1,
+  yard: 0.9144,
+};
+
+/**
+ * Maps a Fitbit activity log to our NormalizedActivityType, using the activity type ID
+ * first and falling back to the activity name for types not in the map.
+ */
+function mapFitbitActivityType(log: FitbitActivityLog): NormalizedActivityType {
+  const mapped = FITBIT_ACTIVITY_TYPE_MAP[log.activityId] ?? FITBIT_ACTIVITY_TYPE_MAP[log.activityTypeId];
+  if (mapped) return mapped;
+
+  const name = (log.activityName || log.name || '').toLowerCase();
+  if (name.includes('walk')) return NormalizedActivityType.Walking;
+  if (name.includes('run') || name.includes('treadmill')) return NormalizedActivityType.Running;
+  if (name.includes('hike')) return NormalizedActivityType.Hiking;
+  if (name.includes('swim')) return NormalizedActivityType.Swimming;
+  if (name.includes('bike') || name.includes('cycl') || name.includes('spinning')) return NormalizedActivityType.Cycling;
+  if (['workout', 'weight', 'yoga', 'elliptical', 'aerobic', 'interval', 'hiit'].some(k => name.includes(k))) {
+    return NormalizedActivityType.Workout;
+  }
+  return NormalizedActivityType.Other;
+}
+
+/**
+ * Converts a Fitbit distance to meters. Requests are sent without an Accept-Language header,
+ * so Fitbit answers in metric (kilometers) unless the log names another unit.
+ */
+function fitbitDistanceToMeters(distance: number | undefined, distanceUnit: string | undefined): number | undefined {
+  if (distance === undefined || distance === null) return undefined;
+  const metersPerUnit = FITBIT_DISTANCE_UNIT_TO_METERS[(distanceUnit || 'kilometer').toLowerCase()] ?? 1000;
+  return distance * metersPerUnit;
+}
+
+/**
+ * Normalizes a Fitbit activity log into our standard activity Firestore format.
+ */
+function normalizeFitbitActivityLog(log: FitbitActivityLog, userId: string, timeZone: string): NormalizedActivityFirestore {
+  // The activity list returns an ISO timestamp with the user's UTC offset (e.g. 2025-06-29T07:15:00.000-07:00);
+  // daily summaries only return a local HH:MM, which is in the user's time zone.
+  const hasOffset = log.startTime.includes('T');
+  const startTimeLocal = hasOffset ? log.startTime.slice(0, 19) : `${log.startDate}T${log.startTime}:00`;
+  const start = hasOffset ? parseISO(log.startTime) : new Date(getZonedDateTimeMillis(startTimeLocal, timeZone));
+
+  const activity: NormalizedActivityFirestore = {
+    id: `fitbit-${log.logId}`,
+    userId: userId,
+    originalId: String(log.logId),
+    dataSource: 'fitbit',
+    type: mapFitbitActivityType(log),
+    name: log.activityName || log.name,
+    startTimeUtc: start.toISOString(),
+    startTimeLocal,
+    durationMovingSec: Math.round((log.activeDuration ?? log.duration) / 1000),
+    durationElapsedSec: Math.round(log.duration / 1000),
+    distanceMeters: fitbitDistanceToMeters(log.distance, log.distanceUnit),
+    calories: log.calories,
+    steps: log.steps,
+    averageHeartRateBpm: log.averageHeartRate,
+    date: startTimeLocal.slice(0, 10),
+    lastFetched: new Date().toISOString(),
+  };
+
+  // Firestore rejects undefined field values, so drop any metric the log did not report.
+  return Object.fromEntries(
+    Object.entries(activity).filter(([, value]) => value !== undefined)
+  ) as NormalizedActivityFirestore;
+}
+
+/**
+ * Fetches logged activities (walks, runs, swims, workouts) from Fitbit for a date range
+ * and stores them as normalized activities. Stored Fitbit activities of days Fitbit returned in
+ * full that are no longer listed were deleted on Fitbit, and are tombstoned.
+ */
+export async function syncFitbitActivities(userId: string, startDate: string, endDate: string): Promise<SyncResult> {
+  if (!userId) {
+    return { success: false, message: 'User not authenticated.' };
+  }
+
+  console.log(`[FitbitActions] Starting activity sync for user ${userId} from ${startDate} to ${endDate}`);
+
+  const accessToken = await getValidFitbitAccessToken(userId);
+  if (!accessToken) {
+    return { success: false, message: 'Could not retrieve a valid Fitbit access token. Please reconnect.' };
+  }
+
+  try {
+    const start = parseISO(startDate);
+    const end = parseISO(endDate);
+    let current = start;
+    // Keyed by logId, since an activity near midnight can be returned for two adjacent days.
+    const activityLogs = new Map<number, FitbitActivityLog>();
+    // Days whose activity list was fetched in full; only these are reconciled.
+    const completeDates = new Set<string>();
+    const listingStartedAt = new Date().toISOString();
+    let resumeCursor: string | undefined;
+
+    while (current <= end) {
+      const dateString = format(current, 'yyyy-MM-dd');
+      try {
+        const dailyLogs = await getLoggedActivitiesForDate(accessToken, dateString);
+        dailyLogs.forEach(log => activityLogs.set(log.logId, log));
+        if (dailyLogs.length < FITBIT_ACTIVITY_LIST_LIMIT) completeDates.add(dateString);
+      } catch (error: any) {
+        if (isApiQuotaExceededError(error)) {
+          resumeCursor = dateString;
+          break;
+        }
+        // If a single day fails, log it but try to continue
+        console.error(`[FitbitActions] Failed to fetch activities for ${dateString}:`, error.message);
+      }
+      current = subDays(current, -1); // Move to the next day
+    }
+
+    const activitiesCollectionRef = adminDb.collection('users').doc(userId).collection('activities');
+    const activityIds = new Set<string>();
+    if (activityLogs.size > 0) {
+      const timeZone = await getUserTimeZone(userId);
+      const batch = adminDb.batch();
+      activityLogs.forEach(log => {
+        const normalizedActivity = normalizeFitbitActivityLog(log, userId, timeZone);
+        activityIds.add(normalizedActivity.id);
+        const docRef = activitiesCollectionRef.doc(normalizedActivity.id);
+        // Fitbit returned the activity, so it is no longer tombstoned if a reconciliation had missed it.
+        batch.set(docRef, { ...normalizedActivity, tombstonedAt: admin.firestore.FieldValue.delete() }, { merge: true });
+      });
+      await batch.commit();
+    }
+
+    const removedCount = await tombstoneActivitiesMissingAtSource(userId, 'fitbit', {
+      dateRange: { from: startDate, to: endDate },
+      covers: activity => completeDates.has(activity.date),
+      activityIds,
+      startedAt: listingStartedAt,
+    });
+    const removedMessage = removedCount > 0 ? ` Removed ${removedCount} activity/activities deleted on Fitbit.` : '';
+
+    if (activityLogs.size === 0) {
+      if (resumeCursor) {
+        return createRateLimitedSyncResult('fitbit', '0 activities', 0, resumeCursor);
+      }
+      return { success: true, message: `No new activities found on Fitbit in the selected date range.${removedMessage}`, syncedCount: 0 };
+    }
+
+    // Merge any workouts that other connected apps also recorded.
+    await deduplicateActivities(userId, { from: startDate, to: endDate });
+
+    const userProfileRef = adminDb.collection('users').doc(userId);
+    await userProfileRef.set({ fitbitLastSuccessfulSync: new Date().toISOString() }, { merge: true });
+
+    if (resumeCursor) {
+      return createRateLimitedSyncResult('fitbit', `${activityLogs.size} activity/activities`, activityLogs.size, resumeCursor);
+    }
+
+    const message = `Successfully synced ${activityLogs.size} activity/activities from Fitbit.${removedMessage}`;
+    console.log(`[FitbitActions] ${message}`);
+    return { success: true, message, syncedCount: activityLogs.size };
+
+  } catch (error: any) {
+    console.error(`[FitbitActions] An error occurred during the Fitbit activity sync process for user ${userId}:`, error);
+    return { success: false, message: 'An unexpected error occurred during sync.', error: error.message };
+  }
+}
+
+/**
+ * Normalizes a Fitbit daily activity summary. Active minutes follow Fitbit's own definition:
+ * fairly active plus very active minutes (lightly active minutes are not counted).
+ */
+function normalizeFitbitActivitySummary(date: string, response: FitbitDailyActivityResponse): FitbitActivitySummaryFirestore {
+  const summary = response.summary;
+  const totalDistance = summary.distances?.find(d => d.activity === 'total')?.distance ?? summary.distance;
+  const activitySummary: FitbitActivitySummaryFirestore = {
+    date,
+    steps: summary.steps,
+    distance: totalDistance,
+    caloriesOut: summary.caloriesOut,
+    activeMinutes: (summary.fairlyActiveMinutes || 0) + (summary.veryActiveMinutes || 0),
+    lastFetched: new Date().toISOString(),
+    dataSource: 'fitbit',
+  };
+  return Object.fromEntries(
+    Object.entries(activitySummary).filter(([, value]) => value !== undefined)
+  ) as FitbitActivitySummaryFirestore;
+}
+
+/**
+ * Normalizes a Fitbit heart rate response into a per-day resting heart rate and zone record.
+ * Returns null if Fitbit has no heart rate data for the day (e.g. the tracker was not worn).
+ */
+function normalizeFitbitHeartRate(
+  date: string,
+  response: FitbitHeartRateActivitiesResponse,
+  intradaySampleCount: number
+): FitbitHeartRateFirestore | null {
+  const day = response['activities-heart']?.find(entry => entry.dateTime === date) ?? response['activities-heart']?.[0];
+  if (!day) return null;
+
+  const heartRate: FitbitHeartRateFirestore = {
+    date,
+    restingHeartRate: day.value.restingHeartRate,
+    heartRateZones: day.value.heartRateZones,
+    intradaySampleCount: intradaySampleCount > 0 ? intradaySampleCount : undefined,
+    lastFetched: new Date().toISOString(),
+    dataSource: 'fitbit',
+  };
+  return Object.fromEntries(
+    Object.entries(heartRate).filter(([, value]) => value !== undefined)
+  ) as FitbitHeartRateFirestore;
+}
+
+/**
+ * Extracts the intraday samples of a Fitbit heart rate response and packs them into chunk documents.
+ * Intraday data is only returned for apps with intraday access (personal apps always have it).
+ */
+function normalizeFitbitIntradayHeartRate(date: string, response: FitbitHeartRateActivitiesResponse): FitbitHeartRateIntradayChunkFirestore[] {
+  const series = response['activities-heart-intraday'];
+  if (!series?.dataset?.length) return [];
+
+  const samples: IntradayHeartRateSample[] = [];
+  for (const point of series.dataset) {
+    const secondOfDay = parseTimeOfDay(point.time);
+    if (secondOfDay !== null && Number.isFinite(point.value)) {
+      samples.push({ secondOfDay, bpm: point.value });
+    }
+  }
+  return encodeIntradayChunks(date, samples, { datasetInterval: series.datasetInterval, datasetType: series.datasetType });
+}
+
+/**
+ * Fetches the daily activity summary and heart rate from Fitbit for each day in a range and stores them
+ * in the fitbit_activity_summaries and fitbit_heart_rate collections, keyed by date. The intraday heart
+ * rate series is stored in fitbit_heart_rate_intraday, in chunks per day.
+ */
+export async function syncFitbitDailySummaries(userId: string, startDate: string, endDate: string): Promise<SyncResult> {
+  if (!userId) {
+    return { success: false, message: 'User not authenticated.' };
+  }
+
+  console.log(`[FitbitActions] Starting daily summary sync for user ${userId} from ${startDate} to ${endDate}`);
+
+  const accessToken = await getValidFitbitAccessToken(userId);
+  if (!accessToken) {
+    return { success: false, message: 'Could not retrieve a valid Fitbit access token. Please reconnect.' };
+  }
+
+  try {
+    const start = parseISO(startDate);
+    const end = parseISO(endDate);
+    let current = start;
+    const activitySummaries: FitbitActivitySummaryFirestore[] = [];
+    const heartRateDays: FitbitHeartRateFirestore[] = [];
+    const intradayChunksByDate = new Map<string, FitbitHeartRateIntradayChunkFirestore[]>();
+    let resumeCursor: string | undefined;
+
+    while (current <= end) {
+      const dateString = format(current, 'yyyy-MM-dd');
+      try {
+        const activityResponse = await getDailyActivitySummary(accessToken, dateString);
+        if (activityResponse.summary) {
+          activitySummaries.push(normalizeFitbitActivitySummary(dateString, activityResponse));
+        }
+      } catch (error: any) {
+        if (isApiQuotaExceededError(error)) {
+          resumeCursor = dateString;
+          break;
+        }
+        // If a single day fails, log it but try to continue
+        console.error(`[FitbitActions] Failed to fetch activity summary for ${dateString}:`, error.message);
+      }
+      try {
+        // The 1-minute series is detailed enough for day charts and keeps each chunk to 360 samples.
+        const heartRateResponse = await getHeartRateTimeSeries(accessToken, dateString, '1min');
+        const intradayChunks = normalizeFitbitIntradayHeartRate(dateString, heartRateResponse);
+        const intradaySampleCount = intradayChunks.reduce((sum, chunk) => sum + chunk.sampleCount, 0);
+        const heartRate = normalizeFitbitHeartRate(dateString, heartRateResponse, intradaySampleCount);
+        if (heartRate) {
+          heartRateDays.push(heartRate);
+          intradayChunksByDate.set(dateString, intradayChunks);
+        }
+      } catch (error: any) {
+        if (isApiQuotaExceededError(error)) {
+          // The day's activity summary is stored; fetching it again on resume is harmless.
+          resumeCursor = dateString;
+          break;
+        }
+        console.error(`[FitbitActions] Failed to fetch heart rate for ${dateString}:`, error.message);
+      }
+      current = subDays(current, -1); // Move to the next day
+    }
+
+    const syncedCount = activitySummaries.length + heartRateDays.length;
+    if (syncedCount === 0) {
+      if (resumeCursor) {
+        return createRateLimitedSyncResult('fitbit', '0 daily summaries', 0, resumeCursor);
+      }
+      return { success: true, message: 'No daily activity or heart rate data found on Fitbit in the selected date range.', syncedCount: 0 };
+    }
+
+    const userDocRef = adminDb.collection('users').doc(userId);
+    const writes: Array<(batch: admin.firestore.WriteBatch) => void> = [];
+    // Document IDs are the dates, which the dashboard queries by.
+    activitySummaries.forEach(summary => {
+      writes.push(batch => batch.set(userDocRef.collection('fitbit_activity_summaries').doc(summary.date), summary, { merge: true }));
+    });
+    heartRateDays.forEach(heartRate => {
+      writes.push(batch => batch.set(userDocRef.collection('fitbit_heart_rate').doc(heartRate.date), heartRate, { merge: true }));
+    });
+    // Every chunk of a fetched day is rewritten, so chunks left over from an earlier fetch cannot linger.
+    intradayChunksByDate.forEach((chunks, date) => {
+      for (let chunkIndex = 0; chunkIndex < INTRADAY_CHUNKS_PER_DAY; chunkIndex++) {
+        const chunkRef = userDocRef.collection('fitbit_heart_rate_intraday').doc(getIntradayChunkId(date, chunkIndex));
+        const chunk = chunks.find(c => c.chunkIndex === chunkIndex);
+        writes.push(batch => (chunk ? batch.set(chunkRef, chunk) : batch.delete(chunkRef)));
+      }
+    });
+
+    for (let i = 0; i < writes.length; i += MAX_BATCH_WRITES) {
+      const batch = adminDb.batch();
+      writes.slice(i, i + MAX_BATCH_WRITES).forEach(write => write(batch));
+      await batch.commit();
+    }
+
+    await userDocRef.set({ fitbitLastSuccessfulSync: new Date().toISOString() }, { merge: true });
+
+    const syncedSummary = `${activitySummaries.length} daily activity summary/summaries and ${heartRateDays.length} day(s) of heart rate data`;
+    if (resumeCursor) {
+      return createRateLimitedSyncResult('fitbit', syncedSummary, syncedCount, resumeCursor);
+    }
+
+    const message = `Successfully synced ${syncedSummary} from Fitbit.`;
+    console.log(`[FitbitActions] ${message}`);
+    return { success: true, message, syncedCount };
+
+  } catch (error: any) {
+    console.error(`[FitbitActions] An error occurred during the Fitbit daily summary sync process for user ${userId}:`, error);
+    return { success: false, message: 'An unexpected error occurred during sync.', error: error.message };
+  }
+}
+
+/**
+ * Normalizes a Fitbit weight log into our body measurement Firestore format.
+ * Fitbit reports a local date and time only, so the user's time zone is needed for the UTC timestamp.
+ */
+function normalizeFitbitWeightLog(log: FitbitWeightLog, userId: string, timeZone: string): BodyMeasurementFirestore {
+  const measuredAt = getZonedDateTimeMillis(`${log.date}T${log.time}`, timeZone);
+  const measurement: BodyMeasurementFirestore = {
+    id: `fitbit-${log.logId}`,
+    userId: userId,
+    originalId: String(log.logId),
+    dataSource: 'fitbit',
+    measuredAtUtc: new Date(measuredAt).toISOString(),
+    date: log.date,
+    weightKg: log.weight,
+    fatRatioPercent: log.fat,
+    lastFetched: new Date().toISOString(),
+  };
+  return Object.fromEntries(
+    Object.entries(measurement).filter(([, value]) => value !== undefined)
+  ) as BodyMeasurementFirestore;
+}
+
+/**
+ * Fetches weight and body fat logs from Fitbit for a date range and stores them in the measurements collection.
+ */
+export async function syncFitbitBodyMeasurements(userId: string, startDate: string, endDate: string): Promise<SyncResult> {
+  if (!userId) {
+    return { success: false, message: 'User not authenticated.' };
+  }
+
+  console.log(`[FitbitActions] Starting body measurement sync for user ${userId} from ${startDate} to ${endDate}`);
+
+  const accessToken = await getValidFitbitAccessToken(userId);
+  if (!accessToken) {
+    return { success: false, message: 'Could not retrieve a valid Fitbit access token. Please reconnect.' };
+  }
+
+  try {
+    const timeZone = await getUserTimeZone(userId);
+
+    const start = parseISO(startDate);
+    const end = parseISO(endDate);
+    let current = start;
+    const weightLogs: FitbitWeightLog[] = [];
+    let resumeCursor: string | undefined;
+
+    while (current <= end) {
+      const dateString = format(current, 'yyyy-MM-dd');
+      try {
+        const dailyLogs = await getWeightLogs(accessToken, dateString);
+        weightLogs.push(...(dailyLogs.weight || []));
+      } catch (error: any) {
+        if (isApiQuotaExceededError(error)) {
+          resumeCursor = dateString;
+          break;
+        }
+        // If a single day fails, log it but try to continue
+        console.error(`[FitbitActions] Failed to fetch weight logs for ${dateString}:`, error.message);
+      }
+      current = subDays(current, -1); // Move to the next day
+    }
+
+    if (weightLogs.length === 0) {
+      if (resumeCursor) {
+        return createRateLimitedSyncResult('fitbit', '0 body measurements', 0, resumeCursor);
+      }
+      return { success: true, message: 'No new body measurements found on Fitbit in the selected date range.', syncedCount: 0 };
+    }
+
+    const batch = adminDb.batch();
+    const measurementsCollectionRef = adminDb.collection('users').doc(userId).collection('measurements');
+    weightLogs.forEach(log => {
+      const measurement = normalizeFitbitWeightLog(log, userId, timeZone);
+      batch.set(measurementsCollectionRef.doc(measurement.id), measurement, { merge: true });
+    });
+
+    await batch.commit();
+
+    if (resumeCursor) {
+      return createRateLimitedSyncResult('fitbit', `${weightLogs.length} body measurement(s)`, weightLogs.length, resumeCursor);
+    }
+
+    const message = `Successfully synced ${weightLogs.length} body measurement(s) from Fitbit.`;
+    console.log(`[FitbitActions] ${message}`);
+    return { success: true, message, syncedCount: weightLogs.length };
+
+  } catch (error: any) {
+    console.error(`[FitbitActions] An error occurred during the Fitbit body measurement sync process for user ${userId}:`, error);
+    return { success: false, message: 'An unexpected error occurred during sync.', error: error.message };
+  }
+}
+
+const FITBIT_SUBSCRIPTION_COLLECTIONS: FitbitCollectionType[] = ['activities', 'sleep', 'body'];
+
+/**
+ * Registers Subscriptions API notifications for the user's activities, sleep and body collections.
+ * Subscription IDs are derived from our user ID, so registering again after a reconnect is harmless.
+ */
+export async function registerFitbitSubscriptions(userId: string): Promise<SyncResult> {
+  if (!userId) {
+    return { success: false, message: 'User not authenticated.' };
+  }
+
+  const accessToken = await getValidFitbitAccessToken(userId);
+  if (!accessToken) {
+    return { success: false, message: 'Could not retrieve a valid Fitbit access token. Please reconnect.' };
+  }
+
+  let registeredCount = 0;
+  const errors: string[] = [];
+  for (const collectionType of FITBIT_SUBSCRIPTION_COLLECTIONS) {
+    try {
+      await createFitbitSubscription(accessToken, collectionType, `${userId}-${collectionType}`);
+      registeredCount++;
+    } catch (error: any) {
+      if (error.status === 409) {
+        // Already subscribed.
+        registeredCount++;
+      } else {
+        console.error(`[FitbitActions] Failed to register ${collectionType} subscription for user ${userId}:`, error.message);
+        errors.push(`${collectionType}: ${error.message}`);
+      }
+    }
+  }
+
+  if (errors.length > 0) {
+    return { success: false, message: 'Could not register all Fitbit subscriptions.', syncedCount: registeredCount, error: errors.join('; ') };
+  }
+  console.log(`[FitbitActions] Registered ${registeredCount} Fitbit subscription(s) for user ${userId}.`);
+  return { success: true, message: `Registered ${registeredCount} Fitbit subscription(s).`, syncedCount: registeredCount };
+}
+
+// Targeted re-sync for each collection type Fitbit can notify us about.
+const FITBIT_COLLECTION_SYNCERS: Record<FitbitCollectionType, Array<(userId: string, date: string) => Promise<SyncResult>>> = {
+  activities: [
+    (userId, date) => syncFitbitActivities(userId, date, date),
+    (userId, date) => syncFitbitDailySummaries(userId, date, date),
+  ],
+  sleep: [(userId, date) => syncFitbitSleepData(userId, date, date)],
+  body: [(userId, date) => syncFitbitBodyMeasurements(userId, date, date)],
+};
+
+/**
+ * Re-syncs every date queued by the Fitbit subscription webhook for a user.
+ * A queue item is removed only after all of its syncs succeed, so failed items are retried on the next run.
+ */
+export async function processFitbitSyncQueue(userId: string): Promise<SyncResult> {
+  if (!userId) {
+    return { success: false, message: 'User not authenticated.' };
+  }
+
+  try {
+    const queueRef = adminDb.collection('users').doc(userId).collection('fitbit_sync_queue');
+    const queueSnapshot = await queueRef.get();
+    if (queueSnapshot.empty) {
+      return { success: true, message: 'No queued Fitbit updates.', syncedCount: 0 };
+    }
+
+    let syncedCount = 0;
+    let failedItems = 0;
+    let rateLimitedItem: FitbitSyncQueueItemFirestore | undefined;
+    for (const docSnap of queueSnapshot.docs) {
+      const item = docSnap.data() as FitbitSyncQueueItemFirestore;
+      const syncers = FITBIT_COLLECTION_SYNCERS[item.collectionType];
+      if (!syncers) {
+        await docSnap.ref.delete();
+        continue;
+      }
+
+      const results: SyncResult[] = [];
+      for (const syncer of syncers) {
+        const result = await syncer(userId, item.date);
+        results.push(result);
+        if (result.resumeCursor) break;
+      }
+      syncedCount += results.reduce((sum, r) => sum + (r.syncedCount || 0), 0);
+      if (results.some(r => r.resumeCursor)) {
+        // The rest of the queue stays in place for the next run.
+        rateLimitedItem = item;
+        break;
+      }
+      if (results.every(r => r.success)) {
+        await docSnap.ref.delete();
+      } else {
+        failedItems++;
+      }
+    }
+
+    if (rateLimitedItem) {
+      return createRateLimitedSyncResult('fitbit', `${syncedCount} queued record(s)`, syncedCount, `${rateLimitedItem.collectionType}_${rateLimitedItem.date}`);
+    }
+
+    const message = `Processed queued Fitbit updates: ${syncedCount} record(s) synced${failedItems > 0 ? `, ${failedItems} update(s) will be retried` : ''}.`;
+    console.log(`[FitbitActions] ${message}`);
+    return { success: failedItems === 0, message, syncedCount };
+  } catch (error: any) {
+    console.error(`[FitbitActions] An error occurred while processing the Fitbit sync queue for user ${userId}:`, error);
+    return { success: false, message: 'An unexpected error occurred during sync.', error: error.message };
+  }
+}
+
 interface GetSleepLogsResponse {
   success: boolean;
   data?: FitbitSleepLogFirestore[];
@@ -126,3 +806,145 @@ export async function getFitbitSleepLogsForDateRange(
         return { success: false, error: `Failed to fetch sleep logs: ${String(error.message || 'Unknown Firestore error')}` };
     }
 }
+
+// The longest window one request may read; a week of 1-minute data is about 10,000 samples.
+const MAX_INTRADAY_WINDOW_DAYS = 7;
+const DEFAULT_INTRADAY_POINTS = 500;
+const MAX_INTRADAY_POINTS = 2000;
+
+interface IntradayHeartRatePoint {
+  time: string; // Start of the bucket, as a local date-time (yyyy-MM-ddTHH:mm:ss)
+  min: number;
+  max: number;
+  mean: number;
+}
+
+interface GetIntradayHeartRateResponse {
+  success: boolean;
+  data?: {
+    points: IntradayHeartRatePoint[];
+    bucketSeconds: number; // Duration each point summarizes
+    sampleCount: number; // Stored samples in the window, before downsampling
+  };
+  error?: string;
+}
+
+// Local date-times are handled as if they were UTC, so the arithmetic below is unaffected by the
+// server's time zone and by daylight saving transitions.
+function parseLocalDateTimeSeconds(value: string): number {
+  return Date.parse(`${value.length === 10 ? `${value}T00:00:00` : value}Z`) / 1000;
+}
+
+function formatLocalDateTimeSeconds(seconds: number): string {
+  return new Date(seconds * 1000).toISOString().slice(0, 19);
+}
+
+/**
+ * Returns the stored Fitbit intraday heart rate for a window of local time, downsampled to at most
+ * `maxPoints` points. Each point keeps the minimum, maximum and mean of the samples it summarizes,
+ * so peaks remain visible however far the series is reduced.
+ * @param window Local date-times (yyyy-MM-ddTHH:mm:ss) in the time zone of the user's Fitbit profile; `to` is exclusive.
+ */
+export async function getFitbitIntradayHeartRate(
+  userId: string,
+  window: { from: string; to: string },
+  maxPoints: number = DEFAULT_INTRADAY_POINTS
+): Promise<GetIntradayHeartRateResponse> {
+  if (!userId) {
+    return { success: false, error: 'User not authenticated.' };
+  }
+
+  const start = parseLocalDateTimeSeconds(window.from);
+  const end = parseLocalDateTimeSeconds(window.to);
+  if (!Number.isFinite(start) || !Number.isFinite(end) || end <= start) {
+    return { success: false, error: 'Invalid time window.' };
+  }
+  if (end - start > MAX_INTRADAY_WINDOW_DAYS * 24 * 60 * 60) {
+    return { success: false, error: `The time window cannot be longer than ${MAX_INTRADAY_WINDOW_DAYS} days.` };
+  }
+  const pointLimit = Math.min(MAX_INTRADAY_POINTS, Math.max(1, Math.floor(maxPoints) || DEFAULT_INTRADAY_POINTS));
+
+  try {
+    const chunksCollectionRef = adminDb.collection('users').doc(userId).collection('fitbit_heart_rate_intraday');
+    // Only the chunks overlapping the window are read.
+    const firstChunk = Math.floor(start / INTRADAY_CHUNK_SECONDS);
+    const lastChunk = Math.floor((end - 1) / INTRADAY_CHUNK_SECONDS);
+    const chunkRefs = [];
+    for (let chunk = firstChunk; chunk <= lastChunk; chunk++) {
+      const dayStart = Math.floor(chunk / INTRADAY_CHUNKS_PER_DAY) * INTRADAY_CHUNKS_PER_DAY * INTRADAY_CHUNK_SECONDS;
+      const date = formatLocalDateTimeSeconds(dayStart).slice(0, 10);
+      chunkRefs.push(chunksCollectionRef.doc(getIntradayChunkId(date, chunk % INTRADAY_CHUNKS_PER_DAY)));
+    }
+
+    const chunkSnaps = await adminDb.getAll(...chunkRefs);
+    const samples: Array<{ t: number; value: number }> = [];
+    chunkSnaps.forEach(snap => {
+      if (!snap.exists) return;
+      const chunk = snap.data() as FitbitHeartRateIntradayChunkFirestore;
+      const dayStart = parseLocalDateTimeSeconds(chunk.date);
+      decodeIntradayChunk(chunk).forEach(sample => samples.push({ t: dayStart + sample.secondOfDay, value: sample.bpm }));
+    });
+
+    const { bucketSize, points } = downsampleMinMaxMean(samples, start, end, pointLimit);
+    return {
+      success: true,
+      data: {
+        points: points.map(point => ({
+          time: formatLocalDateTimeSeconds(point.t),
+          min: point.min,
+          max: point.max,
+          mean: Math.round(point.mean * 10) / 10,
+        })),
+        bucketSeconds: bucketSize,
+        sampleCount: points.reduce((sum, point) => sum + point.count, 0),
+      },
+    };
+  } catch (error: any) {
+    console.error(`[FitbitActions] Error fetching intraday heart rate from Firestore for user ${userId}:`, error);
+    return { success: false, error: `Failed to fetch intraday heart rate: ${String(error.message || 'Unknown Firestore error')}` };
+  }
+}
+
+/**
+ * Copies Fitbit sleep logs stored before the normalized sleep model existed into the `sleep` collection.
+ * Logs that already have a normalized record are left alone.
+ */
+export async function normalizeStoredFitbitSleepLogs(
+    userId: string,
+    dateRange: { from: string; to: string }
+): Promise<SyncResult> {
+    if (!userId) {
+        return { success: false, message: 'User not authenticated.' };
+    }
+
+    try {
+        const userRef = adminDb.collection('users').doc(userId);
+        const storedLogsSnapshot = await userRef.collection('fitbit_sleep')
+            .where('dateOfSleep', '>=', dateRange.from)
+            .where('dateOfSleep', '<=', dateRange.to)
+            .get();
+        if (storedLogsSnapshot.empty) {
+            return { success: true, message: 'No stored Fitbit sleep logs to normalize.', syncedCount: 0 };
+        }
+
+        const timeZone = await getUserTimeZone(userId);
+        const normalizedSleepCollectionRef = userRef.collection('sleep');
+        const batch = adminDb.batch();
+        let normalizedCount = 0;
+        for (const docSnap of storedLogsSnapshot.docs) {
+            const log = docSnap.data() as FitbitSleepLogFirestore;
+            const sleepDocRef = normalizedSleepCollectionRef.doc(`fitbit-${log.logId}`);
+            if ((await sleepDocRef.get()).exists) continue;
+            batch.set(sleepDocRef, normalizeFitbitSleepLogToSleep(log, userId, timeZone));
+            normalizedCount++;
+        }
+        await batch.commit();
+
+        const message = `Normalized ${normalizedCount} stored Fitbit sleep log(s).`;
+        console.log(`[FitbitActions] ${message}`);
+        return { success: true, message, syncedCount: normalizedCount };
+    } catch (error: any) {
+        console.error(`[FitbitActions] Error normalizing stored sleep logs for user ${userId}:`, error);
+        return { success: false, message: 'An unexpected error occurred while normalizing sleep logs.', error: error.message };
+    }
+}
@@ -1,9 +1,600 @@
-
 'use server';
 
-// This file is temporarily cleared to ensure application stability.
-// The complex Google Fit data fetching logic will be re-introduced
-// carefully after a stable baseline is established.
+import { adminDb } from '@/lib/firebase/serverApp';
+import admin from 'firebase-admin';
+import { deduplicateActivities } from '@/app/actions/activityActions';
+import { getValidGoogleFitAccessToken } from '@/lib/google-fit-auth-utils';
+import {
+  getGoogleFitActivitySessions,
+  getSessions,
+  getDataset,
+  getAggregatedData,
+  type GoogleFitSession,
+  type GoogleFitDataPoint,
+  type GoogleFitAggregateResponse,
+} from '@/lib/services/googleFitService';
+import { getZonedStartOfDayMillis, formatDateInTimeZone, formatLocalDateTimeInTimeZone, isValidTimeZone, DEFAULT_TIME_ZONE } from '@/lib/timezone-utils';
+import { summarizeSleepStages, getMinutesAsleepFromStages } from '@/lib/sleep-utils';
+import { createRateLimitedSyncResult, isApiQuotaExceededError } from '@/lib/api-quota';
+import { tombstoneActivitiesMissingAtSource } from '@/lib/activity-reconciliation';
+import {
+  NormalizedActivityType,
+  type NormalizedActivityFirestore,
+  type NormalizedSleepFirestore,
+  type NormalizedSleepSegment,
+  type NormalizedSleepStage,
+  type DailySummaryFirestore,
+  type UserProfile,
+} from '@/types';
+import { format, parseISO, addDays, subDays } from 'date-fns';
+
+interface SyncResult {
+  success: boolean;
+  message: string;
+  syncedCount?: number;
+  error?: string;
+  resumeCursor?: string; // Set when the provider's rate limit stopped the sync early; where to resume from
+}
+
+interface SessionMetrics {
+  distanceMeters?: number;
+  steps?: number;
+  calories?: number;
+  averageHeartRateBpm?: number;
+  maxHeartRateBpm?: number;
+}
+
+// Google Fit activity type codes, see https://developers.google.com/fit/rest/v1/reference/activity-types
+const GOOGLE_FIT_ACTIVITY_TYPE_MAP: Record<number, NormalizedActivityType> = {
+  7: NormalizedActivityType.Walking,    // Walking
+  93: NormalizedActivityType.Walking,   // Walking (fitness)
+  94: NormalizedActivityType.Walking,   // Walking (nordic)
+  95: NormalizedActivityType.Walking,   // Walking (treadmill)
+  116: NormalizedActivityType.Walking,  // Walking (stroller)
+  8: NormalizedActivityType.Running,    // Running
+  56: NormalizedActivityType.Running,   // Jogging
+  57: NormalizedActivityType.Running,   // Running on sand
+  58: NormalizedActivityType.Running,   // Running (treadmill)
+  35: NormalizedActivityType.Hiking,    // Hiking
+  82: NormalizedActivityType.Swimming,  // Swimming
+  83: NormalizedActivityType.Swimming,  // Swimming (open water)
+  84: NormalizedActivityType.Swimming,  // Swimming (swimming pool)
+  1: NormalizedActivityType.Cycling,    // Biking
+  14: NormalizedActivityType.Cycling,   // Biking (hand)
+  15: NormalizedActivityType.Cycling,   // Mountain biking
+  16: NormalizedActivityType.Cycling,   // Road biking
+  17: NormalizedActivityType.Cycling,   // Spinning
+  18: NormalizedActivityType.Cycling,   // Biking (stationary)
+  19: NormalizedActivityType.Cycling,   // Biking (utility)
+  80: NormalizedActivityType.Workout,   // Strength training
+  97: NormalizedActivityType.Workout,   // Weightlifting
+  113: NormalizedActivityType.Workout,  // Crossfit
+  114: NormalizedActivityType.Workout,  // HIIT
+  115: NormalizedActivityType.Workout,  // Interval training
+  100: NormalizedActivityType.Workout,  // Yoga
+  24: NormalizedActivityType.Workout,   // Dancing
+  25: NormalizedActivityType.Workout,   // Elliptical
+  77: NormalizedActivityType.Workout,   // Stair climbing
+  103: NormalizedActivityType.Workout,  // Rowing machine
+};
+
+// Codes that describe passive states rather than exercise; sessions of these types are not imported.
+// 0: In vehicle, 3: Still, 4: Unknown, 5: Tilting, 72: Sleeping, 109-112: Sleep stages.
+const NON_ACTIVITY_TYPE_CODES = new Set([0, 3, 4, 5, 72, 109, 110, 111, 112]);
+
+/**
+ * Maps a Google Fit numeric activity type to our NormalizedActivityType.
+ * Returns null for sessions that are not exercise (sleep, stillness, driving).
+ */
+function mapGoogleFitActivityType(activityType: number): NormalizedActivityType | null {
+  if (NON_ACTIVITY_TYPE_CODES.has(activityType)) {
+    return null;
+  }
+  return GOOGLE_FIT_ACTIVITY_TYPE_MAP[activityType] ?? NormalizedActivityType.Other;
+}
+
+/**
+ * Extracts distance, steps, calories and heart rate from a single-bucket aggregate response.
+ */
+function extractSessionMetrics(response: GoogleFitAggregateResponse): SessionMetrics {
+  const metrics: SessionMetrics = {};
+  for (const bucket of response.bucket || []) {
+    for (const dataset of bucket.dataset || []) {
+      for (const point of dataset.point || []) {
+        switch (point.dataTypeName) {
+          case 'com.google.distance.delta':
+            metrics.distanceMeters = (metrics.distanceMeters || 0) + (point.value[0]?.fpVal || 0);
+            break;
+          case 'com.google.step_count.delta':
+            metrics.steps = (metrics.steps || 0) + (point.value[0]?.intVal || 0);
+            break;
+          case 'com.google.calories.expended':
+            metrics.calories = (metrics.calories || 0) + (point.value[0]?.fpVal || 0);
+            break;
+          case 'com.google.heart_rate.summary':
+            // Summary values are [average, max, min].
+            metrics.averageHeartRateBpm = point.value[0]?.fpVal;
+            metrics.maxHeartRateBpm = point.value[1]?.fpVal;
+            break;
+        }
+      }
+    }
+  }
+  if (metrics.calories !== undefined) {
+    metrics.calories = Math.round(metrics.calories);
+  }
+  return metrics;
+}
+
+async function fetchSessionMetrics(accessToken: string, session: GoogleFitSession): Promise<SessionMetrics> {
+  const startTimeMillis = Number(session.startTimeMillis);
+  const endTimeMillis = Number(session.endTimeMillis);
+  if (!(endTimeMillis > startTimeMillis)) {
+    return {};
+  }
+
+  const response = await getAggregatedData(accessToken, {
+    aggregateBy: [
+      { dataTypeName: 'com.google.distance.delta' },
+      { dataTypeName: 'com.google.step_count.delta' },
+      { dataTypeName: 'com.google.calories.expended' },
+      { dataTypeName: 'com.google.heart_rate.bpm' },
+    ],
+    // A single bucket spanning the whole session window.
+    bucketByTime: { durationMillis: endTimeMillis - startTimeMillis },
+    startTimeMillis,
+    endTimeMillis,
+  });
+  return extractSessionMetrics(response);
+}
+
+async function getUserTimeZone(userId: string): Promise<string> {
+  const userProfile = (await adminDb.collection('users').doc(userId).get()).data() as UserProfile | undefined;
+  return isValidTimeZone(userProfile?.timezone) ? userProfile.timezone : DEFAULT_TIME_ZONE;
+}
+
+/**
+ * Normalizes a Google Fit session (plus its aggregated metrics) into our standard Firestore format.
+ * Sessions carry UTC instants only, so the local start time and date are those of the user's time zone.
+ */
+function normalizeGoogleFitSession(
+  session: GoogleFitSession,
+  type: NormalizedActivityType,
+  metrics: SessionMetrics,
+  userId: string,
+  timeZone: string
+): NormalizedActivityFirestore {
+  const start = new Date(Number(session.startTimeMillis));
+  const elapsedSec = Math.round((Number(session.endTimeMillis) - Number(session.startTimeMillis)) / 1000);
+  const activeSec = session.activeTimeMillis ? Math.round(Number(session.activeTimeMillis) / 1000) : elapsedSec;
+
+  const activity: NormalizedActivityFirestore = {
+    id: `google-fit-${session.id}`,
+    userId: userId,
+    originalId: session.id,
+    dataSource: 'google-fit',
+    type,
+    name: session.name || undefined,
+    startTimeUtc: start.toISOString(),
+    startTimeLocal: formatLocalDateTimeInTimeZone(start.getTime(), timeZone),
+    timezone: timeZone,
+    durationMovingSec: activeSec,
+    durationElapsedSec: elapsedSec,
+    distanceMeters: metrics.distanceMeters,
+    calories: metrics.calories,
+    steps: metrics.steps,
+    averageHeartRateBpm: metrics.averageHeartRateBpm,
+    maxHeartRateBpm: metrics.maxHeartRateBpm,
+    date: formatDateInTimeZone(start.getTime(), timeZone),
+    lastFetched: new Date().toISOString(),
+  };
+
+  // Firestore rejects undefined field values, so drop any metric the session did not report.
+  return Object.fromEntries(
+    Object.entries(activity).filter(([, value]) => value !== undefined)
+  ) as NormalizedActivityFirestore;
+}
+
+/**
+ * Fetches Google Fit sessions for a date range, enriches each with aggregated metrics,
+ * and stores them as normalized activities. Stored Google Fit activities in the range that are no longer
+ * listed were deleted on Google Fit, and are tombstoned.
+ */
+export async function syncGoogleFitActivities(userId: string, startDate: string, endDate: string): Promise<SyncResult> {
+  if (!userId) {
+    return { success: false, message: 'User not authenticated.' };
+  }
+
+  console.log(`[GoogleFitActions] Starting activity sync for user ${userId} from ${startDate} to ${endDate}`);
+
+  const accessToken = await getValidGoogleFitAccessToken(userId);
+  if (!accessToken) {
+    return { success: false, message: 'Could not retrieve a valid Google Fit access token. Please reconnect.' };
+  }
+
+  try {
+    const timeZone = await getUserTimeZone(userId);
+    const startTimeIso = new Date(getZonedStartOfDayMillis(startDate, timeZone)).toISOString();
+    const endTimeIso = new Date(getZonedStartOfDayMillis(format(addDays(parseISO(endDate), 1), 'yyyy-MM-dd'), timeZone) - 1).toISOString();
+    const listingStartedAt = new Date().toISOString();
+    const sessions = await getGoogleFitActivitySessions(accessToken, startTimeIso, endTimeIso);
+    // Oldest first, so that a sync stopped by the rate limit can resume from the first unsynced session's date.
+    sessions.sort((a, b) => Number(a.startTimeMillis) - Number(b.startTimeMillis));
+
+    const normalizedActivities: NormalizedActivityFirestore[] = [];
+    let resumeCursor: string | undefined;
+    for (const session of sessions) {
+      const type = mapGoogleFitActivityType(session.activityType);
+      if (!type) {
+        continue;
+      }
+
+      let metrics: SessionMetrics = {};
+      try {
+        metrics = await fetchSessionMetrics(accessToken, session);
+      } catch (error: any) {
+        if (isApiQuotaExceededError(error)) {
+          resumeCursor = formatDateInTimeZone(Number(session.startTimeMillis), timeZone);
+          break;
+        }
+        // Keep the session even if enrichment fails; it still has its type and duration.
+        console.error(`[GoogleFitActions] Failed to fetch aggregated data for session ${session.id}:`, error.message);
+      }
+      normalizedActivities.push(normalizeGoogleFitSession(session, type, metrics, userId, timeZone));
+    }
+
+    // The listing holds every session in the range, including those not stored yet because of the rate limit.
+    const removedCount = await tombstoneActivitiesMissingAtSource(userId, 'google-fit', {
+      // Activities stored before dates were taken in the user's time zone may be a day off the queried range,
+      // so the query is widened and `covers` decides.
+      dateRange: { from: format(subDays(parseISO(startDate), 1), 'yyyy-MM-dd'), to: format(addDays(parseISO(endDate), 1), 'yyyy-MM-dd') },
+      covers: activity => activity.startTimeUtc >= startTimeIso && activity.startTimeUtc <= endTimeIso,
+      activityIds: new Set(sessions.map(session => `google-fit-${session.id}`)),
+      startedAt: listingStartedAt,
+    });
+    const removedMessage = removedCount > 0 ? ` Removed ${removedCount} activity/activities deleted on Google Fit.` : '';
+
+    if (normalizedActivities.length === 0) {
+      if (resumeCursor) {
+        return createRateLimitedSyncResult('googlefit', '0 activities', 0, resumeCursor);
+      }
+      return { success: true, message: `No new activities found on Google Fit in the selected date range.${removedMessage}`, syncedCount: 0 };
+    }
+
+    const batch = adminDb.batch();
+    const activitiesCollectionRef = adminDb.collection('users').doc(userId).collection('activities');
+
+    normalizedActivities.forEach(activity => {
+      const docRef = activitiesCollectionRef.doc(activity.id);
+      // Google Fit returned the session, so it is no longer tombstoned if a reconciliation had missed it.
+      batch.set(docRef, { ...activity, tombstonedAt: admin.firestore.FieldValue.delete() }, { merge: true });
+    });
+
+    await batch.commit();
+
+    // Merge any workouts that other connected apps also recorded.
+    await deduplicateActivities(userId, { from: startDate, to: endDate });
+
+    const userProfileRef = adminDb.collection('users').doc(userId);
+    await userProfileRef.set({ googleFitLastSuccessfulSync: new Date().toISOString() }, { merge: true });
+
+    if (resumeCursor) {
+      return createRateLimitedSyncResult('googlefit', `${normalizedActivities.length} activity/activities`, normalizedActivities.length, resumeCursor);
+    }
+
+    const message = `Successfully synced ${normalizedActivities.length} activity/activities from Google Fit.${removedMessage}`;
+    console.log(`[GoogleFitActions] ${message}`);
+    return { success: true, message, syncedCount: normalizedActivities.length };
+
+  } catch (error: any) {
+    if (isApiQuotaExceededError(error)) {
+      return createRateLimitedSyncResult('googlefit', '0 activities', 0, startDate);
+    }
+    console.error(`[GoogleFitActions] An error occurred during the Google Fit sync process for user ${userId}:`, error);
+    return { success: false, message: 'An unexpected error occurred during sync.', error: error.message };
+  }
+}
+
+
+/**
+ * Builds a daily summary from one day-sized aggregate bucket.
+ */
+function normalizeGoogleFitDailyBucket(
+  bucket: GoogleFitAggregateResponse['bucket'][number],
+  timeZone: string
+): DailySummaryFirestore {
+  const summary: DailySummaryFirestore = {
+    date: formatDateInTimeZone(Number(bucket.startTimeMillis), timeZone),
+    timezone: timeZone,
+    lastFetched: new Date().toISOString(),
+    dataSource: 'google-fit',
+  };
+
+  for (const dataset of bucket.dataset || []) {
+    for (const point of dataset.point || []) {
+      switch (point.dataTypeName) {
+        case 'com.google.step_count.delta':
+          summary.steps = (summary.steps || 0) + (point.value[0]?.intVal || 0);
+          break;
+        case 'com.google.distance.delta':
+          summary.distanceMeters = (summary.distanceMeters || 0) + (point.value[0]?.fpVal || 0);
+          break;
+        case 'com.google.calories.expended':
+          summary.caloriesOut = Math.round((summary.caloriesOut || 0) + (point.value[0]?.fpVal || 0));
+          break;
+        case 'com.google.active_minutes':
+          summary.activeMinutes = (summary.activeMinutes || 0) + (point.value[0]?.intVal || 0);
+          break;
+        case 'com.google.heart_rate.summary':
+          // Summary values are [average, max, min]. Google Fit has no resting heart rate type, and the
+          // day's minimum is not one, so restingHeartRate is left unset.
+          summary.averageHeartRate = point.value[0]?.fpVal;
+          summary.maxHeartRate = point.value[1]?.fpVal;
+          summary.minHeartRate = point.value[2]?.fpVal;
+          break;
+      }
+    }
+  }
+
+  return Object.fromEntries(
+    Object.entries(summary).filter(([, value]) => value !== undefined)
+  ) as DailySummaryFirestore;
+}
+
+function hasDailyData(summary: DailySummaryFirestore): boolean {
+  return summary.steps !== undefined
+    || summary.activeMinutes !== undefined
+    || summary.averageHeartRate !== undefined
+    || summary.distanceMeters !== undefined;
+}
+
+/**
+ * Fetches day-bucketed steps, heart rate, active minutes, distance and calories from Google Fit
+ * and stores them in the source-tagged daily_summaries collection (one document per day and source).
+ * Days are bucketed in the user's time zone; if none is passed, the one on the user's profile is used.
+ */
+export async function syncGoogleFitDailySummaries(
+  userId: string,
+  startDate: string,
+  endDate: string,
+  timeZone?: string
+): Promise<SyncResult> {
+  if (!userId) {
+    return { success: false, message: 'User not authenticated.' };
+  }
+
+  const accessToken = await getValidGoogleFitAccessToken(userId);
+  if (!accessToken) {
+    return { success: false, message: 'Could not retrieve a valid Google Fit access token. Please reconnect.' };
+  }
+
+  try {
+    let resolvedTimeZone = timeZone;
+    if (!isValidTimeZone(resolvedTimeZone)) {
+      const userProfileSnap = await adminDb.collection('users').doc(userId).get();
+      const profileTimeZone = (userProfileSnap.data() as UserProfile | undefined)?.timezone;
+      resolvedTimeZone = isValidTimeZone(profileTimeZone) ? profileTimeZone : DEFAULT_TIME_ZONE;
+    }
+
+    console.log(`[GoogleFitActions] Starting daily summary sync for user ${userId} from ${startDate} to ${endDate} (${resolvedTimeZone})`);
+
+    const startTimeMillis = getZonedStartOfDayMillis(startDate, resolvedTimeZone);
+    const endTimeMillis = getZonedStartOfDayMillis(format(addDays(parseISO(endDate), 1), 'yyyy-MM-dd'), resolvedTimeZone);
+
+    const response = await getAggregatedData(accessToken, {
+      aggregateBy: [
+        { dataTypeName: 'com.google.step_count.delta' },
+        { dataTypeName: 'com.google.distance.delta' },
+        { dataTypeName: 'com.google.calories.expended' },
+        { dataTypeName: 'com.google.active_minutes' },
+        { dataTypeName: 'com.google.heart_rate.bpm' },
+      ],
+      bucketByTime: {
+        durationMillis: 24 * 60 * 60 * 1000,
+        period: { type: 'day', value: 1, timeZoneId: resolvedTimeZone },
+      },
+      startTimeMillis,
+      endTimeMillis,
+    });
+
+    const dailySummaries = (response.bucket || [])
+      .map(bucket => normalizeGoogleFitDailyBucket(bucket, resolvedTimeZone!))
+      .filter(hasDailyData);
+
+    if (dailySummaries.length === 0) {
+      return { success: true, message: 'No daily data found on Google Fit in the selected date range.', syncedCount: 0 };
+    }
+
+    const batch = adminDb.batch();
+    const summariesCollectionRef = adminDb.collection('users').doc(userId).collection('daily_summaries');
+
+    dailySummaries.forEach(summary => {
+      // Composite key of date and source, so several sources can hold a summary for the same day.
+      const docRef = summariesCollectionRef.doc(`${summary.date}_${summary.dataSource}`);
+      // Earlier syncs stored the day's minimum heart rate as the resting heart rate.
+      batch.set(docRef, { ...summary, restingHeartRate: admin.firestore.FieldValue.delete() }, { merge: true });
+    });
+
+    await batch.commit();
+
+    const message = `Successfully synced ${dailySummaries.length} daily summary/summaries from Google Fit.`;
+    console.log(`[GoogleFitActions] ${message}`);
+    return { success: true, message, syncedCount: dailySummaries.length };
+
+  } catch (error: any) {
+    if (isApiQuotaExceededError(error)) {
+      return createRateLimitedSyncResult('googlefit', '0 daily summaries', 0, startDate);
+    }
+    console.error(`[GoogleFitActions] An error occurred during the Google Fit daily summary sync for user ${userId}:`, error);
+    return { success: false, message: 'An unexpected error occurred during daily summary sync.', error: error.message };
+  }
+}
+
+// Activity type code of sleep sessions.
+const GOOGLE_FIT_SLEEP_ACTIVITY_TYPE = 72;
+const GOOGLE_FIT_SLEEP_SEGMENT_DATA_SOURCE = 'derived:com.google.sleep.segment:com.google.android.gms:merged';
+
+// Values of the com.google.sleep.segment data type, see https://developers.google.com/fit/scenarios/read-sleep-data
+const GOOGLE_FIT_SLEEP_STAGE_MAP: Record<number, NormalizedSleepStage> = {
+  1: 'awake',
+  2: 'asleep',
+  3: 'outOfBed',
+  4: 'light',
+  5: 'deep',
+  6: 'rem',
+};
+
+// Sleep that ends on the first day of the range usually starts the evening before.
+const SLEEP_LOOKBACK_MS = 12 * 60 * 60 * 1000;
+
+async function fetchSleepSegments(accessToken: string, session: GoogleFitSession): Promise<GoogleFitDataPoint[]> {
+  const points: GoogleFitDataPoint[] = [];
+  let pageToken: string | undefined;
+  do {
+    const response = await getDataset(
+      accessToken,
+      GOOGLE_FIT_SLEEP_SEGMENT_DATA_SOURCE,
+      Number(session.startTimeMillis),
+      Number(session.endTimeMillis),
+      pageToken
+    );
+    points.push(...(response.point || []));
+    pageToken = response.nextPageToken;
+  } while (pageToken);
+  return points;
+}
+
+/**
+ * Converts a Google Fit sleep session and its sleep segments into the source-agnostic sleep format.
+ * Sessions without segments are stored as one block of sleep of unknown stage.
+ */
+function normalizeGoogleFitSleepSession(
+  session: GoogleFitSession,
+  segmentPoints: GoogleFitDataPoint[],
+  userId: string,
+  timeZone: string
+): NormalizedSleepFirestore {
+  const startMillis = Number(session.startTimeMillis);
+  const endMillis = Number(session.endTimeMillis);
+  const durationSec = Math.round((endMillis - startMillis) / 1000);
+
+  const stageSegments: NormalizedSleepSegment[] = segmentPoints
+    .map(point => ({
+      stage: GOOGLE_FIT_SLEEP_STAGE_MAP[point.value[0]?.intVal ?? 2] || 'asleep',
+      startTimeUtc: new Date(Number(point.startTimeNanos) / 1e6).toISOString(),
+      durationSec: Math.round((Number(point.endTimeNanos) - Number(point.startTimeNanos)) / 1e9),
+    }))
+    .sort((a, b) => Date.parse(a.startTimeUtc) - Date.parse(b.startTimeUtc));
+
+  const stageMinutes = stageSegments.length > 0
+    ? summarizeSleepStages(stageSegments)
+    : { asleep: Math.round(durationSec / 60) };
+  const minutesAsleep = getMinutesAsleepFromStages(stageMinutes);
+
+  const sleep: NormalizedSleepFirestore = {
+    id: `google-fit-${session.id}`,
+    userId: userId,
+    originalId: session.id,
+    dataSource: 'google-fit',
+    dateOfSleep: formatDateInTimeZone(endMillis, timeZone),
+    startTimeUtc: new Date(startMillis).toISOString(),
+    endTimeUtc: new Date(endMillis).toISOString(),
+    timezone: timeZone,
+    durationSec,
+    minutesAsleep,
+    minutesAwake: stageSegments.length > 0 ? (stageMinutes.awake || 0) : undefined,
+    efficiencyPercent: durationSec > 0 ? Math.round((minutesAsleep * 60 / durationSec) * 100) : undefined,
+    stageMinutes,
+    stageSegments: stageSegments.length > 0 ? stageSegments : undefined,
+    lastFetched: new Date().toISOString(),
+  };
+  return Object.fromEntries(
+    Object.entries(sleep).filter(([, value]) => value !== undefined)
+  ) as NormalizedSleepFirestore;
+}
+
+/**
+ * Fetches Google Fit sleep sessions that end within a date range, along with their sleep stage
+ * segments, and stores them in the normalized sleep collection.
+ */
+export async function syncGoogleFitSleep(userId: string, startDate: string, endDate: string): Promise<SyncResult> {
+  if (!userId) {
+    return { success: false, message: 'User not authenticated.' };
+  }
+
+  console.log(`[GoogleFitActions] Starting sleep sync for user ${userId} from ${startDate} to ${endDate}`);
+
+  const accessToken = await getValidGoogleFitAccessToken(userId);
+  if (!accessToken) {
+    return { success: false, message: 'Could not retrieve a valid Google Fit access token. Please reconnect.' };
+  }
+
+  try {
+    const timeZone = await getUserTimeZone(userId);
+
+    const startTimeMillis = getZonedStartOfDayMillis(startDate, timeZone) - SLEEP_LOOKBACK_MS;
+    const endTimeMillis = getZonedStartOfDayMillis(format(addDays(parseISO(endDate), 1), 'yyyy-MM-dd'), timeZone);
+    const response = await getSessions(
+      accessToken,
+      new Date(startTimeMillis).toISOString(),
+      new Date(endTimeMillis).toISOString(),
+      GOOGLE_FIT_SLEEP_ACTIVITY_TYPE
+    );
+
+    const sessions = (response.session || [])
+      .filter(session => session.activityType === GOOGLE_FIT_SLEEP_ACTIVITY_TYPE)
+      .sort((a, b) => Number(a.endTimeMillis) - Number(b.endTimeMillis));
+
+    const sleepRecords: NormalizedSleepFirestore[] = [];
+    let resumeCursor: string | undefined;
+    for (const session of sessions) {
+      let segmentPoints: GoogleFitDataPoint[] = [];
+      try {
+        segmentPoints = await fetchSleepSegments(accessToken, session);
+      } catch (error: any) {
+        if (isApiQuotaExceededError(error)) {
+          resumeCursor = formatDateInTimeZone(Number(session.endTimeMillis), timeZone);
+          break;
+        }
+        // Keep the session even without stages; it still has its duration.
+        console.error(`[GoogleFitActions] Failed to fetch sleep segments for session ${session.id}:`, error.message);
+      }
+      const sleep = normalizeGoogleFitSleepSession(session, segmentPoints, userId, timeZone);
+      if (sleep.dateOfSleep >= startDate && sleep.dateOfSleep <= endDate) {
+        sleepRecords.push(sleep);
+      }
+    }
+
+    if (sleepRecords.length === 0) {
+      if (resumeCursor) {
+        return createRateLimitedSyncResult('googlefit', '0 sleep sessions', 0, resumeCursor);
+      }
+      return { success: true, message: 'No new sleep sessions found on Google Fit in the selected date range.', syncedCount: 0 };
+    }
+
+    const batch = adminDb.batch();
+    const sleepCollectionRef = adminDb.collection('users').doc(userId).collection('sleep');
+
+    sleepRecords.forEach(sleep => {
+      // Plain set, so stages from an earlier version of the session do not linger.
+      batch.set(sleepCollectionRef.doc(sleep.id), sleep);
+    });
+
+    await batch.commit();
+
+    if (resumeCursor) {
+      return createRateLimitedSyncResult('googlefit', `${sleepRecords.length} sleep session(s)`, sleepRecords.length, resumeCursor);
+    }
+
+    const message = `Successfully synced ${sleepRecords.length} sleep session(s) from Google Fit.`;
+    console.log(`[GoogleFitActions] ${message}`);
+    return { success: true, message, syncedCount: sleepRecords.length };
 
-// [2024-08-02] COMMENT: Removed empty export to fix "use server" build error.
-// export {};
+  } catch (error: any) {
+    if (isApiQuotaExceededError(error)) {
+      return createRateLimitedSyncResult('googlefit', '0 sleep sessions', 0, startDate);
+    }
+    console.error(`[GoogleFitActions] An error occurred during the Google Fit sleep sync for user ${userId}:`, error);
+    return { success: false, message: 'An unexpected error occurred during sleep sync.', error: error.message };
+  }
+}
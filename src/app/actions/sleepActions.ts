@@ -0,0 +1,55 @@
+'use server';
+
+import { adminDb } from '@/lib/firebase/serverApp';
+import { normalizeStoredFitbitSleepLogs } from '@/app/actions/fitbitActions';
+import type { NormalizedSleepFirestore } from '@/types';
+
+interface GetSleepResponse {
+  success: boolean;
+  data?: NormalizedSleepFirestore[];
+  error?: string;
+}
+
+async function querySleepForDateRange(userId: string, dateRange: { from: string; to: string }): Promise<NormalizedSleepFirestore[]> {
+  const querySnapshot = await adminDb.collection('users').doc(userId).collection('sleep')
+    .where('dateOfSleep', '>=', dateRange.from)
+    .where('dateOfSleep', '<=', dateRange.to)
+    .orderBy('dateOfSleep', 'desc')
+    .get();
+
+  const sleepRecords: NormalizedSleepFirestore[] = [];
+  querySnapshot.forEach((docSnap) => {
+    sleepRecords.push(docSnap.data() as NormalizedSleepFirestore);
+  });
+  return sleepRecords;
+}
+
+/**
+ * Returns the normalized sleep records (all sources) whose night falls within a date range.
+ * Fitbit logs synced before the normalized collection existed are normalized on first read.
+ */
+export async function getNormalizedSleepForDateRange(
+  userId: string,
+  dateRange: { from: string; to: string } // Dates in 'yyyy-MM-dd' format
+): Promise<GetSleepResponse> {
+  if (!userId) {
+    return { success: false, error: 'User not authenticated.' };
+  }
+
+  try {
+    let sleepRecords = await querySleepForDateRange(userId, dateRange);
+
+    if (sleepRecords.length === 0) {
+      const migration = await normalizeStoredFitbitSleepLogs(userId, dateRange);
+      if (migration.success && migration.syncedCount) {
+        sleepRecords = await querySleepForDateRange(userId, dateRange);
+      }
+    }
+
+    console.log(`[SleepActions] Fetched ${sleepRecords.length} sleep record(s) from Firestore for user ${userId}.`);
+    return { success: true, data: sleepRecords };
+  } catch (error: any) {
+    console.error(`[SleepActions] Error fetching sleep records from Firestore for user ${userId}:`, error);
+    return { success: false, error: `Failed to fetch sleep records: ${String(error.message || 'Unknown Firestore error')}` };
+  }
+}
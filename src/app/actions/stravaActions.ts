@@ -3,16 +3,23 @@
 'use server';
 
 import { adminDb } from '@/lib/firebase/serverApp';
+import admin from 'firebase-admin';
 import { getValidStravaAccessToken } from '@/lib/strava-auth-utils';
-import { getStravaActivities, type StravaActivity } from '@/lib/services/stravaService';
-import { NormalizedActivityType, type NormalizedActivityFirestore } from '@/types';
-import { format, parseISO, subDays } from 'date-fns';
+import { createRateLimitedSyncResult, isApiQuotaExceededError } from '@/lib/api-quota';
+import { trackSyncRun } from '@/lib/connection-health';
+import { deduplicateActivities } from '@/app/actions/activityActions';
+import { downsampleAlignedSeries } from '@/lib/downsampling';
+import { tombstoneActivitiesMissingAtSource } from '@/lib/activity-reconciliation';
+import { getStravaActivities, getStravaActivityById, getStravaActivityStreams, type StravaActivity, type StravaStreamType } from '@/lib/services/stravaService';
+import { NormalizedActivityType, type NormalizedActivityFirestore, type UserProfile, type StravaBackfillState, type ActivityStreamsFirestore } from '@/types';
+import { addDays, format, parseISO, subDays } from 'date-fns';
 
 interface SyncResult {
   success: boolean;
   message: string;
   syncedCount?: number;
   error?: string;
+  resumeCursor?: string; // Set when the provider's rate limit stopped the sync early; where to resume from
 }
 
 // [2025-06-29] COMMENT: This helper function maps Strava's activity type strings to our app's NormalizedActivityType enum.
@@ -66,7 +73,170 @@ function normalizeStravaActivity(activity: StravaActivity, userId: string): Norm
   };
 }
 
+// Strava allows up to 200 activities per page.
+const STRAVA_PAGE_SIZE = 200;
+// Upper bound on pages fetched by one sync call. Strava's default rate limit is 100 requests per 15 minutes,
+// so a long history is imported over several backfill calls instead of one.
+const MAX_PAGES_PER_SYNC = 10;
+// Window used for the first sync, before any activity has been synced.
+const INITIAL_SYNC_WINDOW_DAYS = 7;
+
+const STREAM_TYPES: StravaStreamType[] = ['time', 'distance', 'heartrate', 'altitude', 'velocity_smooth', 'cadence'];
+// Points kept per stream: plenty for a chart, and keeps the document far below Firestore's 1 MiB limit.
+const MAX_STREAM_POINTS = 500;
+// Streams of activities this recent are fetched during the sync; older ones when they are first opened.
+const EAGER_STREAMS_MAX_AGE_DAYS = 14;
+// Each activity's streams cost one API call, so a sync fetches at most this many.
+const MAX_EAGER_STREAMS_PER_SYNC = 10;
+// Activities started this recently are listed again on every sync, to find the ones deleted on Strava.
+const RECONCILIATION_WINDOW_DAYS = 30;
+// If the window holds more pages than this, the listing is abandoned and nothing is tombstoned.
+const MAX_RECONCILIATION_PAGES = 3;
+
+function toUnixSeconds(isoDate: string): number {
+  return Math.floor(parseISO(isoDate).getTime() / 1000);
+}
+
+function getStreamsDocRef(userId: string, stravaActivityId: number) {
+  return adminDb.collection('users').doc(userId).collection('activity_streams').doc(`strava-${stravaActivityId}`);
+}
+
+/**
+ * Fetches an activity's streams from Strava, downsamples them and stores them.
+ * @returns The stored streams, or null if the activity has no recorded streams (e.g. a manual entry).
+ */
+async function fetchAndStoreStravaStreams(userId: string, accessToken: string, stravaActivityId: number): Promise<ActivityStreamsFirestore | null> {
+  let streams;
+  try {
+    streams = await getStravaActivityStreams(accessToken, stravaActivityId, STREAM_TYPES);
+  } catch (error: any) {
+    if (error.status === 404) return null;
+    throw error;
+  }
+  const time = streams.time?.data;
+  if (!time || time.length === 0) {
+    return null;
+  }
+
+  const downsampled = downsampleAlignedSeries({
+    timeSec: time,
+    distanceMeters: streams.distance?.data,
+    heartRateBpm: streams.heartrate?.data,
+    altitudeMeters: streams.altitude?.data,
+    velocityMetersPerSec: streams.velocity_smooth?.data,
+    cadence: streams.cadence?.data,
+  }, MAX_STREAM_POINTS);
+
+  const streamsDoc: ActivityStreamsFirestore = {
+    activityId: `strava-${stravaActivityId}`,
+    dataSource: 'strava',
+    originalId: String(stravaActivityId),
+    originalSampleCount: time.length,
+    sampleCount: downsampled.timeSec!.length,
+    timeSec: downsampled.timeSec!,
+    lastFetched: new Date().toISOString(),
+  };
+  // Firestore rejects undefined values, so only the recorded streams are set.
+  for (const key of ['distanceMeters', 'heartRateBpm', 'altitudeMeters', 'velocityMetersPerSec', 'cadence'] as const) {
+    if (downsampled[key]) streamsDoc[key] = downsampled[key];
+  }
+
+  await getStreamsDocRef(userId, stravaActivityId).set(streamsDoc);
+  return streamsDoc;
+}
+
+/**
+ * Fetches the streams of recently recorded activities, so their charts open without a wait.
+ * Stops quietly at the rate limit; anything skipped is fetched when the activity is opened.
+ */
+async function prefetchRecentStravaStreams(userId: string, accessToken: string, stravaActivities: StravaActivity[]): Promise<void> {
+  const cutoff = subDays(new Date(), EAGER_STREAMS_MAX_AGE_DAYS).getTime();
+  const candidates = stravaActivities
+    .filter(act => !act.manual && parseISO(act.start_date).getTime() >= cutoff)
+    .sort((a, b) => toUnixSeconds(b.start_date) - toUnixSeconds(a.start_date))
+    .slice(0, MAX_EAGER_STREAMS_PER_SYNC);
+  if (candidates.length === 0) return;
+
+  const existing = await adminDb.getAll(...candidates.map(act => getStreamsDocRef(userId, act.id)));
+  for (const [index, act] of candidates.entries()) {
+    if (existing[index].exists) continue;
+    try {
+      await fetchAndStoreStravaStreams(userId, accessToken, act.id);
+    } catch (error: any) {
+      if (isApiQuotaExceededError(error)) break;
+      console.error(`[StravaActions] Failed to fetch streams for Strava activity ${act.id}:`, error.message);
+    }
+  }
+}
+
+/**
+ * Normalizes and saves a page of Strava activities, returning the start time (Unix seconds)
+ * of the newest and oldest activity in the page.
+ */
+async function saveStravaActivities(
+  userId: string,
+  stravaActivities: StravaActivity[]
+): Promise<{ newestStartTime: number; oldestStartTime: number }> {
+  const batch = adminDb.batch();
+  const activitiesCollectionRef = adminDb.collection('users').doc(userId).collection('activities');
+
+  const normalizedActivities = stravaActivities.map(act => normalizeStravaActivity(act, userId));
+  normalizedActivities.forEach(activity => {
+    // Strava returned the activity, so it is no longer tombstoned if a reconciliation had missed it.
+    batch.set(activitiesCollectionRef.doc(activity.id), { ...activity, tombstonedAt: admin.firestore.FieldValue.delete() }, { merge: true });
+  });
+
+  await batch.commit();
+
+  // Merge any workouts that other connected apps also recorded.
+  const dates = normalizedActivities.map(activity => activity.date).sort();
+  await deduplicateActivities(userId, { from: dates[0], to: dates[dates.length - 1] });
+
+  const startTimes = stravaActivities.map(act => toUnixSeconds(act.start_date));
+  return { newestStartTime: Math.max(...startTimes), oldestStartTime: Math.min(...startTimes) };
+}
+
+/**
+ * Lists the activities of the last RECONCILIATION_WINDOW_DAYS days on Strava and tombstones stored
+ * Strava activities from that window that are no longer listed. The incremental sync only asks for
+ * activities newer than its cursor, so this is how deletions reach us when a webhook event was missed.
+ * Failures are logged and skipped; the next sync tries again.
+ * @returns The number of activities tombstoned.
+ */
+async function reconcileRecentStravaActivities(userId: string, accessToken: string): Promise<number> {
+  const listingStartedAt = new Date();
+  const windowStart = subDays(listingStartedAt, RECONCILIATION_WINDOW_DAYS);
+  const afterTimestamp = Math.floor(windowStart.getTime() / 1000);
+
+  try {
+    const activityIds = new Set<string>();
+    for (let page = 1; ; page++) {
+      if (page > MAX_RECONCILIATION_PAGES) {
+        console.warn(`[StravaActions] Skipped reconciliation for user ${userId}: over ${MAX_RECONCILIATION_PAGES} pages of recent activities.`);
+        return 0;
+      }
+      const stravaActivities = await getStravaActivities(accessToken, { after: afterTimestamp, page, per_page: STRAVA_PAGE_SIZE });
+      stravaActivities.forEach(act => activityIds.add(`strava-${act.id}`));
+      if (stravaActivities.length < STRAVA_PAGE_SIZE) break;
+    }
+
+    return await tombstoneActivitiesMissingAtSource(userId, 'strava', {
+      // Stored dates may be a day off the UTC window, so the query is widened and `covers` decides.
+      dateRange: { from: format(subDays(windowStart, 1), 'yyyy-MM-dd'), to: format(addDays(listingStartedAt, 1), 'yyyy-MM-dd') },
+      covers: activity => toUnixSeconds(activity.startTimeUtc) > afterTimestamp,
+      activityIds,
+      startedAt: listingStartedAt.toISOString(),
+    });
+  } catch (error: any) {
+    if (!isApiQuotaExceededError(error)) {
+      console.error(`[StravaActions] Reconciliation of recent Strava activities failed for user ${userId}:`, error);
+    }
+    return 0;
+  }
+}
+
 // [2025-06-29] COMMENT: The main server action to fetch, normalize, and save Strava activities.
+// Syncs are incremental: only activities that started after the newest previously synced activity are fetched.
 export async function syncStravaActivities(userId: string): Promise<SyncResult> {
   if (!userId) {
     return { success: false, message: 'User not authenticated.' };
@@ -80,39 +250,241 @@ export async function syncStravaActivities(userId: string): Promise<SyncResult>
   }
 
   try {
-    // [2025-06-29] COMMENT: Fetch activities from the last 7 days. The 'after' param requires a Unix timestamp in seconds.
-    const sevenDaysAgo = subDays(new Date(), 7);
-    const afterTimestamp = Math.floor(sevenDaysAgo.getTime() / 1000);
+    const userProfileRef = adminDb.collection('users').doc(userId);
+    const userProfile = (await userProfileRef.get()).data() as UserProfile | undefined;
+
+    // The 'after' param requires a Unix timestamp in seconds.
+    const afterTimestamp = userProfile?.stravaLatestActivityStartTime
+      ?? Math.floor(subDays(new Date(), INITIAL_SYNC_WINDOW_DAYS).getTime() / 1000);
+    let latestActivityStartTime = afterTimestamp;
+
+    let syncedCount = 0;
+    let hasMore = false;
+    let rateLimited = false;
+    const savedActivities: StravaActivity[] = [];
+    for (let page = 1; page <= MAX_PAGES_PER_SYNC; page++) {
+      let stravaActivities: StravaActivity[];
+      try {
+        stravaActivities = await getStravaActivities(accessToken, { after: afterTimestamp, page, per_page: STRAVA_PAGE_SIZE });
+      } catch (error: any) {
+        if (!isApiQuotaExceededError(error)) throw error;
+        // Pages come oldest first, so the cursor below already covers everything saved so far.
+        rateLimited = true;
+        break;
+      }
+      if (stravaActivities.length === 0) break;
 
-    const stravaActivities = await getStravaActivities(accessToken, { after: afterTimestamp, per_page: 100 });
+      const { newestStartTime } = await saveStravaActivities(userId, stravaActivities);
+      syncedCount += stravaActivities.length;
+      savedActivities.push(...stravaActivities);
+      latestActivityStartTime = Math.max(latestActivityStartTime, newestStartTime);
 
-    if (stravaActivities.length === 0) {
-      return { success: true, message: 'No new activities found on Strava in the last 7 days.', syncedCount: 0 };
+      hasMore = stravaActivities.length === STRAVA_PAGE_SIZE;
+      if (!hasMore) break;
     }
 
-    const normalizedActivities = stravaActivities.map(act => normalizeStravaActivity(act, userId));
+    // [2025-06-29] COMMENT: Update the last successful sync timestamp on the user's profile.
+    // The cursor is saved after the pages are written, so an interrupted sync simply refetches.
+    await userProfileRef.set({ stravaLastSyncTimestamp: Date.now(), stravaLatestActivityStartTime: latestActivityStartTime }, { merge: true });
 
-    // [2025-06-29] COMMENT: Use a batch write to save all normalized activities to Firestore atomically.
-    const batch = adminDb.batch();
-    const activitiesCollectionRef = adminDb.collection('users').doc(userId).collection('activities');
+    if (rateLimited) {
+      return createRateLimitedSyncResult('strava', `${syncedCount} activity/activities`, syncedCount, String(latestActivityStartTime));
+    }
 
-    normalizedActivities.forEach(activity => {
-      const docRef = activitiesCollectionRef.doc(activity.id);
-      batch.set(docRef, activity, { merge: true });
-    });
+    await prefetchRecentStravaStreams(userId, accessToken, savedActivities);
+    const removedCount = await reconcileRecentStravaActivities(userId, accessToken);
+    const removedMessage = removedCount > 0 ? ` Removed ${removedCount} activity/activities deleted on Strava.` : '';
 
-    await batch.commit();
+    if (syncedCount === 0) {
+      return { success: true, message: `No new activities found on Strava since the last sync.${removedMessage}`, syncedCount: 0 };
+    }
 
-    // [2025-06-29] COMMENT: Update the last successful sync timestamp on the user's profile.
+    const message = `Successfully synced ${syncedCount} activity/activities from Strava.${hasMore ? ' More activities remain and will be fetched on the next sync.' : ''}${removedMessage}`;
+    console.log(`[StravaActions] ${message}`);
+    return { success: true, message, syncedCount };
+
+  } catch (error: any) {
+    console.error(`[StravaActions] An error occurred during the Strava sync process for user ${userId}:`, error);
+    return { success: false, message: 'An unexpected error occurred during sync.', error: error.message };
+  }
+}
+
+/**
+ * Imports the user's full Strava history, newest first, paging backwards with the `before` cursor.
+ * Progress is saved on the user's profile after every page, so a call that is interrupted or stops
+ * at the page limit resumes where it left off the next time it is called. Once the oldest activity
+ * has been reached the backfill is marked complete and later calls return immediately.
+ */
+export async function backfillStravaActivities(userId: string): Promise<SyncResult> {
+  if (!userId) {
+    return { success: false, message: 'User not authenticated.' };
+  }
+  return trackSyncRun(userId, { provider: 'strava', trigger: 'manual' }, () => runStravaBackfill(userId));
+}
+
+async function runStravaBackfill(userId: string): Promise<SyncResult> {
+  console.log(`[StravaActions] Starting history backfill for user ${userId}`);
+
+  const accessToken = await getValidStravaAccessToken(userId);
+  if (!accessToken) {
+    return { success: false, message: 'Could not retrieve a valid Strava access token. Please reconnect.' };
+  }
+
+  try {
     const userProfileRef = adminDb.collection('users').doc(userId);
-    await userProfileRef.set({ stravaLastSyncTimestamp: Date.now() }, { merge: true });
+    const userProfile = (await userProfileRef.get()).data() as UserProfile | undefined;
+
+    if (userProfile?.stravaBackfill?.status === 'complete') {
+      return { success: true, message: 'Your full Strava history has already been imported.', syncedCount: 0 };
+    }
+
+    const backfill: StravaBackfillState = userProfile?.stravaBackfill ?? {
+      status: 'in_progress',
+      importedCount: 0,
+      startedAt: new Date().toISOString(),
+    };
+    let latestActivityStartTime = userProfile?.stravaLatestActivityStartTime;
+    let syncedCount = 0;
+
+    for (let page = 0; page < MAX_PAGES_PER_SYNC; page++) {
+      let stravaActivities: StravaActivity[];
+      try {
+        // Paging by 'before' instead of page number keeps the cursor stable if new activities are uploaded mid-backfill.
+        stravaActivities = await getStravaActivities(accessToken, { before: backfill.beforeCursor, per_page: STRAVA_PAGE_SIZE });
+      } catch (error: any) {
+        if (!isApiQuotaExceededError(error)) throw error;
+        // Progress is already saved on the profile, so the next call continues from the same cursor.
+        const resumeCursor = String(backfill.beforeCursor ?? Math.floor(Date.now() / 1000));
+        return createRateLimitedSyncResult('strava', `${syncedCount} older activity/activities`, syncedCount, resumeCursor);
+      }
+
+      if (stravaActivities.length === 0) {
+        backfill.status = 'complete';
+        backfill.completedAt = new Date().toISOString();
+      } else {
+        const { newestStartTime, oldestStartTime } = await saveStravaActivities(userId, stravaActivities);
+        syncedCount += stravaActivities.length;
+        backfill.importedCount += stravaActivities.length;
+        backfill.beforeCursor = oldestStartTime;
+        // The first backfill page holds the newest activities, which also seeds the incremental sync cursor.
+        latestActivityStartTime = Math.max(latestActivityStartTime ?? 0, newestStartTime);
+        if (stravaActivities.length < STRAVA_PAGE_SIZE) {
+          backfill.status = 'complete';
+          backfill.completedAt = new Date().toISOString();
+        }
+      }
+
+      const profileUpdate: Partial<UserProfile> = { stravaBackfill: backfill, stravaLastSyncTimestamp: Date.now() };
+      if (latestActivityStartTime !== undefined) {
+        profileUpdate.stravaLatestActivityStartTime = latestActivityStartTime;
+      }
+      await userProfileRef.set(profileUpdate, { merge: true });
+
+      if (backfill.status === 'complete') break;
+    }
 
-    const message = `Successfully synced ${normalizedActivities.length} activity/activities from Strava.`;
+    const message = backfill.status === 'complete'
+      ? `Strava history import complete. Imported ${backfill.importedCount} activity/activities in total.`
+      : `Imported ${syncedCount} older activity/activities from Strava. Run the import again to continue.`;
     console.log(`[StravaActions] ${message}`);
-    return { success: true, message, syncedCount: normalizedActivities.length };
+    return { success: true, message, syncedCount };
 
   } catch (error: any) {
-    console.error(`[StravaActions] An error occurred during the Strava sync process for user ${userId}:`, error);
+    console.error(`[StravaActions] An error occurred during the Strava backfill for user ${userId}:`, error);
+    return { success: false, message: 'An unexpected error occurred during the Strava history import. Run it again to resume.', error: error.message };
+  }
+}
+
+/**
+ * Fetches a single Strava activity and upserts it into the activities collection.
+ * Used by the Strava webhook for activity create and update events.
+ */
+export async function upsertStravaActivity(userId: string, stravaActivityId: number): Promise<SyncResult> {
+  if (!userId) {
+    return { success: false, message: 'User not authenticated.' };
+  }
+
+  const accessToken = await getValidStravaAccessToken(userId);
+  if (!accessToken) {
+    return { success: false, message: 'Could not retrieve a valid Strava access token. Please reconnect.' };
+  }
+
+  try {
+    const stravaActivity = await getStravaActivityById(accessToken, stravaActivityId);
+    await saveStravaActivities(userId, [stravaActivity]);
+    await prefetchRecentStravaStreams(userId, accessToken, [stravaActivity]);
+    // The incremental cursor is left alone: only the paginated sync moves it, so activities older than this
+    // one that the sync has not fetched yet (or whose events were missed) are still picked up by it.
+
+    console.log(`[StravaActions] Upserted Strava activity ${stravaActivityId} for user ${userId}.`);
+    return { success: true, message: 'Activity synced from Strava.', syncedCount: 1 };
+  } catch (error: any) {
+    console.error(`[StravaActions] Failed to upsert Strava activity ${stravaActivityId} for user ${userId}:`, error);
     return { success: false, message: 'An unexpected error occurred during sync.', error: error.message };
   }
 }
+
+/**
+ * Removes a Strava activity that was deleted on Strava. Delete events are not signed, so the activity is
+ * only removed once Strava confirms that it no longer exists.
+ */
+export async function deleteStravaActivity(userId: string, stravaActivityId: number): Promise<SyncResult> {
+  if (!userId) {
+    return { success: false, message: 'User not authenticated.' };
+  }
+
+  const accessToken = await getValidStravaAccessToken(userId);
+  if (!accessToken) {
+    return { success: false, message: 'Could not retrieve a valid Strava access token. Please reconnect.' };
+  }
+
+  try {
+    try {
+      await getStravaActivityById(accessToken, stravaActivityId);
+      console.warn(`[StravaActions] Not deleting Strava activity ${stravaActivityId} for user ${userId}; Strava still returns it.`);
+      return { success: false, message: 'The activity still exists on Strava, so it was not removed.', error: 'Activity still exists on Strava.' };
+    } catch (error: any) {
+      if (error.status !== 404) throw error;
+    }
+
+    const docRef = adminDb.collection('users').doc(userId).collection('activities').doc(`strava-${stravaActivityId}`);
+    const existing = (await docRef.get()).data() as NormalizedActivityFirestore | undefined;
+    await docRef.delete();
+    await getStreamsDocRef(userId, stravaActivityId).delete();
+    if (existing?.canonicalActivityId) {
+      // Rebuild (or remove) the canonical record this activity was part of.
+      await deduplicateActivities(userId, { from: existing.date, to: existing.date });
+    }
+    console.log(`[StravaActions] Deleted Strava activity ${stravaActivityId} for user ${userId}.`);
+    return { success: true, message: 'Activity removed.', syncedCount: 1 };
+  } catch (error: any) {
+    console.error(`[StravaActions] Failed to delete Strava activity ${stravaActivityId} for user ${userId}:`, error);
+    return { success: false, message: 'An unexpected error occurred while removing the activity.', error: error.message };
+  }
+}
+
+/**
+ * Fetches and stores the streams of a Strava activity that were not fetched during the sync,
+ * e.g. because the activity is older. Used when the activity is opened.
+ * `data` is null if the activity has no recorded streams.
+ */
+export async function fetchStravaActivityStreams(
+  userId: string,
+  stravaActivityId: number
+): Promise<{ success: boolean; data?: ActivityStreamsFirestore | null; error?: string }> {
+  if (!userId) {
+    return { success: false, error: 'User not authenticated.' };
+  }
+
+  const accessToken = await getValidStravaAccessToken(userId);
+  if (!accessToken) {
+    return { success: false, error: 'Could not retrieve a valid Strava access token. Please reconnect.' };
+  }
+
+  try {
+    return { success: true, data: await fetchAndStoreStravaStreams(userId, accessToken, stravaActivityId) };
+  } catch (error: any) {
+    console.error(`[StravaActions] Failed to fetch streams for Strava activity ${stravaActivityId}:`, error);
+    return { success: false, error: isApiQuotaExceededError(error) ? 'The Strava API rate limit was reached. Please try again later.' : 'Failed to fetch the activity details from Strava.' };
+  }
+}
@@ -1,9 +1,64 @@
-
 'use server';
 
-// This file is temporarily cleared to ensure application stability.
-// The complex sync logic will be re-introduced
-// carefully after a stable baseline is established.
+import { adminDb } from '@/lib/firebase/serverApp';
+import { syncConnectedApps } from '@/lib/sync-runner';
+import type { UserProfile, ProviderSyncResult, SyncAllResult } from '@/types';
+
+interface ConnectedAppSyncResult {
+  success: boolean;
+  message: string;
+  result?: ProviderSyncResult;
+  data?: Partial<UserProfile>; // The connection state and sync health after the run
+}
+
+/**
+ * Runs the sync for every fitness app connected on the user's profile.
+ * Providers run independently; a failure in one is reported in its own result entry
+ * and does not abort the others.
+ * @param timeZone (Optional) The browser's IANA time zone; stored on the profile for day-bucketed syncs.
+ */
+export async function syncAllConnectedApps(userId: string, timeZone?: string): Promise<SyncAllResult> {
+  if (!userId) {
+    return { success: false, message: 'User not authenticated.', totalSynced: 0, results: [] };
+  }
+
+  try {
+    return await syncConnectedApps(userId, 'manual', { timeZone });
+  } catch (error: any) {
+    console.error(`[SyncActions] An error occurred while syncing connected apps for user ${userId}:`, error);
+    return { success: false, message: 'An unexpected error occurred during sync.', totalSynced: 0, results: [] };
+  }
+}
+
+/**
+ * Runs the sync for a single connected fitness app, e.g. from its "Sync Now" button.
+ * @param timeZone (Optional) The browser's IANA time zone, used for day-bucketed syncs.
+ */
+export async function syncConnectedApp(userId: string, providerId: string, timeZone?: string): Promise<ConnectedAppSyncResult> {
+  if (!userId) {
+    return { success: false, message: 'User not authenticated.' };
+  }
+
+  try {
+    const syncResult = await syncConnectedApps(userId, 'manual', { timeZone, providerIds: [providerId] });
+    const result = syncResult.results[0];
+    if (!result) {
+      return { success: false, message: syncResult.alreadyRunning ? syncResult.message : 'This app is not connected.' };
+    }
 
-// [2024-08-02] COMMENT: Removed empty export to fix "use server" build error.
-// export {};
+    const updatedProfile = (await adminDb.collection('users').doc(userId).get()).data() as UserProfile | undefined;
+    return {
+      success: result.status !== 'error' && result.status !== 'skipped',
+      message: result.message,
+      result,
+      data: {
+        connectedFitnessApps: updatedProfile?.connectedFitnessApps || [],
+        syncHealth: updatedProfile?.syncHealth || {},
+        nextScheduledSyncAt: updatedProfile?.nextScheduledSyncAt,
+      },
+    };
+  } catch (error: any) {
+    console.error(`[SyncActions] An error occurred while syncing ${providerId} for user ${userId}:`, error);
+    return { success: false, message: 'An unexpected error occurred during sync.' };
+  }
+}
@@ -0,0 +1,328 @@
+'use server';
+
+import { adminDb } from '@/lib/firebase/serverApp';
+import admin from 'firebase-admin';
+import { getValidWithingsAccessToken, moveWithingsCookieTokensToFirestore } from '@/lib/withings-auth-utils';
+import { createRateLimitedSyncResult, isApiQuotaExceededError } from '@/lib/api-quota';
+import {
+  getWithingsMeasurements,
+  getWithingsSleepSummary,
+  decodeWithingsMeasureValue,
+  WithingsMeasureType,
+  type WithingsMeasureGroup,
+  type WithingsSleepSummarySeries,
+} from '@/lib/services/withingsService';
+import { getMinutesAsleepFromStages } from '@/lib/sleep-utils';
+import { DEFAULT_TIME_ZONE, formatDateInTimeZone, getZonedStartOfDayMillis, isValidTimeZone } from '@/lib/timezone-utils';
+import type { BodyMeasurementFirestore, HealthEntry, NormalizedSleepFirestore, NormalizedSleepStage, UserProfile } from '@/types';
+import { addDays, format, parseISO } from 'date-fns';
+
+interface SyncResult {
+  success: boolean;
+  message: string;
+  syncedCount?: number;
+  error?: string;
+  resumeCursor?: string; // Set when the provider's rate limit stopped the sync early; where to resume from
+}
+
+/**
+ * Moves Withings tokens left in cookies by the old cookie-based storage into Firestore for the signed-in
+ * user. The user is taken from the session cookie, so this is safe to expose. Safe to call on every visit.
+ * @returns true if tokens were migrated.
+ */
+export async function migrateWithingsCookieTokens(): Promise<boolean> {
+  return moveWithingsCookieTokensToFirestore();
+}
+
+const MEASURE_TYPES_TO_SYNC = [
+  WithingsMeasureType.WEIGHT,
+  WithingsMeasureType.FAT_RATIO,
+  WithingsMeasureType.MUSCLE_MASS,
+  WithingsMeasureType.SYSTOLIC_BP,
+  WithingsMeasureType.DIASTOLIC_BP,
+  WithingsMeasureType.HEART_PULSE,
+];
+
+// Safety limit on getmeas pages for a single sync.
+const MAX_MEASUREMENT_PAGES = 20;
+// Safety limit on sleep getsummary pages for a single sync.
+const MAX_SLEEP_SUMMARY_PAGES = 10;
+
+async function getUserTimeZone(userId: string): Promise<string> {
+  const userProfile = (await adminDb.collection('users').doc(userId).get()).data() as UserProfile | undefined;
+  return isValidTimeZone(userProfile?.timezone) ? userProfile.timezone : DEFAULT_TIME_ZONE;
+}
+
+/**
+ * Normalizes a Withings measurement group into our body measurement Firestore format.
+ * The date is the calendar day of the measurement in the user's time zone.
+ * Returns null if the group holds none of the measure types we track.
+ */
+function normalizeWithingsMeasureGroup(group: WithingsMeasureGroup, userId: string, timeZone: string): BodyMeasurementFirestore | null {
+  const measuredAt = new Date(group.date * 1000);
+  const measurement: BodyMeasurementFirestore = {
+    id: `withings-${group.grpid}`,
+    userId: userId,
+    originalId: String(group.grpid),
+    dataSource: 'withings',
+    measuredAtUtc: measuredAt.toISOString(),
+    date: formatDateInTimeZone(measuredAt.getTime(), timeZone),
+    lastFetched: new Date().toISOString(),
+  };
+
+  let hasTrackedMeasure = false;
+  for (const measure of group.measures || []) {
+    const value = decodeWithingsMeasureValue(measure);
+    switch (measure.type) {
+      case WithingsMeasureType.WEIGHT:
+        measurement.weightKg = value;
+        break;
+      case WithingsMeasureType.FAT_RATIO:
+        measurement.fatRatioPercent = value;
+        break;
+      case WithingsMeasureType.MUSCLE_MASS:
+        measurement.muscleMassKg = value;
+        break;
+      case WithingsMeasureType.SYSTOLIC_BP:
+        measurement.systolicBloodPressureMmHg = value;
+        break;
+      case WithingsMeasureType.DIASTOLIC_BP:
+        measurement.diastolicBloodPressureMmHg = value;
+        break;
+      case WithingsMeasureType.HEART_PULSE:
+        measurement.heartRateBpm = value;
+        break;
+      default:
+        continue;
+    }
+    hasTrackedMeasure = true;
+  }
+
+  return hasTrackedMeasure ? measurement : null;
+}
+
+/**
+ * Converts a stored body measurement into timeline entries (one per metric it holds).
+ */
+function measurementToHealthEntries(measurement: BodyMeasurementFirestore): HealthEntry[] {
+  const base = { date: measurement.measuredAtUtc, source: measurement.dataSource as HealthEntry['source'] };
+  const entries: HealthEntry[] = [];
+
+  if (measurement.weightKg !== undefined) {
+    entries.push({ ...base, id: `${measurement.id}-weight`, type: 'weight', title: 'Weight', value: measurement.weightKg, unit: 'kg' });
+  }
+  if (measurement.fatRatioPercent !== undefined) {
+    entries.push({ ...base, id: `${measurement.id}-bodyFat`, type: 'bodyFat', title: 'Body Fat', value: measurement.fatRatioPercent, unit: '%' });
+  }
+  if (measurement.muscleMassKg !== undefined) {
+    entries.push({ ...base, id: `${measurement.id}-muscleMass`, type: 'muscleMass', title: 'Muscle Mass', value: measurement.muscleMassKg, unit: 'kg' });
+  }
+  if (measurement.systolicBloodPressureMmHg !== undefined && measurement.diastolicBloodPressureMmHg !== undefined) {
+    entries.push({
+      ...base,
+      id: `${measurement.id}-bloodPressure`,
+      type: 'bloodPressure',
+      title: 'Blood Pressure',
+      value: { systolic: measurement.systolicBloodPressureMmHg, diastolic: measurement.diastolicBloodPressureMmHg },
+      unit: 'mmHg',
+    });
+  }
+  if (measurement.heartRateBpm !== undefined) {
+    entries.push({ ...base, id: `${measurement.id}-pulse`, type: 'pulse', title: 'Heart Rate', value: measurement.heartRateBpm, unit: 'bpm' });
+  }
+  return entries;
+}
+
+/**
+ * Fetches body measurements (weight, body composition, blood pressure, heart rate) from Withings
+ * for a date range and stores them in the measurements collection.
+ */
+export async function syncWithingsMeasurements(userId: string, startDate: string, endDate: string): Promise<SyncResult> {
+  if (!userId) {
+    return { success: false, message: 'User not authenticated.' };
+  }
+
+  console.log(`[WithingsActions] Starting measurement sync for user ${userId} from ${startDate} to ${endDate}`);
+
+  const accessToken = await getValidWithingsAccessToken(userId);
+  if (!accessToken) {
+    return { success: false, message: 'Could not retrieve a valid Withings access token. Please reconnect.' };
+  }
+
+  try {
+    const timeZone = await getUserTimeZone(userId);
+    const startdate = Math.floor(getZonedStartOfDayMillis(startDate, timeZone) / 1000);
+    const enddate = Math.floor(getZonedStartOfDayMillis(format(addDays(parseISO(endDate), 1), 'yyyy-MM-dd'), timeZone) / 1000) - 1;
+
+    const groups: WithingsMeasureGroup[] = [];
+    let offset: number | undefined;
+    for (let page = 0; page < MAX_MEASUREMENT_PAGES; page++) {
+      const response = await getWithingsMeasurements(accessToken, { startdate, enddate, meastypes: MEASURE_TYPES_TO_SYNC, offset });
+      groups.push(...(response.measuregrps || []));
+      if (!response.more || !response.offset) break;
+      offset = response.offset;
+    }
+
+    const measurements = groups
+      .map(group => normalizeWithingsMeasureGroup(group, userId, timeZone))
+      .filter((m): m is BodyMeasurementFirestore => m !== null);
+
+    if (measurements.length === 0) {
+      return { success: true, message: 'No new measurements found on Withings in the selected date range.', syncedCount: 0 };
+    }
+
+    const batch = adminDb.batch();
+    const measurementsCollectionRef = adminDb.collection('users').doc(userId).collection('measurements');
+
+    measurements.forEach(measurement => {
+      const docRef = measurementsCollectionRef.doc(measurement.id);
+      batch.set(docRef, measurement, { merge: true });
+    });
+
+    await batch.commit();
+
+    const message = `Successfully synced ${measurements.length} measurement(s) from Withings.`;
+    console.log(`[WithingsActions] ${message}`);
+    return { success: true, message, syncedCount: measurements.length };
+
+  } catch (error: any) {
+    if (isApiQuotaExceededError(error)) {
+      // Measurements are written in one batch at the end, so nothing from this range was stored yet.
+      return createRateLimitedSyncResult('withings', '0 measurements', 0, startDate);
+    }
+    console.error(`[WithingsActions] An error occurred during the Withings sync process for user ${userId}:`, error);
+    return { success: false, message: 'An unexpected error occurred during sync.', error: error.message };
+  }
+}
+
+function secondsToMinutes(seconds: number | undefined): number | undefined {
+  return seconds === undefined ? undefined : Math.round(seconds / 60);
+}
+
+/**
+ * Converts a Withings nightly sleep summary into the source-agnostic sleep format.
+ * Summaries carry stage totals but no stage segments.
+ */
+function normalizeWithingsSleepSummary(series: WithingsSleepSummarySeries, userId: string): NormalizedSleepFirestore {
+  const data = series.data || {};
+  const stageMinutes: Partial<Record<NormalizedSleepStage, number>> = Object.fromEntries(
+    Object.entries({
+      light: secondsToMinutes(data.lightsleepduration),
+      deep: secondsToMinutes(data.deepsleepduration),
+      rem: secondsToMinutes(data.remsleepduration),
+      awake: secondsToMinutes(data.wakeupduration),
+    }).filter(([, value]) => value !== undefined)
+  );
+  // Older summaries have no id, but a user has at most one summary per start time.
+  const originalId = String(series.id ?? series.startdate);
+
+  const sleep: NormalizedSleepFirestore = {
+    id: `withings-${originalId}`,
+    userId: userId,
+    originalId,
+    dataSource: 'withings',
+    dateOfSleep: series.date,
+    startTimeUtc: new Date(series.startdate * 1000).toISOString(),
+    endTimeUtc: new Date(series.enddate * 1000).toISOString(),
+    timezone: series.timezone,
+    durationSec: data.total_timeinbed ?? (series.enddate - series.startdate),
+    minutesAsleep: secondsToMinutes(data.total_sleep_time) ?? (Object.keys(stageMinutes).length > 0 ? getMinutesAsleepFromStages(stageMinutes) : undefined),
+    minutesAwake: secondsToMinutes(data.wakeupduration),
+    minutesToFallAsleep: secondsToMinutes(data.durationtosleep),
+    efficiencyPercent: data.sleep_efficiency !== undefined ? Math.round(data.sleep_efficiency * 100) : undefined,
+    isMainSleep: true,
+    stageMinutes: Object.keys(stageMinutes).length > 0 ? stageMinutes : undefined,
+    lastFetched: new Date().toISOString(),
+  };
+  return Object.fromEntries(
+    Object.entries(sleep).filter(([, value]) => value !== undefined)
+  ) as NormalizedSleepFirestore;
+}
+
+/**
+ * Fetches nightly sleep summaries from Withings for a date range and stores them in the normalized sleep collection.
+ */
+export async function syncWithingsSleep(userId: string, startDate: string, endDate: string): Promise<SyncResult> {
+  if (!userId) {
+    return { success: false, message: 'User not authenticated.' };
+  }
+
+  console.log(`[WithingsActions] Starting sleep sync for user ${userId} from ${startDate} to ${endDate}`);
+
+  const accessToken = await getValidWithingsAccessToken(userId);
+  if (!accessToken) {
+    return { success: false, message: 'Could not retrieve a valid Withings access token. Please reconnect.' };
+  }
+
+  try {
+    const series: WithingsSleepSummarySeries[] = [];
+    let offset: number | undefined;
+    for (let page = 0; page < MAX_SLEEP_SUMMARY_PAGES; page++) {
+      const response = await getWithingsSleepSummary(accessToken, { startdateymd: startDate, enddateymd: endDate, offset });
+      series.push(...(response.series || []));
+      if (!response.more || !response.offset) break;
+      offset = response.offset;
+    }
+
+    if (series.length === 0) {
+      return { success: true, message: 'No new sleep summaries found on Withings in the selected date range.', syncedCount: 0 };
+    }
+
+    const batch = adminDb.batch();
+    const sleepCollectionRef = adminDb.collection('users').doc(userId).collection('sleep');
+
+    series.forEach(summary => {
+      const sleep = normalizeWithingsSleepSummary(summary, userId);
+      batch.set(sleepCollectionRef.doc(sleep.id), sleep);
+    });
+
+    await batch.commit();
+
+    const message = `Successfully synced ${series.length} sleep summary/summaries from Withings.`;
+    console.log(`[WithingsActions] ${message}`);
+    return { success: true, message, syncedCount: series.length };
+
+  } catch (error: any) {
+    if (isApiQuotaExceededError(error)) {
+      return createRateLimitedSyncResult('withings', '0 sleep summaries', 0, startDate);
+    }
+    console.error(`[WithingsActions] An error occurred during the Withings sleep sync for user ${userId}:`, error);
+    return { success: false, message: 'An unexpected error occurred during sleep sync.', error: error.message };
+  }
+}
+
+interface GetMeasurementEntriesResponse {
+  success: boolean;
+  data?: HealthEntry[];
+  error?: string;
+}
+
+/**
+ * Returns stored body measurements as timeline entries.
+ */
+export async function getMeasurementTimelineEntries(
+  userId: string,
+  dateRange?: { from: string; to: string }
+): Promise<GetMeasurementEntriesResponse> {
+  if (!userId) {
+    return { success: false, error: 'User not authenticated.' };
+  }
+
+  try {
+    let q: admin.firestore.Query = adminDb.collection('users').doc(userId).collection('measurements');
+    if (dateRange) {
+      q = q.where('date', '>=', dateRange.from).where('date', '<=', dateRange.to);
+    }
+
+    const querySnapshot = await q.get();
+    const entries: HealthEntry[] = [];
+    querySnapshot.forEach((docSnap) => {
+      entries.push(...measurementToHealthEntries(docSnap.data() as BodyMeasurementFirestore));
+    });
+
+    return { success: true, data: entries };
+  } catch (error: any) {
+    console.error(`[WithingsActions] Error fetching measurements from Firestore for user ${userId}:`, error);
+    return { success: false, error: `Failed to fetch measurements: ${String(error.message || 'Unknown Firestore error')}` };
+  }
+}
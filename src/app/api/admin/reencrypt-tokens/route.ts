@@ -0,0 +1,27 @@
+// This API route re-encrypts all stored provider tokens with the current token encryption key.
+// Call it after rotating TOKEN_ENCRYPTION_KEY (with the old key kept in TOKEN_ENCRYPTION_PREVIOUS_KEYS):
+//   curl -X POST -H "Authorization: Bearer $ADMIN_API_SECRET" <app url>/api/admin/reencrypt-tokens
+import type { NextRequest } from 'next/server';
+import { NextResponse } from 'next/server';
+import { reencryptAllProviderTokens } from '@/lib/token-store';
+import { isAuthorizedBearer } from '@/lib/request-auth';
+
+export async function POST(request: NextRequest) {
+  const adminSecret = process.env.ADMIN_API_SECRET;
+  if (!adminSecret) {
+    console.error('[Reencrypt Tokens] ADMIN_API_SECRET is not configured.');
+    return NextResponse.json({ error: 'Server configuration error.' }, { status: 500 });
+  }
+
+  if (!isAuthorizedBearer(request.headers.get('authorization'), adminSecret)) {
+    return NextResponse.json({ error: 'Unauthorized.' }, { status: 401 });
+  }
+
+  try {
+    const result = await reencryptAllProviderTokens();
+    return NextResponse.json(result, { status: result.failed > 0 ? 500 : 200 });
+  } catch (error: any) {
+    console.error('[Reencrypt Tokens] Re-encryption failed:', error);
+    return NextResponse.json({ error: error.message || 'Re-encryption failed.' }, { status: 500 });
+  }
+}
@@ -0,0 +1,74 @@
+// This API route handles the OAuth 2.0 callback for any provider in the OAuth provider registry.
+import type { NextRequest } from 'next/server';
+import { NextResponse } from 'next/server';
+import { cookies } from 'next/headers';
+import { getFirebaseUserFromCookie } from '@/lib/firebase/serverApp';
+import { getOAuthClientCredentials, getOAuthProvider, getOAuthRedirectUri, getOAuthResultUrl, requestOAuthTokens } from '@/lib/oauth/providers';
+import { consumeOAuthStateCookie, getOAuthStateSecret } from '@/lib/oauth/state';
+import { completeOAuthConnection } from '@/lib/oauth/connections';
+
+export async function GET(request: NextRequest, { params }: { params: { provider: string } }) {
+  const provider = getOAuthProvider(params.provider);
+  if (!provider) {
+    return NextResponse.json({ error: `Unknown provider: ${params.provider}` }, { status: 404 });
+  }
+
+  const searchParams = request.nextUrl.searchParams;
+  const code = searchParams.get('code');
+  const state = searchParams.get('state');
+  const error = searchParams.get('error');
+  const logPrefix = `[OAuth Callback] [${provider.name}]`;
+
+  const stateSecret = getOAuthStateSecret();
+  if (!stateSecret || !getOAuthClientCredentials(provider)) {
+    console.error(`${logPrefix} Client credentials or OAUTH_STATE_SECRET are not configured.`);
+    return NextResponse.redirect(getOAuthResultUrl(provider, request, { error: 'server_config_error' }));
+  }
+
+  // Always consumes the state cookie, so it cannot be replayed even if the provider reported an error.
+  const stateValidation = consumeOAuthStateCookie(provider.id, state, stateSecret);
+
+  if (error) {
+    console.error(`${logPrefix} Error from provider:`, error);
+    return NextResponse.redirect(getOAuthResultUrl(provider, request, { error }));
+  }
+
+  if (!stateValidation.valid) {
+    console.error(`${logPrefix} Invalid OAuth state:`, stateValidation.reason);
+    return NextResponse.redirect(getOAuthResultUrl(provider, request, { error: 'invalid_state' }));
+  }
+
+  if (!code) {
+    console.error(`${logPrefix} No authorization code received.`);
+    return NextResponse.redirect(getOAuthResultUrl(provider, request, { error: 'missing_code' }));
+  }
+
+  try {
+    const tokens = await requestOAuthTokens(provider, {
+      grant_type: 'authorization_code',
+      code,
+      redirect_uri: getOAuthRedirectUri(provider, request),
+      ...(stateValidation.codeVerifier ? { code_verifier: stateValidation.codeVerifier } : {}),
+    });
+
+    // Syncs run without the user present, so a connection without a refresh token would stop working within hours.
+    if (!tokens.refreshToken) {
+      console.error(`${logPrefix} Token response did not include a refresh token.`);
+      return NextResponse.redirect(getOAuthResultUrl(provider, request, { error: 'incomplete_token_data' }));
+    }
+
+    const firebaseUser = await getFirebaseUserFromCookie(cookies());
+    if (!firebaseUser) {
+      return NextResponse.redirect(getOAuthResultUrl(provider, request, { error: 'auth_required' }));
+    }
+
+    await completeOAuthConnection(firebaseUser.uid, provider, tokens);
+    console.log(`${logPrefix} Connected for user ${firebaseUser.uid}.`);
+
+    return NextResponse.redirect(getOAuthResultUrl(provider, request, { connected: true }));
+
+  } catch (err: any) {
+    console.error(`${logPrefix} Exception during token exchange:`, err.message, err.details || '');
+    return NextResponse.redirect(getOAuthResultUrl(provider, request, { error: err.message || 'unknown_exception' }));
+  }
+}
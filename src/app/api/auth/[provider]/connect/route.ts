@@ -0,0 +1,41 @@
+// This API route starts the OAuth 2.0 authorization flow for any provider in the OAuth provider registry.
+import { NextResponse, type NextRequest } from 'next/server';
+import { getOAuthClientCredentials, getOAuthProvider, getOAuthRedirectUri } from '@/lib/oauth/providers';
+import { createOAuthState, createPkcePair, getOAuthStateSecret, setOAuthStateCookie } from '@/lib/oauth/state';
+
+export async function GET(request: NextRequest, { params }: { params: { provider: string } }) {
+  const provider = getOAuthProvider(params.provider);
+  if (!provider) {
+    return NextResponse.json({ error: `Unknown provider: ${params.provider}` }, { status: 404 });
+  }
+
+  const credentials = getOAuthClientCredentials(provider);
+  const stateSecret = getOAuthStateSecret();
+  if (!credentials || !stateSecret) {
+    console.error(`${provider.name} OAuth configuration is missing. Required: ${provider.clientIdEnv}, ${provider.clientSecretEnv}, OAUTH_STATE_SECRET.`);
+    return NextResponse.json({ error: `Server configuration error for ${provider.name} OAuth.` }, { status: 500 });
+  }
+
+  const state = createOAuthState();
+  const pkce = provider.supportsPkce ? createPkcePair() : null;
+
+  const authorizationUrl = new URL(provider.authorizeUrl);
+  authorizationUrl.searchParams.append('response_type', 'code');
+  authorizationUrl.searchParams.append('client_id', credentials.clientId);
+  authorizationUrl.searchParams.append('redirect_uri', getOAuthRedirectUri(provider, request));
+  authorizationUrl.searchParams.append('scope', provider.scopes.join(provider.scopeSeparator));
+  authorizationUrl.searchParams.append('state', state);
+  if (pkce) {
+    authorizationUrl.searchParams.append('code_challenge', pkce.codeChallenge);
+    authorizationUrl.searchParams.append('code_challenge_method', 'S256');
+  }
+  for (const [name, value] of Object.entries(provider.extraAuthorizeParams || {})) {
+    authorizationUrl.searchParams.append(name, value);
+  }
+
+  console.log(`[OAuth Connect] Redirecting to ${provider.name} for authorization.`);
+
+  const response = NextResponse.redirect(authorizationUrl.toString());
+  setOAuthStateCookie(response, provider.id, { state, codeVerifier: pkce?.codeVerifier }, stateSecret);
+  return response;
+}
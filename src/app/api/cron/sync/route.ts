@@ -0,0 +1,30 @@
+// This API route runs the scheduled background sync for every user whose sync is due.
+// Call it from a scheduler every few minutes, e.g. a Vercel cron job or Cloud Scheduler:
+//   curl -H "Authorization: Bearer $CRON_SECRET" <app url>/api/cron/sync
+import type { NextRequest } from 'next/server';
+import { NextResponse } from 'next/server';
+import { runDueScheduledSyncs } from '@/lib/scheduled-sync';
+import { isAuthorizedBearer } from '@/lib/request-auth';
+
+// Syncing a batch of users takes a while; allow the route to run past the default limit where supported.
+export const maxDuration = 300;
+
+export async function GET(request: NextRequest) {
+  const cronSecret = process.env.CRON_SECRET;
+  if (!cronSecret) {
+    console.error('[Scheduled Sync] CRON_SECRET is not configured.');
+    return NextResponse.json({ error: 'Server configuration error.' }, { status: 500 });
+  }
+
+  if (!isAuthorizedBearer(request.headers.get('authorization'), cronSecret)) {
+    return NextResponse.json({ error: 'Unauthorized.' }, { status: 401 });
+  }
+
+  try {
+    const summary = await runDueScheduledSyncs();
+    return NextResponse.json(summary);
+  } catch (error: any) {
+    console.error('[Scheduled Sync] Scheduled sync failed:', error);
+    return NextResponse.json({ error: error.message || 'Scheduled sync failed.' }, { status: 500 });
+  }
+}
@@ -0,0 +1,110 @@
+
+// This API route is the Fitbit Subscriptions API subscriber endpoint
+// (https://dev.fitbit.com/build/reference/web-api/developer-guide/using-subscriptions/).
+import type { NextRequest } from 'next/server';
+import { NextResponse } from 'next/server';
+import { createHmac, timingSafeEqual } from 'crypto';
+import { adminDb } from '@/lib/firebase/serverApp';
+import { processFitbitSyncQueue } from '@/app/actions/fitbitActions';
+import { trackSyncRun } from '@/lib/connection-health';
+import type { FitbitCollectionType, FitbitSyncQueueItemFirestore } from '@/types';
+
+interface FitbitNotification {
+  collectionType: string;
+  date: string; // YYYY-MM-DD
+  ownerId: string; // Fitbit user ID
+  ownerType: string;
+  subscriptionId: string;
+}
+
+const SUPPORTED_COLLECTIONS = new Set<string>(['activities', 'sleep', 'body']);
+
+// Fitbit signs the raw body with HMAC-SHA1, keyed by the client secret followed by '&'.
+function isValidSignature(rawBody: string, signature: string | null, clientSecret: string): boolean {
+  if (!signature) return false;
+  const expected = createHmac('sha1', `${clientSecret}&`).update(rawBody).digest();
+  const received = Buffer.from(signature, 'base64');
+  return received.length === expected.length && timingSafeEqual(received, expected);
+}
+
+async function findUserIdByFitbitUserId(fitbitUserId: string): Promise<string | null> {
+  const snapshot = await adminDb.collection('users').where('fitbitUserId', '==', fitbitUserId).limit(1).get();
+  return snapshot.empty ? null : snapshot.docs[0].id;
+}
+
+// Subscriber verification: Fitbit expects 204 for the correct code and 404 for anything else.
+export async function GET(request: NextRequest) {
+  const verificationCode = process.env.FITBIT_SUBSCRIBER_VERIFICATION_CODE;
+  if (!verificationCode) {
+    console.error('[Fitbit Webhook] FITBIT_SUBSCRIBER_VERIFICATION_CODE is not configured.');
+    return new NextResponse(null, { status: 404 });
+  }
+
+  const verify = request.nextUrl.searchParams.get('verify');
+  return new NextResponse(null, { status: verify === verificationCode ? 204 : 404 });
+}
+
+export async function POST(request: NextRequest) {
+  const clientSecret = process.env.FITBIT_CLIENT_SECRET;
+  if (!clientSecret) {
+    console.error('[Fitbit Webhook] FITBIT_CLIENT_SECRET is not configured.');
+    return NextResponse.json({ error: 'Server configuration error.' }, { status: 500 });
+  }
+
+  const rawBody = await request.text();
+  if (!isValidSignature(rawBody, request.headers.get('x-fitbit-signature'), clientSecret)) {
+    // Fitbit recommends answering 404 so that forged requests learn nothing about the endpoint.
+    console.warn('[Fitbit Webhook] Rejected notification with an invalid signature.');
+    return new NextResponse(null, { status: 404 });
+  }
+
+  let notifications: FitbitNotification[];
+  try {
+    notifications = JSON.parse(rawBody);
+  } catch {
+    return NextResponse.json({ error: 'Invalid JSON body.' }, { status: 400 });
+  }
+
+  const affectedUserIds = new Set<string>();
+  const userIdsByOwner = new Map<string, string | null>();
+
+  try {
+    for (const notification of notifications) {
+      if (!SUPPORTED_COLLECTIONS.has(notification.collectionType)) continue;
+
+      if (!userIdsByOwner.has(notification.ownerId)) {
+        userIdsByOwner.set(notification.ownerId, await findUserIdByFitbitUserId(notification.ownerId));
+      }
+      const userId = userIdsByOwner.get(notification.ownerId);
+      if (!userId) {
+        console.warn(`[Fitbit Webhook] No user found for Fitbit user ${notification.ownerId}.`);
+        continue;
+      }
+
+      // One queue document per collection and date, so repeated notifications collapse into a single re-sync.
+      const queueItem: FitbitSyncQueueItemFirestore = {
+        collectionType: notification.collectionType as FitbitCollectionType,
+        date: notification.date,
+        queuedAt: new Date().toISOString(),
+      };
+      await adminDb.collection('users').doc(userId).collection('fitbit_sync_queue')
+        .doc(`${queueItem.collectionType}_${queueItem.date}`)
+        .set(queueItem, { merge: true });
+      affectedUserIds.add(userId);
+    }
+  } catch (error: any) {
+    console.error('[Fitbit Webhook] Error while queueing notifications:', error);
+    // Let Fitbit retry the whole batch later.
+    return NextResponse.json({ error: 'Failed to queue notifications.' }, { status: 500 });
+  }
+
+  // Fitbit requires an answer within 5 seconds, so the re-syncs are started without waiting for them. Anything that
+  // does not finish stays queued and is picked up by the user's next sync.
+  affectedUserIds.forEach(userId => {
+    trackSyncRun(userId, { provider: 'fitbit', trigger: 'webhook' }, () => processFitbitSyncQueue(userId)).catch(error => {
+      console.error(`[Fitbit Webhook] Failed to process sync queue for user ${userId}:`, error);
+    });
+  });
+
+  return new NextResponse(null, { status: 204 });
+}
@@ -0,0 +1,117 @@
+
+// This API route receives Strava push subscription events (https://developers.strava.com/docs/webhooks/).
+import type { NextRequest } from 'next/server';
+import { NextResponse } from 'next/server';
+import { adminDb } from '@/lib/firebase/serverApp';
+import { trackSyncRun } from '@/lib/connection-health';
+import { refreshStravaTokens } from '@/lib/strava-auth-utils';
+import { upsertStravaActivity, deleteStravaActivity } from '@/app/actions/stravaActions';
+import type { UserProfile } from '@/types';
+
+interface StravaWebhookEvent {
+  object_type: 'activity' | 'athlete';
+  object_id: number;
+  aspect_type: 'create' | 'update' | 'delete';
+  owner_id: number; // Strava athlete ID
+  subscription_id: number;
+  event_time: number; // Unix seconds
+  updates?: Record<string, string>;
+}
+
+async function findUserIdByStravaAthleteId(athleteId: number): Promise<string | null> {
+  const snapshot = await adminDb.collection('users').where('stravaAthleteId', '==', athleteId).limit(1).get();
+  return snapshot.empty ? null : snapshot.docs[0].id;
+}
+
+// Keeps the connection on the profile but flags it, so the UI can ask the user to reconnect.
+// Webhook events are not signed, so the event alone is not trusted: access only counts as revoked
+// once Strava also refuses to refresh the tokens.
+async function markStravaConnectionRevoked(userId: string) {
+  if (await refreshStravaTokens(userId)) {
+    console.warn(`[Strava Webhook] Ignoring deauthorization event for user ${userId}; Strava still refreshes their tokens.`);
+    return;
+  }
+
+  const userRef = adminDb.collection('users').doc(userId);
+  const userSnap = await userRef.get();
+  if (!userSnap.exists) return;
+
+  const userProfile = userSnap.data() as UserProfile;
+  const revokedAt = new Date().toISOString();
+  const updatedConnections = (userProfile.connectedFitnessApps || []).map(conn =>
+    conn.id === 'strava' ? { ...conn, revokedAt } : conn
+  );
+
+  await userRef.update({ connectedFitnessApps: updatedConnections });
+  // The tokens are kept; reconnecting replaces them and disconnecting deletes them.
+  console.log(`[Strava Webhook] Marked Strava connection as revoked for user ${userId}.`);
+}
+
+// Subscription validation: Strava echoes back hub.challenge once the verify token matches.
+export async function GET(request: NextRequest) {
+  const searchParams = request.nextUrl.searchParams;
+  const mode = searchParams.get('hub.mode');
+  const verifyToken = searchParams.get('hub.verify_token');
+  const challenge = searchParams.get('hub.challenge');
+
+  const expectedVerifyToken = process.env.STRAVA_WEBHOOK_VERIFY_TOKEN;
+  if (!expectedVerifyToken) {
+    console.error('[Strava Webhook] STRAVA_WEBHOOK_VERIFY_TOKEN is not configured.');
+    return NextResponse.json({ error: 'Server configuration error.' }, { status: 500 });
+  }
+
+  if (mode !== 'subscribe' || verifyToken !== expectedVerifyToken || !challenge) {
+    console.warn('[Strava Webhook] Rejected subscription validation request.');
+    return NextResponse.json({ error: 'Invalid verification request.' }, { status: 403 });
+  }
+
+  return NextResponse.json({ 'hub.challenge': challenge });
+}
+
+export async function POST(request: NextRequest) {
+  let event: StravaWebhookEvent;
+  try {
+    event = await request.json();
+  } catch {
+    return NextResponse.json({ error: 'Invalid JSON body.' }, { status: 400 });
+  }
+
+  const expectedSubscriptionId = process.env.STRAVA_WEBHOOK_SUBSCRIPTION_ID?.trim();
+  if (!expectedSubscriptionId) {
+    console.error('[Strava Webhook] STRAVA_WEBHOOK_SUBSCRIPTION_ID is not configured.');
+    return NextResponse.json({ error: 'Server configuration error.' }, { status: 500 });
+  }
+  if (String(event.subscription_id) !== expectedSubscriptionId) {
+    console.warn('[Strava Webhook] Ignoring event for unknown subscription:', event.subscription_id);
+    return NextResponse.json({ error: 'Unknown subscription.' }, { status: 403 });
+  }
+
+  console.log(`[Strava Webhook] Received ${event.object_type} ${event.aspect_type} event for object ${event.object_id} (athlete ${event.owner_id}).`);
+
+  try {
+    const userId = await findUserIdByStravaAthleteId(event.owner_id);
+    if (!userId) {
+      // Acknowledge anyway; Strava retries events that are not answered with a 200.
+      console.warn(`[Strava Webhook] No user found for Strava athlete ${event.owner_id}.`);
+      return NextResponse.json({ received: true });
+    }
+
+    if (event.object_type === 'athlete') {
+      if (event.updates?.authorized === 'false') {
+        await markStravaConnectionRevoked(userId);
+      }
+    } else if (event.object_type === 'activity') {
+      const result = await trackSyncRun(userId, { provider: 'strava', trigger: 'webhook' }, () =>
+        event.aspect_type === 'delete' ? deleteStravaActivity(userId, event.object_id) : upsertStravaActivity(userId, event.object_id)
+      );
+      if (!result.success) {
+        console.error(`[Strava Webhook] Failed to sync activity ${event.object_id}:`, result.error || result.message);
+      }
+    }
+  } catch (error: any) {
+    console.error('[Strava Webhook] Error while processing event:', error);
+  }
+
+  // Strava expects a 200 within two seconds; failures are logged and picked up by the next routine sync.
+  return NextResponse.json({ received: true });
+}
@@ -0,0 +1,185 @@
+'use client';
+
+import React, { useEffect, useMemo, useState } from 'react';
+import type { ActivityStreamsFirestore, NormalizedActivityFirestore } from '@/types';
+import { Button } from '@/components/ui/button';
+import { Dialog, DialogContent, DialogDescription, DialogHeader, DialogTitle } from '@/components/ui/dialog';
+import { Table, TableBody, TableCell, TableHead, TableHeader, TableRow } from '@/components/ui/table';
+import { ChartContainer, ChartTooltip, ChartTooltipContent, type ChartConfig } from '@/components/ui/chart';
+import { LineChart, Line, XAxis, YAxis, CartesianGrid } from 'recharts';
+import { LineChart as LineChartIcon, Loader2 } from 'lucide-react';
+import { useAuth } from '@/hooks/useAuth';
+import { getActivityStreams } from '@/app/actions/activityStreamActions';
+import { computeSplits } from '@/lib/activity-splits';
+import { format, parseISO } from 'date-fns';
+
+interface ActivityDetailsDialogProps {
+  activity: NormalizedActivityFirestore;
+}
+
+// Below this speed the pace is meaningless (e.g. standing still) and is left out of the chart.
+const MIN_SPEED_FOR_PACE_MPS = 0.5;
+
+interface StreamChartDef {
+  key: 'heartRate' | 'pace' | 'altitude' | 'cadence';
+  label: string;
+  unit: string;
+  color: string;
+  reversed?: boolean; // Lower is better (pace), so the axis is flipped
+}
+
+const STREAM_CHARTS: StreamChartDef[] = [
+  { key: 'heartRate', label: 'Heart Rate', unit: 'bpm', color: 'hsl(var(--chart-1))' },
+  { key: 'pace', label: 'Pace', unit: 'min/km', color: 'hsl(var(--chart-2))', reversed: true },
+  { key: 'altitude', label: 'Altitude', unit: 'm', color: 'hsl(var(--chart-3))' },
+  { key: 'cadence', label: 'Cadence', unit: '/min', color: 'hsl(var(--chart-4))' },
+];
+
+function formatPace(secPerKm: number): string {
+  const minutes = Math.floor(secPerKm / 60);
+  const seconds = Math.round(secPerKm % 60);
+  return seconds === 60 ? `${minutes + 1}:00` : `${minutes}:${String(seconds).padStart(2, '0')}`;
+}
+
+export default function ActivityDetailsDialog({ activity }: ActivityDetailsDialogProps) {
+  const { user } = useAuth();
+  const [open, setOpen] = useState(false);
+  const [streams, setStreams] = useState<ActivityStreamsFirestore | null | undefined>(undefined);
+  const [error, setError] = useState<string | null>(null);
+
+  // Streams are loaded the first time the dialog is opened.
+  useEffect(() => {
+    if (!open || !user || streams !== undefined) return;
+    getActivityStreams(user.uid, activity.id).then(result => {
+      if (result.success) {
+        setStreams(result.data ?? null);
+      } else {
+        setError(result.error || 'Could not load the activity details.');
+        setStreams(null);
+      }
+    });
+  }, [open, user, activity.id, streams]);
+
+  const useDistanceAxis = !!streams?.distanceMeters;
+
+  const chartData = useMemo(() => {
+    if (!streams) return [];
+    return streams.timeSec.map((timeSec, i) => {
+      const velocity = streams.velocityMetersPerSec?.[i];
+      return {
+        x: useDistanceAxis ? streams.distanceMeters![i] / 1000 : timeSec / 60,
+        heartRate: streams.heartRateBpm?.[i],
+        pace: velocity !== undefined && velocity >= MIN_SPEED_FOR_PACE_MPS ? 1000 / velocity / 60 : undefined,
+        altitude: streams.altitudeMeters?.[i],
+        cadence: streams.cadence?.[i],
+      };
+    });
+  }, [streams, useDistanceAxis]);
+
+  const availableCharts = STREAM_CHARTS.filter(chart => chartData.some(point => point[chart.key] !== undefined));
+  const splits = useMemo(() => (streams ? computeSplits(streams) : []), [streams]);
+
+  return (
+    <>
+      <Button variant="ghost" size="sm" className="h-7 px-2" onClick={() => setOpen(true)}>
+        <LineChartIcon className="h-4 w-4 mr-1" /> Details
+      </Button>
+      <Dialog open={open} onOpenChange={setOpen}>
+        <DialogContent className="max-w-3xl max-h-[90vh] overflow-y-auto">
+          <DialogHeader>
+            <DialogTitle>{activity.name || 'Activity Details'}</DialogTitle>
+            <DialogDescription>{format(parseISO(activity.startTimeUtc), 'PPpp')}</DialogDescription>
+          </DialogHeader>
+
+          {streams === undefined ? (
+            <div className="flex items-center justify-center py-10 text-muted-foreground">
+              <Loader2 className="h-6 w-6 animate-spin mr-2" /> Loading activity details...
+            </div>
+          ) : error ? (
+            <p className="text-sm text-destructive">{error}</p>
+          ) : !streams ? (
+            <p className="text-sm text-muted-foreground">
+              No detailed recording is available for this activity. Detailed charts need an activity recorded with GPS or sensors.
+            </p>
+          ) : (
+            <div className="space-y-6">
+              {availableCharts.map(chart => (
+                <div key={chart.key}>
+                  <h4 className="text-sm font-medium mb-1">{chart.label} ({chart.unit})</h4>
+                  <ChartContainer config={{ [chart.key]: { label: chart.label, color: chart.color } } satisfies ChartConfig} className="h-40 w-full">
+                    <LineChart data={chartData} margin={{ top: 5, right: 10, bottom: 5, left: 0 }}>
+                      <CartesianGrid vertical={false} />
+                      <XAxis
+                        dataKey="x"
+                        type="number"
+                        domain={['dataMin', 'dataMax']}
+                        tickFormatter={value => `${Number(value).toFixed(useDistanceAxis ? 1 : 0)}${useDistanceAxis ? ' km' : ' min'}`}
+                        tick={{ fontSize: 11 }}
+                      />
+                      <YAxis
+                        reversed={chart.reversed}
+                        domain={['auto', 'auto']}
+                        width={40}
+                        tick={{ fontSize: 11 }}
+                        tickFormatter={value => (chart.key === 'pace' ? formatPace(Number(value) * 60) : String(Math.round(Number(value))))}
+                      />
+                      <ChartTooltip
+                        content={
+                          <ChartTooltipContent
+                            hideLabel
+                            formatter={value => (
+                              <span>
+                                {chart.key === 'pace' ? formatPace(Number(value) * 60) : Math.round(Number(value))} {chart.unit}
+                              </span>
+                            )}
+                          />
+                        }
+                      />
+                      <Line dataKey={chart.key} stroke={`var(--color-${chart.key})`} dot={false} strokeWidth={2} connectNulls isAnimationActive={false} />
+                    </LineChart>
+                  </ChartContainer>
+                </div>
+              ))}
+
+              {splits.length > 0 && (
+                <div>
+                  <h4 className="text-sm font-medium mb-1">Splits</h4>
+                  <Table>
+                    <TableHeader>
+                      <TableRow>
+                        <TableHead>Km</TableHead>
+                        <TableHead>Pace</TableHead>
+                        <TableHead>Avg. HR</TableHead>
+                        <TableHead>Elevation</TableHead>
+                      </TableRow>
+                    </TableHeader>
+                    <TableBody>
+                      {splits.map(split => (
+                        <TableRow key={split.index}>
+                          <TableCell>{split.distanceMeters < 1000 ? (split.index - 1 + split.distanceMeters / 1000).toFixed(2) : split.index}</TableCell>
+                          <TableCell>{formatPace(split.paceSecPerKm)} /km</TableCell>
+                          <TableCell>{split.averageHeartRateBpm !== undefined ? `${Math.round(split.averageHeartRateBpm)} bpm` : 'N/A'}</TableCell>
+                          <TableCell>
+                            {split.elevationChangeMeters !== undefined
+                              ? `${split.elevationChangeMeters >= 0 ? '+' : ''}${split.elevationChangeMeters.toFixed(0)} m`
+                              : 'N/A'}
+                          </TableCell>
+                        </TableRow>
+                      ))}
+                    </TableBody>
+                  </Table>
+                </div>
+              )}
+
+              <p className="text-xs text-muted-foreground">
+                {streams.sampleCount < streams.originalSampleCount
+                  ? `Charts show ${streams.sampleCount} of ${streams.originalSampleCount} recorded points.`
+                  : `Charts show all ${streams.sampleCount} recorded points.`}
+              </p>
+            </div>
+          )}
+        </DialogContent>
+      </Dialog>
+    </>
+  );
+}
@@ -0,0 +1,169 @@
+'use client';
+
+import type { HealthEntry, HealthMetricType } from '@/types';
+import { healthMetricCategories, healthMetricDisplayNames } from '@/types';
+import { Button } from '@/components/ui/button';
+import { Input } from '@/components/ui/input';
+import { Label } from '@/components/ui/label';
+import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from '@/components/ui/select';
+import { Table, TableBody, TableCell, TableHead, TableHeader, TableRow } from '@/components/ui/table';
+import { ScrollArea } from '@/components/ui/scroll-area';
+import { parseCsv } from '@/lib/csv';
+import {
+  HEALTH_ENTRY_CSV_FIELDS,
+  guessHealthEntryCsvMapping,
+  healthEntryCsvFieldLabels,
+  previewHealthEntryCsv,
+  type HealthEntryCsvField,
+  type HealthEntryCsvMapping,
+  type HealthEntryCsvPreview,
+} from '@/lib/health-entry-csv';
+import React, { useState } from 'react';
+
+const IGNORE_COLUMN = 'ignore';
+// Large files can have thousands of rejected rows; only the first ones are listed.
+const MAX_REJECTED_ROWS_SHOWN = 100;
+
+interface CsvImportFormProps {
+  onImportEntries: (entries: HealthEntry[]) => void;
+  onClose: () => void;
+}
+
+export default function CsvImportForm({ onImportEntries, onClose }: CsvImportFormProps) {
+  const [headers, setHeaders] = useState<string[]>([]);
+  const [rows, setRows] = useState<string[][]>([]);
+  const [mapping, setMapping] = useState<HealthEntryCsvMapping>([]);
+  const [defaultType, setDefaultType] = useState<HealthMetricType>('pulse');
+  const [preview, setPreview] = useState<HealthEntryCsvPreview | null>(null);
+  const [fileError, setFileError] = useState<string | null>(null);
+
+  const hasTypeColumn = mapping.includes('type');
+
+  const handleFileChange = async (file: File | undefined) => {
+    setPreview(null);
+    setFileError(null);
+    setHeaders([]);
+    setRows([]);
+    setMapping([]);
+    if (!file) return;
+
+    const [headerRow, ...dataRows] = parseCsv(await file.text());
+    if (!headerRow || dataRows.length === 0) {
+      setFileError('The file needs a header row and at least one data row.');
+      return;
+    }
+    setHeaders(headerRow);
+    setRows(dataRows);
+    setMapping(guessHealthEntryCsvMapping(headerRow));
+  };
+
+  const handleMappingChange = (column: number, value: string) => {
+    const field = value === IGNORE_COLUMN ? null : (value as HealthEntryCsvField);
+    // A field can only come from one column, so a column that had it before is ignored from now on.
+    setMapping(prev => prev.map((current, index) => (index === column ? field : current === field ? null : current)));
+    setPreview(null);
+  };
+
+  const handlePreview = () => {
+    setPreview(previewHealthEntryCsv(rows, mapping, hasTypeColumn ? undefined : defaultType));
+  };
+
+  const handleImport = () => {
+    if (!preview || preview.accepted.length === 0) return;
+    onImportEntries(preview.accepted.map(row => row.entry));
+    onClose();
+  };
+
+  return (
+    <div className="space-y-6 p-1">
+      <ScrollArea className="h-[calc(100vh-260px)] pr-6">
+        <div className="space-y-4">
+          <div>
+            <Label htmlFor="csv-file">CSV file</Label>
+            <Input id="csv-file" type="file" accept=".csv,text/csv" onChange={event => handleFileChange(event.target.files?.[0])} />
+            <p className="text-xs text-muted-foreground mt-1">
+              The first row must name the columns. Dates use YYYY-MM-DD or an ISO 8601 date and time. A file exported from the timeline can be imported as is.
+            </p>
+            {fileError && <p className="text-sm text-destructive mt-1">{fileError}</p>}
+          </div>
+
+          {headers.length > 0 && (
+            <div className="space-y-2">
+              <h4 className="text-sm font-medium">Columns</h4>
+              {headers.map((header, column) => (
+                <div key={column} className="grid grid-cols-2 items-center gap-2">
+                  <div className="min-w-0">
+                    <p className="truncate text-sm">{header || `Column ${column + 1}`}</p>
+                    <p className="truncate text-xs text-muted-foreground">{rows[0]?.[column] || '(empty)'}</p>
+                  </div>
+                  <Select value={mapping[column] ?? IGNORE_COLUMN} onValueChange={value => handleMappingChange(column, value)}>
+                    <SelectTrigger aria-label={`Field for ${header}`}><SelectValue /></SelectTrigger>
+                    <SelectContent>
+                      <SelectItem value={IGNORE_COLUMN}>Don't import</SelectItem>
+                      {HEALTH_ENTRY_CSV_FIELDS.map(field => (
+                        <SelectItem key={field} value={field}>{healthEntryCsvFieldLabels[field]}</SelectItem>
+                      ))}
+                    </SelectContent>
+                  </Select>
+                </div>
+              ))}
+
+              {!hasTypeColumn && (
+                <div>
+                  <Label htmlFor="csv-default-type">Type of every row</Label>
+                  <Select value={defaultType} onValueChange={value => { setDefaultType(value as HealthMetricType); setPreview(null); }}>
+                    <SelectTrigger id="csv-default-type"><SelectValue /></SelectTrigger>
+                    <SelectContent>
+                      {healthMetricCategories.map(cat => (
+                        <SelectItem key={cat} value={cat}>{healthMetricDisplayNames[cat]}</SelectItem>
+                      ))}
+                    </SelectContent>
+                  </Select>
+                </div>
+              )}
+            </div>
+          )}
+
+          {preview && (
+            <div className="space-y-2">
+              <p className="text-sm">
+                {preview.accepted.length} of {rows.length} row(s) can be imported.
+                {preview.rejected.length > 0 && ` ${preview.rejected.length} row(s) will be skipped:`}
+              </p>
+              {preview.rejected.length > 0 && (
+                <Table>
+                  <TableHeader>
+                    <TableRow>
+                      <TableHead className="w-16">Row</TableHead>
+                      <TableHead>Reasons</TableHead>
+                    </TableRow>
+                  </TableHeader>
+                  <TableBody>
+                    {preview.rejected.slice(0, MAX_REJECTED_ROWS_SHOWN).map(row => (
+                      <TableRow key={row.rowNumber}>
+                        <TableCell className="align-top">{row.rowNumber}</TableCell>
+                        <TableCell className="text-destructive">
+                          {row.reasons.map((reason, index) => <p key={index}>{reason}</p>)}
+                        </TableCell>
+                      </TableRow>
+                    ))}
+                  </TableBody>
+                </Table>
+              )}
+              {preview.rejected.length > MAX_REJECTED_ROWS_SHOWN && (
+                <p className="text-xs text-muted-foreground">and {preview.rejected.length - MAX_REJECTED_ROWS_SHOWN} more.</p>
+              )}
+            </div>
+          )}
+        </div>
+      </ScrollArea>
+      <div className="flex justify-end space-x-2 pt-2 border-t">
+        <Button type="button" variant="outline" onClick={onClose}>Cancel</Button>
+        <Button type="button" variant="secondary" onClick={handlePreview} disabled={rows.length === 0}>Preview</Button>
+        <Button type="button" onClick={handleImport} disabled={!preview || preview.accepted.length === 0}>
+          Import{preview ? ` ${preview.accepted.length}` : ''} Entries
+        </Button>
+      </div>
+    </div>
+  );
+}
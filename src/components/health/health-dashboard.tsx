@@ -7,11 +7,17 @@ import { mockHealthEntries } from '@/lib/mock-data';
 import TimelineList from './timeline-list';
 import FilterPanel from './filter-panel';
 import ManualEntryForm from './manual-entry-form';
+import CsvImportForm from './csv-import-form';
 import { Sheet, SheetContent, SheetHeader, SheetTitle, SheetTrigger } from '@/components/ui/sheet';
 import { Button } from '@/components/ui/button';
-import { PlusCircle } from 'lucide-react';
+import { Tabs, TabsContent, TabsList, TabsTrigger } from '@/components/ui/tabs';
+import { Download, PlusCircle } from 'lucide-react';
 import { useToast } from '@/hooks/use-toast';
 import { useSidebar } from '@/components/ui/sidebar'; // For sheet side based on mobile
+import { useAuth } from '@/hooks/useAuth';
+import { getMeasurementTimelineEntries } from '@/app/actions/withingsActions';
+import { healthEntriesToCsv } from '@/lib/health-entry-csv';
+import { format } from 'date-fns';
 
 export default function HealthDashboard() {
   const [allEntries, setAllEntries] = useState<HealthEntry[]>([]);
@@ -20,11 +26,28 @@ export default function HealthDashboard() {
   const [isEntrySheetOpen, setIsEntrySheetOpen] = useState(false);
   const { toast } = useToast();
   const { isMobile } = useSidebar();
+  const { user } = useAuth();
 
   useEffect(() => {
-    setAllEntries(mockHealthEntries);
-    setSelectedCategories(mockHealthEntries.map(entry => entry.type).filter((value, index, self) => self.indexOf(value) === index));
-  }, []);
+    let isCancelled = false;
+    const loadEntries = async () => {
+      let entries: HealthEntry[] = mockHealthEntries;
+      if (user) {
+        // Merge synced device measurements (e.g. Withings) into the timeline.
+        const result = await getMeasurementTimelineEntries(user.uid);
+        if (result.success && result.data) {
+          entries = [...entries, ...result.data];
+        } else if (result.error) {
+          console.error('[HealthDashboard] Failed to load measurement entries:', result.error);
+        }
+      }
+      if (isCancelled) return;
+      setAllEntries(entries);
+      setSelectedCategories(entries.map(entry => entry.type).filter((value, index, self) => self.indexOf(value) === index));
+    };
+    loadEntries();
+    return () => { isCancelled = true; };
+  }, [user]);
 
   useEffect(() => {
     if (selectedCategories.length === 0) {
@@ -59,6 +82,28 @@ export default function HealthDashboard() {
     setIsEntrySheetOpen(false); // Close sheet after adding
   };
 
+  const handleImportEntries = (importedEntries: HealthEntry[]) => {
+    setAllEntries(prevEntries => [...prevEntries, ...importedEntries].sort((a,b) => new Date(b.date).getTime() - new Date(a.date).getTime()));
+    // Show the imported types even if they were filtered out before.
+    setSelectedCategories(prev => [...prev, ...importedEntries.map(entry => entry.type).filter((type, index, self) => !prev.includes(type) && self.indexOf(type) === index)]);
+    toast({
+      title: "Entries Imported",
+      description: `Added ${importedEntries.length} entr${importedEntries.length === 1 ? 'y' : 'ies'} to your timeline.`,
+    });
+    setIsEntrySheetOpen(false);
+  };
+
+  // Exports the entries currently shown, i.e. after filtering.
+  const handleExportCsv = () => {
+    const blob = new Blob([healthEntriesToCsv(filteredEntries)], { type: 'text/csv;charset=utf-8' });
+    const url = URL.createObjectURL(blob);
+    const link = document.createElement('a');
+    link.href = url;
+    link.download = `health-timeline-${format(new Date(), 'yyyy-MM-dd')}.csv`;
+    link.click();
+    URL.revokeObjectURL(url);
+  };
+
   return (
     <div className="container mx-auto py-6 px-0 md:px-6"> {/* Added container for better spacing */}
       <div className="grid md:grid-cols-[280px_1fr] gap-6 lg:gap-8">
@@ -88,11 +133,17 @@ export default function HealthDashboard() {
         <div className="min-w-0">
           <div className="flex justify-between items-center mb-4">
             <h1 className="text-2xl font-semibold">Health Timeline</h1>
-            {/* Local Add Entry Button for this dashboard context */}
-            <Button onClick={() => setIsEntrySheetOpen(true)} size="sm">
-              <PlusCircle className="mr-2 h-4 w-4" />
-              Add Entry to Timeline
-            </Button>
+            <div className="flex gap-2">
+              <Button onClick={handleExportCsv} size="sm" variant="outline" disabled={filteredEntries.length === 0}>
+                <Download className="mr-2 h-4 w-4" />
+                Export CSV
+              </Button>
+              {/* Local Add Entry Button for this dashboard context */}
+              <Button onClick={() => setIsEntrySheetOpen(true)} size="sm">
+                <PlusCircle className="mr-2 h-4 w-4" />
+                Add Entry to Timeline
+              </Button>
+            </div>
           </div>
           <TimelineList entries={filteredEntries} />
         </div>
@@ -102,9 +153,20 @@ export default function HealthDashboard() {
       <Sheet open={isEntrySheetOpen} onOpenChange={setIsEntrySheetOpen}>
         <SheetContent className="w-full max-w-md sm:max-w-lg p-0" side={isMobile ? "bottom" : "right"}>
           <SheetHeader className="p-6 pb-2">
-            <SheetTitle>Add New Health Entry</SheetTitle>
+            <SheetTitle>Add Health Entries</SheetTitle>
           </SheetHeader>
-          <ManualEntryForm onAddEntry={handleAddEntry} onClose={() => setIsEntrySheetOpen(false)} />
+          <Tabs defaultValue="single" className="px-6">
+            <TabsList className="grid w-full grid-cols-2">
+              <TabsTrigger value="single">Single Entry</TabsTrigger>
+              <TabsTrigger value="csv">Import CSV</TabsTrigger>
+            </TabsList>
+            <TabsContent value="single">
+              <ManualEntryForm onAddEntry={handleAddEntry} onClose={() => setIsEntrySheetOpen(false)} />
+            </TabsContent>
+            <TabsContent value="csv">
+              <CsvImportForm onImportEntries={handleImportEntries} onClose={() => setIsEntrySheetOpen(false)} />
+            </TabsContent>
+          </Tabs>
         </SheetContent>
       </Sheet>
     </div>
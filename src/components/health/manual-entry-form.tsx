@@ -17,36 +17,10 @@ import { CalendarIcon } from 'lucide-react';
 import { format, parseISO, formatISO } from 'date-fns';
 import { cn } from '@/lib/utils';
 import { ScrollArea } from '@/components/ui/scroll-area';
+import { baseSchema } from '@/lib/health-entry-schemas';
 import React from 'react';
 
 
-const baseSchema = z.object({
-  date: z.date({ required_error: "Date is required." }),
-  type: z.custom<HealthMetricType>((val) => healthMetricCategories.includes(val as HealthMetricType), {
-    message: "Invalid health metric type.",
-  }),
-  notes: z.string().optional(),
-});
-
-// Schemas for each type, refine as needed for specific validation
-const walkingSchema = baseSchema.extend({ title: z.string().min(1, "Title is required."), value: z.number().positive(), unit: z.enum(['steps', 'km', 'miles']) });
-const standingSchema = baseSchema.extend({ title: z.string().min(1, "Title is required."), value: z.number().positive(), unit: z.enum(['minutes', 'hours']) });
-const breathingSchema = baseSchema.extend({ title: z.string().min(1, "Title is required."), value: z.number().positive(), unit: z.literal('breaths/min'), quality: z.string().optional() });
-const pulseSchema = baseSchema.extend({ title: z.string().min(1, "Title is required."), value: z.number().positive(), unit: z.literal('bpm') });
-const lipidPanelSchema = baseSchema.extend({
-  title: z.string().min(1, "Title is required."),
-  value: z.object({
-    totalCholesterol: z.number().positive(),
-    ldl: z.number().positive(),
-    hdl: z.number().positive(),
-    triglycerides: z.number().positive(),
-  }),
-});
-const appointmentSchema = baseSchema.extend({ title: z.string().min(1, "Title is required."), doctor: z.string().optional(), location: z.string().optional(), reason: z.string().optional(), visitNotes: z.string().optional() });
-const medicationSchema = baseSchema.extend({ medicationName: z.string().min(1, "Medication name is required."), dosage: z.string().min(1, "Dosage is required."), frequency: z.string().min(1, "Frequency is required.") });
-const conditionSchema = baseSchema.extend({ conditionName: z.string().min(1, "Condition name is required."), diagnosisDate: z.date().optional(), status: z.enum(['active', 'resolved', 'chronic']).optional() });
-
-
 // This combined schema approach is tricky with react-hook-form conditional fields.
 // A simpler approach is to have a generic form and then conditionally show fields.
 // For validation, it might be easier to validate in the onSubmit based on type.
@@ -78,6 +52,10 @@ const formSchema = baseSchema.extend({
   ldl: z.number().optional(),
   hdl: z.number().optional(),
   triglycerides: z.number().optional(),
+
+  // Blood Pressure specific
+  systolic: z.number().optional(),
+  diastolic: z.number().optional(),
 });
 
 
@@ -147,6 +125,18 @@ export default function ManualEntryForm({ onAddEntry, onClose }: ManualEntryForm
       case 'condition':
         newEntry = { ...baseEntryData, type: 'condition', title: data.conditionName!, conditionName: data.conditionName!, diagnosisDate: data.diagnosisDate ? formatISO(data.diagnosisDate) : undefined, status: data.status as 'active' | 'resolved' | 'chronic' | undefined };
         break;
+      case 'weight':
+        newEntry = { ...baseEntryData, type: 'weight', title: data.title!, value: Number(data.value), unit: (data.unit as 'kg' | 'lbs') || 'kg' };
+        break;
+      case 'bodyFat':
+        newEntry = { ...baseEntryData, type: 'bodyFat', title: data.title!, value: Number(data.value), unit: '%' };
+        break;
+      case 'muscleMass':
+        newEntry = { ...baseEntryData, type: 'muscleMass', title: data.title!, value: Number(data.value), unit: (data.unit as 'kg' | 'lbs') || 'kg' };
+        break;
+      case 'bloodPressure':
+        newEntry = { ...baseEntryData, type: 'bloodPressure', title: data.title!, value: { systolic: Number(data.systolic), diastolic: Number(data.diastolic) }, unit: 'mmHg' };
+        break;
       default:
         console.error('Invalid type for submission');
         return;
@@ -154,7 +144,8 @@ export default function ManualEntryForm({ onAddEntry, onClose }: ManualEntryForm
     
     // Basic validation for required fields based on type before calling onAddEntry
     // This is a simplified validation. For robust validation, discriminated unions with Zod are better.
-    if ((data.type === 'walking' || data.type === 'standing' || data.type === 'breathing' || data.type === 'pulse' || data.type === 'lipidPanel' || data.type === 'appointment') && !data.title) {
+    if ((data.type === 'walking' || data.type === 'standing' || data.type === 'breathing' || data.type === 'pulse' || data.type === 'lipidPanel' || data.type === 'appointment'
+        || data.type === 'weight' || data.type === 'bodyFat' || data.type === 'muscleMass' || data.type === 'bloodPressure') && !data.title) {
         form.setError("title", { type: "manual", message: "Title is required for this entry type." });
         return;
     }
@@ -266,6 +257,30 @@ export default function ManualEntryForm({ onAddEntry, onClose }: ManualEntryForm
               </Select> )} />
           </div>
         </>;
+      case 'weight':
+      case 'muscleMass':
+        return <>
+          {commonTitleField()}
+          <div><Label htmlFor="value">{selectedType === 'weight' ? 'Weight' : 'Muscle Mass'}</Label><Input id="value" type="number" step="0.1" {...form.register('value', { valueAsNumber: true })} /></div>
+          <div><Label htmlFor="unit">Unit</Label>
+            <Controller name="unit" control={form.control} render={({ field }) => (
+              <Select onValueChange={field.onChange} defaultValue={field.value}>
+                <SelectTrigger><SelectValue placeholder="Select unit" /></SelectTrigger>
+                <SelectContent><SelectItem value="kg">Kilograms</SelectItem><SelectItem value="lbs">Pounds</SelectItem></SelectContent>
+              </Select> )} />
+          </div>
+        </>;
+      case 'bodyFat':
+        return <>
+          {commonTitleField()}
+          <div><Label htmlFor="value">Body Fat (%)</Label><Input id="value" type="number" step="0.1" {...form.register('value', { valueAsNumber: true })} /></div>
+        </>;
+      case 'bloodPressure':
+        return <>
+          {commonTitleField()}
+          <div><Label htmlFor="systolic">Systolic (mmHg)</Label><Input id="systolic" type="number" {...form.register('systolic', { valueAsNumber: true })} /></div>
+          <div><Label htmlFor="diastolic">Diastolic (mmHg)</Label><Input id="diastolic" type="number" {...form.register('diastolic', { valueAsNumber: true })} /></div>
+        </>;
       default: return null;
     }
   };
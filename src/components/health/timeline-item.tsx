@@ -19,7 +19,12 @@ const renderValue = (entry: HealthEntry) => {
     case 'standing':
     case 'breathing':
     case 'pulse':
+    case 'weight':
+    case 'bodyFat':
+    case 'muscleMass':
       return <p className="text-2xl font-semibold">{entry.value} <span className="text-sm font-normal text-muted-foreground">{entry.unit}</span></p>;
+    case 'bloodPressure':
+      return <p className="text-2xl font-semibold">{entry.value.systolic}/{entry.value.diastolic} <span className="text-sm font-normal text-muted-foreground">{entry.unit}</span></p>;
     case 'lipidPanel':
       const lp = entry.value as LipidPanelData;
       return (
@@ -12,6 +12,10 @@ import {
   Shield,
   LucideProps,
   FileText,
+  Weight,
+  Percent,
+  Dumbbell,
+  Gauge,
 } from 'lucide-react';
 
 interface HealthIconProps extends LucideProps {
@@ -36,6 +40,14 @@ export function HealthIcon({ type, ...props }: HealthIconProps) {
       return <Pill {...props} />;
     case 'condition':
       return <ClipboardList {...props} />;
+    case 'weight':
+      return <Weight {...props} />;
+    case 'bodyFat':
+      return <Percent {...props} />;
+    case 'muscleMass':
+      return <Dumbbell {...props} />;
+    case 'bloodPressure':
+      return <Gauge {...props} />;
     case 'quest':
       return <Activity {...props} />; // Placeholder for QUEST
     case 'uhc':
@@ -73,7 +73,7 @@ export default function SidebarNav({ onSyncAllClick }: SidebarNavProps) {
   
   // Determine if the sync button should be enabled
   // Platinum users can always sync. Others rely on rate limits within individual actions.
-  // The auto-sync logic is in AuthenticatedAppLayout.
+  // Background syncs run on a schedule spaced by subscription tier; see src/lib/scheduled-sync.ts.
   // For simplicity here, the button is always enabled, and the server actions handle rate limits.
   // const isSyncButtonEnabled = userProfile?.subscriptionTier === 'platinum';
 
@@ -0,0 +1,136 @@
+'use client';
+
+import React, { useEffect, useRef, useState } from 'react';
+import type { ActivityFileFirestore } from '@/types';
+import { NormalizedActivityType, normalizedActivityTypeDisplayNames } from '@/types';
+import { Card, CardContent, CardDescription, CardHeader, CardTitle } from '@/components/ui/card';
+import { Button } from '@/components/ui/button';
+import { Input } from '@/components/ui/input';
+import { Label } from '@/components/ui/label';
+import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from '@/components/ui/select';
+import { FileUp, Loader2, RefreshCw } from 'lucide-react';
+import { useAuth } from '@/hooks/useAuth';
+import { useToast } from '@/hooks/use-toast';
+import { getImportedActivityFiles, importActivityFile, reparseActivityFile } from '@/app/actions/activityFileActions';
+import { formatDistanceToNow, parseISO } from 'date-fns';
+
+// 'auto' uses the sport recorded in the file.
+const AUTO_ACTIVITY_TYPE = 'auto';
+
+export default function ActivityFileImport() {
+  const { user } = useAuth();
+  const { toast } = useToast();
+  const fileInputRef = useRef<HTMLInputElement>(null);
+  const [selectedFile, setSelectedFile] = useState<File | null>(null);
+  const [activityType, setActivityType] = useState<string>(AUTO_ACTIVITY_TYPE);
+  const [isImporting, setIsImporting] = useState(false);
+  const [reparsingFileId, setReparsingFileId] = useState<string | null>(null);
+  const [importedFiles, setImportedFiles] = useState<ActivityFileFirestore[]>([]);
+
+  const loadImportedFiles = async (userId: string) => {
+    const result = await getImportedActivityFiles(userId);
+    if (result.success) setImportedFiles(result.data || []);
+  };
+
+  useEffect(() => {
+    if (user) loadImportedFiles(user.uid);
+  }, [user]);
+
+  const handleImport = async () => {
+    if (!user || !selectedFile) return;
+    setIsImporting(true);
+    const formData = new FormData();
+    formData.append('file', selectedFile);
+    if (activityType !== AUTO_ACTIVITY_TYPE) formData.append('activityType', activityType);
+
+    const result = await importActivityFile(user.uid, formData);
+    setIsImporting(false);
+    if (result.success) {
+      toast({ title: 'Activity Imported', description: result.message });
+      setSelectedFile(null);
+      if (fileInputRef.current) fileInputRef.current.value = '';
+      loadImportedFiles(user.uid);
+    } else {
+      toast({ title: 'Import Failed', description: result.error, variant: 'destructive' });
+    }
+  };
+
+  const handleReparse = async (file: ActivityFileFirestore) => {
+    if (!user) return;
+    setReparsingFileId(file.id);
+    const result = await reparseActivityFile(user.uid, file.id);
+    setReparsingFileId(null);
+    if (result.success) {
+      toast({ title: 'Activity Updated', description: result.message });
+      loadImportedFiles(user.uid);
+    } else {
+      toast({ title: 'Re-import Failed', description: result.error, variant: 'destructive' });
+    }
+  };
+
+  return (
+    <Card className="shadow-md rounded-lg">
+      <CardHeader>
+        <CardTitle>Import Activity Files</CardTitle>
+        <CardDescription>
+          Recorded on a device we don't connect to? Upload a GPX, TCX or FIT file to add the activity. The original file is kept so it can be re-imported later.
+        </CardDescription>
+      </CardHeader>
+      <CardContent className="space-y-4">
+        <div className="grid gap-4 sm:grid-cols-[1fr_180px_auto] sm:items-end">
+          <div className="space-y-1">
+            <Label htmlFor="activity-file">File</Label>
+            <Input
+              id="activity-file"
+              ref={fileInputRef}
+              type="file"
+              accept=".gpx,.tcx,.fit"
+              onChange={event => setSelectedFile(event.target.files?.[0] ?? null)}
+              disabled={isImporting}
+            />
+          </div>
+          <div className="space-y-1">
+            <Label htmlFor="activity-file-type">Activity type</Label>
+            <Select value={activityType} onValueChange={setActivityType} disabled={isImporting}>
+              <SelectTrigger id="activity-file-type">
+                <SelectValue />
+              </SelectTrigger>
+              <SelectContent>
+                <SelectItem value={AUTO_ACTIVITY_TYPE}>From file</SelectItem>
+                {Object.values(NormalizedActivityType).map(type => (
+                  <SelectItem key={type} value={type}>{normalizedActivityTypeDisplayNames[type]}</SelectItem>
+                ))}
+              </SelectContent>
+            </Select>
+          </div>
+          <Button onClick={handleImport} disabled={!user || !selectedFile || isImporting}>
+            {isImporting ? <Loader2 className="mr-2 h-4 w-4 animate-spin" /> : <FileUp className="mr-2 h-4 w-4" />}
+            Import
+          </Button>
+        </div>
+
+        {importedFiles.length > 0 && (
+          <div>
+            <h4 className="text-sm font-medium mb-2">Recently imported</h4>
+            <ul className="divide-y rounded-md border">
+              {importedFiles.map(file => (
+                <li key={file.id} className="flex items-center justify-between gap-2 px-3 py-2 text-sm">
+                  <div className="min-w-0">
+                    <p className="truncate font-medium">{file.fileName}</p>
+                    <p className="text-xs text-muted-foreground">
+                      {file.format.toUpperCase()} · imported {formatDistanceToNow(parseISO(file.uploadedAt), { addSuffix: true })}
+                    </p>
+                  </div>
+                  <Button variant="ghost" size="sm" onClick={() => handleReparse(file)} disabled={reparsingFileId !== null}>
+                    {reparsingFileId === file.id ? <Loader2 className="mr-1 h-4 w-4 animate-spin" /> : <RefreshCw className="mr-1 h-4 w-4" />}
+                    Re-import
+                  </Button>
+                </li>
+              ))}
+            </ul>
+          </div>
+        )}
+      </CardContent>
+    </Card>
+  );
+}
@@ -0,0 +1,142 @@
+'use client';
+
+import React, { useRef, useState } from 'react';
+import type { UserProfile } from '@/types';
+import { Card, CardContent, CardDescription, CardHeader, CardTitle } from '@/components/ui/card';
+import { Button } from '@/components/ui/button';
+import { Input } from '@/components/ui/input';
+import { Label } from '@/components/ui/label';
+import { Progress } from '@/components/ui/progress';
+import { FileUp, Loader2 } from 'lucide-react';
+import { useAuth } from '@/hooks/useAuth';
+import { useToast } from '@/hooks/use-toast';
+import { readAppleHealthExport, type AppleHealthImportBatch, type AppleHealthImportData } from '@/lib/apple-health-export';
+import { completeAppleHealthImport, saveAppleHealthImportBatch } from '@/app/actions/appleHealthActions';
+import { formatDistanceToNow, parseISO } from 'date-fns';
+
+interface AppleHealthImportProps {
+  userProfile: UserProfile;
+}
+
+type ImportPhase = 'idle' | 'reading' | 'saving';
+
+// Must not exceed the server's per-batch limit.
+const RECORDS_PER_BATCH = 400;
+
+// Splits the import into batches of at most RECORDS_PER_BATCH records, keeping each kind of record together.
+function toBatches(data: AppleHealthImportData): AppleHealthImportBatch[] {
+  const batches: AppleHealthImportBatch[] = [];
+  for (const key of ['activities', 'dailySummaries', 'measurements', 'sleep'] as const) {
+    for (let i = 0; i < data[key].length; i += RECORDS_PER_BATCH) {
+      batches.push({ [key]: data[key].slice(i, i + RECORDS_PER_BATCH) });
+    }
+  }
+  return batches;
+}
+
+export default function AppleHealthImport({ userProfile }: AppleHealthImportProps) {
+  const { user } = useAuth();
+  const { toast } = useToast();
+  const fileInputRef = useRef<HTMLInputElement>(null);
+  const [selectedFile, setSelectedFile] = useState<File | null>(null);
+  const [phase, setPhase] = useState<ImportPhase>('idle');
+  const [progress, setProgress] = useState(0); // 0-100 within the current phase
+  const [lastImportAt, setLastImportAt] = useState(userProfile.appleHealthLastImportAt);
+
+  const handleImport = async () => {
+    if (!user || !selectedFile) return;
+
+    try {
+      setPhase('reading');
+      setProgress(0);
+      let lastPercent = 0;
+      const data = await readAppleHealthExport(selectedFile, fraction => {
+        // Progress arrives for every chunk read; only whole-percent changes are rendered.
+        const percent = Math.floor(fraction * 100);
+        if (percent !== lastPercent) {
+          lastPercent = percent;
+          setProgress(percent);
+        }
+      });
+
+      setPhase('saving');
+      setProgress(0);
+      const batches = toBatches(data);
+      for (const [index, batch] of batches.entries()) {
+        const result = await saveAppleHealthImportBatch(user.uid, batch);
+        if (!result.success) {
+          throw new Error(result.error || 'Could not save the imported records.');
+        }
+        setProgress(Math.round(((index + 1) / batches.length) * 100));
+      }
+
+      const activityDates = data.activities.map(activity => activity.date).sort();
+      const completion = await completeAppleHealthImport(
+        user.uid,
+        activityDates.length > 0 ? { from: activityDates[0], to: activityDates[activityDates.length - 1] } : undefined
+      );
+      if (!completion.success) {
+        throw new Error(completion.error || 'Could not complete the import.');
+      }
+
+      setLastImportAt(new Date().toISOString());
+      setSelectedFile(null);
+      if (fileInputRef.current) fileInputRef.current.value = '';
+      toast({
+        title: 'Apple Health Imported',
+        description: `Imported ${data.activities.length} workout(s), ${data.dailySummaries.length} day(s) of steps and heart rate, ${data.measurements.length} weight measurement(s) and ${data.sleep.length} night(s) of sleep.`,
+      });
+    } catch (error: any) {
+      console.error('[AppleHealthImport] Import failed:', error);
+      toast({ title: 'Import Failed', description: error.message || 'Could not import the Apple Health export.', variant: 'destructive' });
+    } finally {
+      setPhase('idle');
+    }
+  };
+
+  const isImporting = phase !== 'idle';
+
+  return (
+    <Card className="shadow-md rounded-lg">
+      <CardHeader>
+        <CardTitle>Apple Health</CardTitle>
+        <CardDescription>
+          Import workouts, steps, heart rate, weight and sleep from an Apple Health export. In the Health app, tap your profile picture, then "Export All Health Data", and upload the resulting export.zip.
+          The file is read in your browser; only the extracted records are uploaded. Importing a newer export updates the earlier import.
+        </CardDescription>
+      </CardHeader>
+      <CardContent className="space-y-4">
+        <div className="grid gap-4 sm:grid-cols-[1fr_auto] sm:items-end">
+          <div className="space-y-1">
+            <Label htmlFor="apple-health-export">Export file</Label>
+            <Input
+              id="apple-health-export"
+              ref={fileInputRef}
+              type="file"
+              accept=".zip,.xml"
+              onChange={event => setSelectedFile(event.target.files?.[0] ?? null)}
+              disabled={isImporting}
+            />
+          </div>
+          <Button onClick={handleImport} disabled={!user || !selectedFile || isImporting}>
+            {isImporting ? <Loader2 className="mr-2 h-4 w-4 animate-spin" /> : <FileUp className="mr-2 h-4 w-4" />}
+            Import
+          </Button>
+        </div>
+
+        {isImporting && (
+          <div className="space-y-1">
+            <Progress value={progress} />
+            <p className="text-xs text-muted-foreground">
+              {phase === 'reading' ? `Reading export... ${progress}%` : `Saving records... ${progress}%`}
+            </p>
+          </div>
+        )}
+
+        <p className="text-xs text-muted-foreground">
+          Last import: {lastImportAt ? formatDistanceToNow(parseISO(lastImportAt), { addSuffix: true }) : 'Never'}
+        </p>
+      </CardContent>
+    </Card>
+  );
+}
@@ -0,0 +1,151 @@
+'use client';
+
+import React, { useEffect, useState } from 'react';
+import type { UserProfile, SelectableService, SyncProviderId, SyncRunFirestore } from '@/types';
+import { Card, CardContent, CardDescription, CardHeader, CardTitle } from '@/components/ui/card';
+import { Badge } from '@/components/ui/badge';
+import { Button } from '@/components/ui/button';
+import { Link2, Loader2 } from 'lucide-react';
+import { useAuth } from '@/hooks/useAuth';
+import { getRecentSyncRuns } from '@/app/actions/connectionActions';
+import { format, formatDistanceToNow, parseISO } from 'date-fns';
+
+interface ConnectionHealthProps {
+  userProfile: UserProfile;
+}
+
+type HealthState = 'healthy' | 'failing' | 'reconnect' | 'revoked' | 'never_synced';
+
+const HEALTH_BADGES: Record<HealthState, { label: string; variant: 'default' | 'secondary' | 'destructive' | 'outline' }> = {
+  healthy: { label: 'Healthy', variant: 'default' },
+  failing: { label: 'Last sync failed', variant: 'destructive' },
+  reconnect: { label: 'Reconnect required', variant: 'destructive' },
+  revoked: { label: 'Access revoked', variant: 'destructive' },
+  never_synced: { label: 'Not synced yet', variant: 'secondary' },
+};
+
+const RUN_STATUS_LABELS: Record<SyncRunFirestore['status'], string> = {
+  success: 'Succeeded',
+  error: 'Failed',
+  rate_limited: 'Rate limited',
+};
+
+function formatRelative(isoDate?: string): string {
+  return isoDate ? formatDistanceToNow(parseISO(isoDate), { addSuffix: true }) : 'Never';
+}
+
+function getHealthState(conn: SelectableService, userProfile: UserProfile): HealthState {
+  if (conn.revokedAt) return 'revoked';
+  if (conn.reconnectRequiredAt) return 'reconnect';
+  const health = userProfile.syncHealth?.[conn.id as SyncProviderId];
+  if (!health?.lastRunAt) return 'never_synced';
+  return health.lastRunStatus === 'error' ? 'failing' : 'healthy';
+}
+
+export default function ConnectionHealth({ userProfile }: ConnectionHealthProps) {
+  const { user } = useAuth();
+  const [recentRuns, setRecentRuns] = useState<(SyncRunFirestore & { id: string })[] | null>(null);
+
+  const connections = userProfile.connectedFitnessApps || [];
+
+  // Reloaded whenever a sync updates the health summary on the profile.
+  useEffect(() => {
+    if (!user || connections.length === 0) return;
+    let cancelled = false;
+    getRecentSyncRuns().then(result => {
+      if (!cancelled) setRecentRuns(result.success ? result.runs || [] : []);
+    });
+    return () => { cancelled = true; };
+  }, [user, userProfile.syncHealth, connections.length]);
+
+  if (connections.length === 0) {
+    return null;
+  }
+
+  return (
+    <Card>
+      <CardHeader>
+        <CardTitle>Connection Health</CardTitle>
+        <CardDescription>
+          When each connected app last synced, and whether it needs your attention.
+        </CardDescription>
+      </CardHeader>
+      <CardContent className="space-y-6">
+        <ul className="space-y-3">
+          {connections.map(conn => {
+            const health = userProfile.syncHealth?.[conn.id as SyncProviderId];
+            const state = getHealthState(conn, userProfile);
+            const badge = HEALTH_BADGES[state];
+            return (
+              <li key={conn.id} className="p-3 border rounded-md space-y-2">
+                <div className="flex items-center justify-between">
+                  <div className="flex items-center space-x-2">
+                    <span className="capitalize font-medium">{conn.name}</span>
+                    <Badge variant={badge.variant}>{badge.label}</Badge>
+                  </div>
+                  {(state === 'reconnect' || state === 'revoked') && (
+                    <Button
+                      variant="outline"
+                      size="sm"
+                      onClick={() => { window.location.href = `/api/auth/${conn.id}/connect`; }}
+                    >
+                      <Link2 className="h-4 w-4" />
+                      <span className="hidden sm:inline ml-2">Reconnect</span>
+                    </Button>
+                  )}
+                </div>
+                <dl className="grid grid-cols-1 sm:grid-cols-3 gap-2 text-sm">
+                  <div>
+                    <dt className="text-muted-foreground">Last success</dt>
+                    <dd>{formatRelative(health?.lastSuccessAt)}</dd>
+                  </div>
+                  <div>
+                    <dt className="text-muted-foreground">Last failure</dt>
+                    <dd>{formatRelative(health?.lastFailureAt)}</dd>
+                  </div>
+                  <div>
+                    <dt className="text-muted-foreground">Next scheduled sync</dt>
+                    <dd>{userProfile.nextScheduledSyncAt && !conn.revokedAt ? format(parseISO(userProfile.nextScheduledSyncAt), 'PPp') : 'Not scheduled'}</dd>
+                  </div>
+                </dl>
+                {state === 'reconnect' && (
+                  <p className="text-xs text-destructive">
+                    We could not renew our access to {conn.name}. Reconnect it to resume syncing.
+                  </p>
+                )}
+                {state === 'failing' && health?.lastFailureMessage && (
+                  <p className="text-xs text-destructive">{health.lastFailureMessage}</p>
+                )}
+              </li>
+            );
+          })}
+        </ul>
+
+        <div className="pt-4 border-t">
+          <h3 className="text-md font-medium mb-2">Recent Sync Runs</h3>
+          {recentRuns === null ? (
+            <div className="flex items-center text-sm text-muted-foreground">
+              <Loader2 className="h-4 w-4 animate-spin mr-2" /> Loading sync history...
+            </div>
+          ) : recentRuns.length === 0 ? (
+            <p className="text-sm text-muted-foreground">No syncs have run yet.</p>
+          ) : (
+            <ul className="space-y-1 text-sm">
+              {recentRuns.map(run => (
+                <li key={run.id} className="flex flex-wrap justify-between gap-x-4">
+                  <span>
+                    <span className="font-medium">{connections.find(conn => conn.id === run.provider)?.name || run.provider}</span>
+                    {' '}&middot; {run.trigger} &middot; {format(parseISO(run.startedAt), 'PPp')}
+                  </span>
+                  <span className={run.status === 'error' ? 'text-destructive' : 'text-muted-foreground'}>
+                    {RUN_STATUS_LABELS[run.status]} &middot; {run.syncedCount} record(s) &middot; {(run.durationMs / 1000).toFixed(1)}s
+                  </span>
+                </li>
+              ))}
+            </ul>
+          )}
+        </div>
+      </CardContent>
+    </Card>
+  );
+}
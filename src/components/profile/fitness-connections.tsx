@@ -9,18 +9,40 @@ import { Card, CardContent, CardDescription, CardHeader, CardTitle } from '@/com
 import { Button } from '@/components/ui/button';
 import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from '@/components/ui/select';
 import { Label } from '@/components/ui/label';
+import {
+  AlertDialog,
+  AlertDialogAction,
+  AlertDialogCancel,
+  AlertDialogContent,
+  AlertDialogDescription,
+  AlertDialogFooter,
+  AlertDialogHeader,
+  AlertDialogTitle,
+} from '@/components/ui/alert-dialog';
 import { useToast } from '@/hooks/use-toast';
-import { XCircle, CheckCircle2, Link2, Loader2, RefreshCw } from 'lucide-react';
+import { XCircle, CheckCircle2, Link2, Loader2, RefreshCw, History } from 'lucide-react';
 import { useAuth } from '@/hooks/useAuth';
-import { updateConnectedFitnessApps } from '@/app/actions/userProfileActions';
-import { syncFitbitSleepData } from '@/app/actions/fitbitActions';
-import { syncStravaActivities } from '@/app/actions/stravaActions';
-import { format, subDays } from 'date-fns';
+import { getImportedDataCounts, disconnectFitnessApp } from '@/app/actions/connectionActions';
+import { syncConnectedApp } from '@/app/actions/syncActions';
+import { backfillStravaActivities } from '@/app/actions/stravaActions';
 
 interface FitnessConnectionsProps {
   userProfile: UserProfile;
 }
 
+// Labels for the collections counted by getImportedDataCounts.
+const DATA_COLLECTION_LABELS: Record<string, string> = {
+  activities: 'activities',
+  activity_streams: 'activity detail recordings',
+  sleep: 'sleep records',
+  daily_summaries: 'daily summaries',
+  measurements: 'body measurements',
+  fitbit_sleep: 'raw sleep logs',
+  fitbit_activity_summaries: 'raw activity summaries',
+  fitbit_heart_rate: 'raw heart rate records',
+  fitbit_heart_rate_intraday: 'minute-by-minute heart rate',
+};
+
 export default function FitnessConnections({ userProfile }: FitnessConnectionsProps) {
   const { user, setUserProfile } = useAuth();
   const { toast } = useToast();
@@ -29,9 +51,11 @@ export default function FitnessConnections({ userProfile }: FitnessConnectionsPr
   
   const [selectedAppId, setSelectedAppId] = useState<string>('');
   const [isLoading, setIsLoading] = useState<Record<string, boolean>>({});
-  const [isFitbitSyncing, startFitbitSyncTransition] = useTransition();
-  const [isStravaSyncing, startStravaSyncTransition] = useTransition();
-  const [isWithingsSyncing, startWithingsSyncTransition] = useTransition();
+  const [isSyncing, setIsSyncing] = useState<Record<string, boolean>>({});
+  const [isStravaBackfilling, startStravaBackfillTransition] = useTransition();
+  const [disconnectTarget, setDisconnectTarget] = useState<SelectableService | null>(null);
+  const [disconnectDataCounts, setDisconnectDataCounts] = useState<{ counts: Record<string, number>; totalCount: number } | null>(null);
+  const [isCountingData, setIsCountingData] = useState(false);
 
   const currentConnections = userProfile.connectedFitnessApps || [];
 
@@ -122,78 +146,75 @@ export default function FitnessConnections({ userProfile }: FitnessConnectionsPr
     window.location.href = `/api/auth/${appToConnect.id}/connect`;
   };
 
-  const handleDisconnect = async (appId: string) => {
+  const handleDisconnectClick = async (conn: SelectableService) => {
     if (!user) return;
-    setIsLoading(prev => ({ ...prev, [appId]: true }));
-    
-    const serviceToDisconnect = currentConnections.find(c => c.id === appId);
-    if (!serviceToDisconnect) {
-      setIsLoading(prev => ({ ...prev, [appId]: false }));
-      return;
+    setDisconnectTarget(conn);
+    setDisconnectDataCounts(null);
+    setIsCountingData(true);
+    const result = await getImportedDataCounts(conn.id);
+    if (result.success && result.counts) {
+      setDisconnectDataCounts({ counts: result.counts, totalCount: result.totalCount || 0 });
     }
+    setIsCountingData(false);
+  };
+
+  const handleDisconnect = async (deleteData: boolean) => {
+    const serviceToDisconnect = disconnectTarget;
+    setDisconnectTarget(null);
+    if (!user || !serviceToDisconnect) return;
+    const appId = serviceToDisconnect.id;
+    setIsLoading(prev => ({ ...prev, [appId]: true }));
 
-    // TODO: Add logic here to clear tokens from Firestore as well for a full cleanup.
-    const result = await updateConnectedFitnessApps(user.uid, serviceToDisconnect, 'disconnect');
+    const result = await disconnectFitnessApp(appId, { deleteData });
 
     if (result.success && result.data) {
       if(setUserProfile) setUserProfile(prev => prev ? ({ ...prev, ...result.data }) : null);
-      toast({ title: `${serviceToDisconnect.name} Disconnected` });
+      toast({ title: `${serviceToDisconnect.name} Disconnected`, description: result.message });
     } else {
-      toast({ title: 'Error', description: result.error || 'Failed to disconnect app.', variant: 'destructive' });
+      toast({ title: 'Error', description: result.error || result.message || 'Failed to disconnect app.', variant: 'destructive' });
     }
     setIsLoading(prev => ({ ...prev, [appId]: false }));
   };
 
-  const handleSyncFitbit = () => {
-    startFitbitSyncTransition(async () => {
-      if (!user) {
-        toast({ title: 'Error', description: 'Not authenticated.', variant: 'destructive'});
-        return;
-      }
-      toast({ title: 'Syncing Fitbit Data...', description: 'Fetching sleep data for the last 7 days.' });
-      const endDate = format(new Date(), 'yyyy-MM-dd');
-      const startDate = format(subDays(new Date(), 6), 'yyyy-MM-dd');
-      const result = await syncFitbitSleepData(user.uid, startDate, endDate);
-      if (result.success) {
-        toast({ title: 'Fitbit Sync Complete!', description: result.message });
-        if (result.syncedCount && result.syncedCount > 0 && setUserProfile) {
-            setUserProfile(prev => prev ? ({...prev, fitbitLastSuccessfulSync: new Date().toISOString()}) : null);
-        }
-      } else {
-        toast({ title: 'Fitbit Sync Failed', description: result.message, variant: 'destructive'});
-      }
-    });
-  }
-  
-  const handleSyncStrava = () => {
-    startStravaSyncTransition(async () => {
+  const handleSyncNow = async (conn: SelectableService) => {
+    if (!user) {
+      toast({ title: 'Error', description: 'Not authenticated.', variant: 'destructive'});
+      return;
+    }
+    setIsSyncing(prev => ({ ...prev, [conn.id]: true }));
+    toast({ title: `Syncing ${conn.name} Data...`, description: 'Fetching your data for the last 7 days.' });
+
+    const result = await syncConnectedApp(user.uid, conn.id, Intl.DateTimeFormat().resolvedOptions().timeZone);
+
+    if (result.data && setUserProfile) {
+      setUserProfile(prev => prev ? ({ ...prev, ...result.data }) : null);
+    }
+    if (result.success) {
+      toast({ title: `${conn.name} Sync Complete!`, description: result.message });
+    } else {
+      toast({ title: `${conn.name} Sync Failed`, description: result.result?.error || result.message, variant: 'destructive'});
+    }
+    setIsSyncing(prev => ({ ...prev, [conn.id]: false }));
+  };
+
+  const handleBackfillStrava = () => {
+    startStravaBackfillTransition(async () => {
       if (!user) {
         toast({ title: 'Error', description: 'Not authenticated.', variant: 'destructive'});
         return;
       }
-      toast({ title: 'Syncing Strava Data...', description: 'Fetching activities for the last 7 days.' });
-      const result = await syncStravaActivities(user.uid);
+      toast({ title: 'Importing Strava History...', description: 'Fetching your older Strava activities. This may take a while.' });
+      const result = await backfillStravaActivities(user.uid);
       if (result.success) {
-        toast({ title: 'Strava Sync Complete!', description: result.message });
+        toast({ title: 'Strava History Import', description: result.message });
         if (result.syncedCount && result.syncedCount > 0 && setUserProfile) {
             setUserProfile(prev => prev ? ({...prev, stravaLastSyncTimestamp: Date.now()}) : null);
         }
       } else {
-        toast({ title: 'Strava Sync Failed', description: result.message, variant: 'destructive'});
+        toast({ title: 'Strava History Import Failed', description: result.message, variant: 'destructive'});
       }
     });
   }
-  
-  const handleSyncWithings = () => {
-    startWithingsSyncTransition(async () => {
-      toast({
-        title: 'Sync Not Implemented',
-        description: 'Syncing Withings data is not yet available.',
-        variant: 'default',
-        duration: 5000,
-      });
-    });
-  };
 
   return (
     <Card>
@@ -211,47 +232,48 @@ export default function FitnessConnections({ userProfile }: FitnessConnectionsPr
               {currentConnections.map(conn => (
                 <li key={conn.id} className="flex items-center justify-between p-3 border rounded-md bg-muted/30">
                   <div className="flex items-center space-x-2">
-                    <CheckCircle2 className="h-5 w-5 text-green-600" />
+                    {conn.revokedAt || conn.reconnectRequiredAt ? <XCircle className="h-5 w-5 text-destructive" /> : <CheckCircle2 className="h-5 w-5 text-green-600" />}
                     <span className="capitalize font-medium">{conn.name}</span>
+                    {conn.revokedAt && <span className="text-xs text-destructive">Access revoked</span>}
+                    {!conn.revokedAt && conn.reconnectRequiredAt && <span className="text-xs text-destructive">Reconnect required</span>}
                   </div>
                   <div className="flex items-center space-x-2">
-                    {conn.id === 'fitbit' && (
+                    {(conn.revokedAt || conn.reconnectRequiredAt) && (
                         <Button
                             variant="outline"
                             size="sm"
-                            onClick={handleSyncFitbit}
-                            disabled={isFitbitSyncing}
+                            onClick={() => { window.location.href = `/api/auth/${conn.id}/connect`; }}
                         >
-                           {isFitbitSyncing ? <Loader2 className="h-4 w-4 animate-spin" /> : <RefreshCw className="h-4 w-4" />}
-                           <span className="hidden sm:inline ml-2">Sync Now</span>
+                           <Link2 className="h-4 w-4" />
+                           <span className="hidden sm:inline ml-2">Reconnect</span>
                         </Button>
                     )}
-                    {conn.id === 'strava' && (
+                    {!conn.revokedAt && (
                         <Button
                             variant="outline"
                             size="sm"
-                            onClick={handleSyncStrava}
-                            disabled={isStravaSyncing}
+                            onClick={() => handleSyncNow(conn)}
+                            disabled={isSyncing[conn.id]}
                         >
-                           {isStravaSyncing ? <Loader2 className="h-4 w-4 animate-spin" /> : <RefreshCw className="h-4 w-4" />}
+                           {isSyncing[conn.id] ? <Loader2 className="h-4 w-4 animate-spin" /> : <RefreshCw className="h-4 w-4" />}
                            <span className="hidden sm:inline ml-2">Sync Now</span>
                         </Button>
                     )}
-                     {conn.id === 'withings' && (
+                    {conn.id === 'strava' && !conn.revokedAt && userProfile.stravaBackfill?.status !== 'complete' && (
                         <Button
                             variant="outline"
                             size="sm"
-                            onClick={handleSyncWithings}
-                            disabled={isWithingsSyncing}
+                            onClick={handleBackfillStrava}
+                            disabled={isStravaBackfilling}
                         >
-                           {isWithingsSyncing ? <Loader2 className="h-4 w-4 animate-spin" /> : <RefreshCw className="h-4 w-4" />}
-                           <span className="hidden sm:inline ml-2">Sync Now</span>
+                           {isStravaBackfilling ? <Loader2 className="h-4 w-4 animate-spin" /> : <History className="h-4 w-4" />}
+                           <span className="hidden sm:inline ml-2">{userProfile.stravaBackfill ? 'Continue Import' : 'Import History'}</span>
                         </Button>
                     )}
                     <Button
                       variant="ghost"
                       size="sm"
-                      onClick={() => handleDisconnect(conn.id)}
+                      onClick={() => handleDisconnectClick(conn)}
                       disabled={isLoading[conn.id]}
                       aria-label={`Disconnect ${conn.name}`}
                     >
@@ -294,6 +316,56 @@ export default function FitnessConnections({ userProfile }: FitnessConnectionsPr
           </div>
         )}
       </CardContent>
+
+      <AlertDialog open={!!disconnectTarget} onOpenChange={open => { if (!open) setDisconnectTarget(null); }}>
+        <AlertDialogContent>
+          <AlertDialogHeader>
+            <AlertDialogTitle>Disconnect {disconnectTarget?.name}?</AlertDialogTitle>
+            <AlertDialogDescription>
+              We will revoke our access to your {disconnectTarget?.name} account and stop syncing. You can keep the data
+              imported so far or delete it.
+            </AlertDialogDescription>
+          </AlertDialogHeader>
+          <div className="text-sm">
+            {isCountingData ? (
+              <div className="flex items-center text-muted-foreground">
+                <Loader2 className="h-4 w-4 animate-spin mr-2" /> Counting imported records...
+              </div>
+            ) : disconnectDataCounts ? (
+              <>
+                <p>
+                  Deleting would remove <span className="font-medium">{disconnectDataCounts.totalCount}</span> record(s)
+                  imported from {disconnectTarget?.name}:
+                </p>
+                <ul className="list-disc pl-5 mt-1 text-muted-foreground">
+                  {Object.entries(disconnectDataCounts.counts).filter(([, count]) => count > 0).map(([collection, count]) => (
+                    <li key={collection}>{count} {DATA_COLLECTION_LABELS[collection] || collection}</li>
+                  ))}
+                </ul>
+              </>
+            ) : (
+              <p className="text-muted-foreground">The number of imported records could not be determined.</p>
+            )}
+          </div>
+          <AlertDialogFooter>
+            <AlertDialogCancel>Cancel</AlertDialogCancel>
+            <AlertDialogAction
+              className="bg-secondary text-secondary-foreground hover:bg-secondary/80"
+              onClick={() => handleDisconnect(false)}
+              disabled={isCountingData}
+            >
+              Keep Data
+            </AlertDialogAction>
+            <AlertDialogAction
+              className="bg-destructive text-destructive-foreground hover:bg-destructive/90"
+              onClick={() => handleDisconnect(true)}
+              disabled={isCountingData}
+            >
+              Delete Data
+            </AlertDialogAction>
+          </AlertDialogFooter>
+        </AlertDialogContent>
+      </AlertDialog>
     </Card>
   );
 }
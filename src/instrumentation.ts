@@ -0,0 +1,14 @@
+// Next.js calls register() once when a server instance starts, before it handles any request.
+
+export async function register() {
+  if (process.env.NEXT_RUNTIME !== 'nodejs') return;
+
+  const { getOAuthConfigurationProblems, getWebhookConfigurationProblems } = await import('@/lib/oauth/providers');
+  const { getTokenEncryptionConfigurationProblems } = await import('@/lib/token-store');
+  const problems = [...getOAuthConfigurationProblems(), ...getWebhookConfigurationProblems(), ...getTokenEncryptionConfigurationProblems()];
+  if (problems.length > 0) {
+    // A misconfigured redirect URI or encryption key only shows up halfway through a user's connect attempt
+    // or a sync, so refuse to start instead.
+    throw new Error(`Server configuration is invalid:\n- ${problems.join('\n- ')}`);
+  }
+}
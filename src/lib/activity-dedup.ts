@@ -0,0 +1,136 @@
+// src/lib/activity-dedup.ts
+
+/**
+ * @fileOverview Cross-source activity deduplication
+ * A workout recorded on one device often reaches us through several providers (e.g. a watch that
+ * uploads to both Strava and Fitbit). These helpers find such duplicates and merge them into a single
+ * canonical activity. Source documents stay in place and point at the canonical record through
+ * `canonicalActivityId`, so counting code only needs to skip documents that have that field set.
+ */
+
+import type { NormalizedActivityFirestore } from '@/types';
+
+export const MERGED_DATA_SOURCE = 'merged';
+export const CANONICAL_ID_PREFIX = 'canonical-';
+
+// Two activities are considered the same workout if they start within this many seconds of each other...
+const START_TIME_TOLERANCE_SEC = 10 * 60;
+// ...and their durations differ by no more than the larger of these two limits.
+const DURATION_TOLERANCE_SEC = 5 * 60;
+const DURATION_TOLERANCE_RATIO = 0.2;
+
+// Source preference per field, best first. GPS-based services and imported recordings ('file') are
+// preferred for route data, wearables for step and heart rate data. Sources not listed rank last.
+const ROUTE_SOURCE_PRIORITY = ['strava', 'file', 'fitbit', 'google-fit', 'apple_health', 'withings', 'manual'];
+const BODY_SOURCE_PRIORITY = ['fitbit', 'apple_health', 'google-fit', 'withings', 'strava', 'file', 'manual'];
+
+const ROUTE_FIELDS = [
+  'name', 'startTimeLocal', 'timezone', 'durationMovingSec', 'durationElapsedSec',
+  'distanceMeters', 'elevationGainMeters', 'mapPolyline',
+] as const;
+const BODY_FIELDS = ['calories', 'steps', 'averageHeartRateBpm', 'maxHeartRateBpm'] as const;
+
+/**
+ * Returns true if an activity is counted on its own, i.e. it has not been merged into a canonical record
+ * and has not been tombstoned because its source no longer has it.
+ */
+export function isCanonicalActivity(activity: NormalizedActivityFirestore): boolean {
+  return !activity.canonicalActivityId && !activity.tombstonedAt;
+}
+
+function sourceRank(dataSource: string, priority: string[]): number {
+  const index = priority.indexOf(dataSource);
+  return index === -1 ? priority.length : index;
+}
+
+function durationSec(activity: NormalizedActivityFirestore): number {
+  return activity.durationElapsedSec ?? activity.durationMovingSec ?? 0;
+}
+
+function isSameWorkout(a: NormalizedActivityFirestore, b: NormalizedActivityFirestore): boolean {
+  if (a.type !== b.type || a.dataSource === b.dataSource) return false;
+
+  const startDiffSec = Math.abs(Date.parse(a.startTimeUtc) - Date.parse(b.startTimeUtc)) / 1000;
+  if (startDiffSec > START_TIME_TOLERANCE_SEC) return false;
+
+  const durationA = durationSec(a);
+  const durationB = durationSec(b);
+  const tolerance = Math.max(DURATION_TOLERANCE_SEC, Math.max(durationA, durationB) * DURATION_TOLERANCE_RATIO);
+  return Math.abs(durationA - durationB) <= tolerance;
+}
+
+/**
+ * Groups source activities that describe the same workout. Each group holds at most one activity
+ * per data source; activities without a duplicate are returned as single-member groups. Tombstoned
+ * activities are left out, so canonical records are rebuilt from the sources that still have the workout.
+ */
+export function findDuplicateGroups(activities: NormalizedActivityFirestore[]): NormalizedActivityFirestore[][] {
+  const sorted = activities
+    .filter(activity => activity.dataSource !== MERGED_DATA_SOURCE && !activity.tombstonedAt)
+    .sort((a, b) => Date.parse(a.startTimeUtc) - Date.parse(b.startTimeUtc));
+
+  const groups: NormalizedActivityFirestore[][] = [];
+  for (const activity of sorted) {
+    const group = groups.find(candidate =>
+      candidate.every(member => member.dataSource !== activity.dataSource) &&
+      candidate.some(member => isSameWorkout(member, activity))
+    );
+    if (group) {
+      group.push(activity);
+    } else {
+      groups.push([activity]);
+    }
+  }
+  return groups;
+}
+
+// Copies a field onto the canonical activity from the first source, in priority order, that reported it.
+function copyFirstReportedField<K extends keyof NormalizedActivityFirestore>(
+  canonical: NormalizedActivityFirestore,
+  sources: NormalizedActivityFirestore[],
+  field: K
+): void {
+  const value = sources.find(activity => activity[field] !== undefined)?.[field];
+  if (value !== undefined) canonical[field] = value;
+}
+
+/**
+ * Builds the canonical activity for a group of duplicates, taking each field from the most
+ * trusted source that reported it.
+ */
+export function mergeDuplicateActivities(group: NormalizedActivityFirestore[], userId: string): NormalizedActivityFirestore {
+  const byRoutePriority = [...group].sort((a, b) => sourceRank(a.dataSource, ROUTE_SOURCE_PRIORITY) - sourceRank(b.dataSource, ROUTE_SOURCE_PRIORITY));
+  const byBodyPriority = [...group].sort((a, b) => sourceRank(a.dataSource, BODY_SOURCE_PRIORITY) - sourceRank(b.dataSource, BODY_SOURCE_PRIORITY));
+  const primary = byRoutePriority[0];
+
+  const canonical: NormalizedActivityFirestore = {
+    id: `${CANONICAL_ID_PREFIX}${primary.id}`,
+    userId,
+    originalId: primary.originalId,
+    dataSource: MERGED_DATA_SOURCE,
+    type: primary.type,
+    startTimeUtc: primary.startTimeUtc,
+    date: primary.date,
+    mergedFrom: group.map(activity => ({ id: activity.id, dataSource: activity.dataSource, originalId: activity.originalId })),
+    lastFetched: new Date().toISOString(),
+  };
+
+  for (const field of ROUTE_FIELDS) {
+    copyFirstReportedField(canonical, byRoutePriority, field);
+  }
+  for (const field of BODY_FIELDS) {
+    copyFirstReportedField(canonical, byBodyPriority, field);
+  }
+
+  return canonical;
+}
+
+/**
+ * Returns the data source(s) to show for an activity, e.g. "strava + fitbit" for a canonical record.
+ */
+export function getActivitySourceLabel(activity: NormalizedActivityFirestore): string {
+  if (activity.dataSource === MERGED_DATA_SOURCE && activity.mergedFrom?.length) {
+    return activity.mergedFrom.map(source => source.dataSource).join(' + ');
+  }
+  return activity.dataSource;
+}
@@ -0,0 +1,193 @@
+// src/lib/activity-file-parsers.ts
+
+/**
+ * @fileOverview Parsers for recorded activity files
+ * Reads the track points of GPX and TCX (XML) and Garmin FIT (binary) files into one common shape,
+ * so that metrics are computed the same way whatever the file format. The XML formats are read with
+ * targeted regular expressions rather than a full XML parser: only a handful of elements matter, and
+ * both formats are written by devices in predictable ways.
+ */
+
+import { parseFitFile } from '@/lib/fit-parser';
+
+export type ActivityFileFormat = 'gpx' | 'tcx' | 'fit';
+
+export interface TrackPoint {
+  timeMs: number; // UTC, ms since epoch
+  lat?: number;
+  lon?: number;
+  altitudeMeters?: number;
+  distanceMeters?: number; // Cumulative distance as recorded by the device, if it records one
+  heartRateBpm?: number;
+  cadence?: number;
+  speedMetersPerSec?: number;
+}
+
+export interface ParsedActivityFile {
+  format: ActivityFileFormat;
+  sport?: string; // As named by the file, e.g. 'Running' (TCX), 'running' (GPX, FIT)
+  name?: string;
+  calories?: number;
+  points: TrackPoint[]; // Sorted by time
+}
+
+/**
+ * Creates the error thrown when a file cannot be read as an activity. Its message is meant to be shown to the user.
+ */
+export function createActivityFileParseError(message: string): Error {
+  const error = new Error(message);
+  (error as any).status = 422;
+  (error as any).invalidActivityFile = true;
+  return error;
+}
+
+/**
+ * Returns true if the error was thrown because an uploaded file could not be read as an activity.
+ */
+export function isActivityFileParseError(error: unknown): boolean {
+  return !!error && (error as any).invalidActivityFile === true;
+}
+
+/**
+ * Determines the format of an uploaded file from its extension, falling back to its content.
+ */
+export function detectActivityFileFormat(fileName: string, content: Buffer): ActivityFileFormat | null {
+  const extension = fileName.toLowerCase().split('.').pop();
+  if (extension === 'gpx' || extension === 'tcx' || extension === 'fit') return extension;
+
+  if (content.length >= 12 && content.toString('ascii', 8, 12) === '.FIT') return 'fit';
+  const head = content.toString('utf8', 0, Math.min(content.length, 1024));
+  if (/<gpx\b/.test(head)) return 'gpx';
+  if (/<TrainingCenterDatabase\b/.test(head)) return 'tcx';
+  return null;
+}
+
+export function parseActivityFile(format: ActivityFileFormat, content: Buffer): ParsedActivityFile {
+  const parsed = format === 'fit' ? parseFitFile(content) : format === 'gpx' ? parseGpx(content.toString('utf8')) : parseTcx(content.toString('utf8'));
+  parsed.points.sort((a, b) => a.timeMs - b.timeMs);
+  if (parsed.points.length === 0) {
+    throw createActivityFileParseError('The file does not contain any timed track points.');
+  }
+  return parsed;
+}
+
+// --- XML helpers ---
+
+function decodeXmlText(text: string): string {
+  const cdata = text.match(/^\s*<!\[CDATA\[([\s\S]*)\]\]>\s*$/);
+  if (cdata) return cdata[1].trim();
+  return text
+    .replace(/&lt;/g, '<')
+    .replace(/&gt;/g, '>')
+    .replace(/&quot;/g, '"')
+    .replace(/&apos;/g, "'")
+    .replace(/&amp;/g, '&')
+    .trim();
+}
+
+// Returns the text of the first `tag` element in `xml`, ignoring any namespace prefix (e.g. `gpxtpx:hr`).
+function getElementText(xml: string, tag: string): string | undefined {
+  const match = xml.match(new RegExp(`<(?:[\\w-]+:)?${tag}\\b[^>]*>([\\s\\S]*?)</(?:[\\w-]+:)?${tag}>`));
+  return match ? decodeXmlText(match[1]) : undefined;
+}
+
+function getElementNumber(xml: string, tag: string): number | undefined {
+  const text = getElementText(xml, tag);
+  if (text === undefined || text === '') return undefined;
+  const value = Number(text);
+  return Number.isFinite(value) ? value : undefined;
+}
+
+function getAttributeNumber(attributes: string, name: string): number | undefined {
+  const match = attributes.match(new RegExp(`\\b${name}\\s*=\\s*["']([^"']*)["']`));
+  const value = match ? Number(match[1]) : NaN;
+  return Number.isFinite(value) ? value : undefined;
+}
+
+function parseTime(text: string | undefined): number | undefined {
+  if (!text) return undefined;
+  const timeMs = Date.parse(text);
+  return Number.isFinite(timeMs) ? timeMs : undefined;
+}
+
+// --- GPX ---
+
+function parseGpx(xml: string): ParsedActivityFile {
+  if (!/<gpx\b/.test(xml)) {
+    throw createActivityFileParseError('The file is not a valid GPX file.');
+  }
+
+  const track = xml.match(/<trk\b[^>]*>([\s\S]*?)<\/trk>/)?.[1];
+  if (!track) {
+    throw createActivityFileParseError('The GPX file does not contain a track. Routes and waypoints cannot be imported as activities.');
+  }
+  // The track's own name and type come before its first segment.
+  const trackHeader = track.split(/<trkseg\b/)[0];
+
+  const points: TrackPoint[] = [];
+  for (const match of track.matchAll(/<trkpt\b([^>]*?)(?:\/>|>([\s\S]*?)<\/trkpt>)/g)) {
+    const [, attributes, body = ''] = match;
+    const timeMs = parseTime(getElementText(body, 'time'));
+    if (timeMs === undefined) continue;
+    points.push({
+      timeMs,
+      lat: getAttributeNumber(attributes, 'lat'),
+      lon: getAttributeNumber(attributes, 'lon'),
+      altitudeMeters: getElementNumber(body, 'ele'),
+      // Garmin's TrackPointExtension, also written by Strava and most other apps.
+      heartRateBpm: getElementNumber(body, 'hr'),
+      cadence: getElementNumber(body, 'cad'),
+      speedMetersPerSec: getElementNumber(body, 'speed'),
+    });
+  }
+
+  return {
+    format: 'gpx',
+    name: getElementText(trackHeader, 'name'),
+    sport: getElementText(trackHeader, 'type'),
+    points,
+  };
+}
+
+// --- TCX ---
+
+function parseTcx(xml: string): ParsedActivityFile {
+  const activity = xml.match(/<Activity\b([^>]*)>([\s\S]*?)<\/Activity>/);
+  if (!activity) {
+    throw createActivityFileParseError('The TCX file does not contain an activity. Courses cannot be imported as activities.');
+  }
+  const [, activityAttributes, activityBody] = activity;
+
+  let calories: number | undefined;
+  for (const lap of activityBody.matchAll(/<Lap\b[^>]*>([\s\S]*?)<\/Lap>/g)) {
+    // Only the lap's own total, not values inside its track points or extensions.
+    const lapCalories = getElementNumber(lap[1].split(/<Track\b/)[0], 'Calories');
+    if (lapCalories !== undefined) calories = (calories ?? 0) + lapCalories;
+  }
+
+  const points: TrackPoint[] = [];
+  for (const match of activityBody.matchAll(/<Trackpoint\b[^>]*>([\s\S]*?)<\/Trackpoint>/g)) {
+    const body = match[1];
+    const timeMs = parseTime(getElementText(body, 'Time'));
+    if (timeMs === undefined) continue;
+    const heartRate = getElementText(body, 'HeartRateBpm');
+    points.push({
+      timeMs,
+      lat: getElementNumber(body, 'LatitudeDegrees'),
+      lon: getElementNumber(body, 'LongitudeDegrees'),
+      altitudeMeters: getElementNumber(body, 'AltitudeMeters'),
+      distanceMeters: getElementNumber(body, 'DistanceMeters'),
+      heartRateBpm: heartRate !== undefined ? getElementNumber(heartRate, 'Value') : undefined,
+      // Cycling cadence is a standard element; running cadence is in Garmin's ActivityExtension.
+      cadence: getElementNumber(body, 'Cadence') ?? getElementNumber(body, 'RunCadence'),
+      speedMetersPerSec: getElementNumber(body, 'Speed'),
+    });
+  }
+
+  return {
+    format: 'tcx',
+    sport: activityAttributes.match(/\bSport\s*=\s*["']([^"']*)["']/)?.[1],
+    calories,
+    points,
+  };
+}
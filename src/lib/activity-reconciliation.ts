@@ -0,0 +1,76 @@
+// src/lib/activity-reconciliation.ts
+
+/**
+ * @fileOverview Propagating upstream deletions of activities
+ * Syncs upsert the activities a provider returns, so an activity deleted at the provider would otherwise
+ * stay in `users/{uid}/activities` forever. After listing a window of activities in full, a sync passes
+ * the listing here and every stored activity of that source the listing covers but does not contain is
+ * tombstoned with `tombstonedAt`. Tombstones are kept rather than deleted because absence from a listing
+ * is only indirect evidence; syncs clear the field if the activity is returned again.
+ */
+
+import admin from 'firebase-admin';
+import { adminDb } from '@/lib/firebase/serverApp';
+import { deduplicateActivities } from '@/app/actions/activityActions';
+import type { NormalizedActivityFirestore } from '@/types';
+
+// Firestore allows at most 500 writes per batch.
+const MAX_BATCH_WRITES = 450;
+
+// A complete listing of one source's activities over part of its history.
+export interface SourceActivityListing {
+  dateRange: { from: string; to: string }; // 'yyyy-MM-dd'; bounds the stored activities that are checked
+  covers: (activity: NormalizedActivityFirestore) => boolean; // Whether the listing is complete for this activity's time
+  activityIds: Set<string>; // IDs of the listed activities, as stored (e.g. 'strava-123')
+  startedAt: string; // ISO 8601. Activities stored after the listing began are never tombstoned.
+}
+
+/**
+ * Tombstones stored activities of a data source that a complete listing of the source no longer contains,
+ * and rebuilds the canonical records they were merged into.
+ * @returns The number of activities tombstoned.
+ */
+export async function tombstoneActivitiesMissingAtSource(
+  userId: string,
+  dataSource: string,
+  listing: SourceActivityListing
+): Promise<number> {
+  const activitiesCollectionRef = adminDb.collection('users').doc(userId).collection('activities');
+  const querySnapshot = await activitiesCollectionRef
+    .where('date', '>=', listing.dateRange.from)
+    .where('date', '<=', listing.dateRange.to)
+    .get();
+
+  const missing = querySnapshot.docs
+    .map(docSnap => docSnap.data() as NormalizedActivityFirestore)
+    .filter(activity =>
+      activity.dataSource === dataSource &&
+      !activity.tombstonedAt &&
+      !listing.activityIds.has(activity.id) &&
+      activity.lastFetched < listing.startedAt &&
+      listing.covers(activity)
+    );
+  if (missing.length === 0) {
+    return 0;
+  }
+
+  const tombstonedAt = new Date().toISOString();
+  const writes: Array<(batch: admin.firestore.WriteBatch) => void> = missing.map(activity => batch => batch.update(
+    activitiesCollectionRef.doc(activity.id),
+    { tombstonedAt, canonicalActivityId: admin.firestore.FieldValue.delete() }
+  ));
+  for (let i = 0; i < writes.length; i += MAX_BATCH_WRITES) {
+    const batch = adminDb.batch();
+    writes.slice(i, i + MAX_BATCH_WRITES).forEach(write => write(batch));
+    await batch.commit();
+  }
+
+  // Canonical records built from a tombstoned activity are rebuilt from the remaining sources, or removed.
+  const mergedActivityDates = missing.filter(activity => activity.canonicalActivityId).map(activity => activity.date).sort();
+  if (mergedActivityDates.length > 0) {
+    await deduplicateActivities(userId, { from: mergedActivityDates[0], to: mergedActivityDates[mergedActivityDates.length - 1] });
+  }
+
+  console.log(`[ActivityReconciliation] Tombstoned ${missing.length} ${dataSource} activity/activities no longer present at the source for user ${userId}.`);
+  return missing.length;
+}
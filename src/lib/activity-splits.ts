@@ -0,0 +1,67 @@
+// src/lib/activity-splits.ts
+
+/**
+ * @fileOverview Splits computed from activity streams
+ * Divides an activity into consecutive segments of equal distance (e.g. kilometre splits) using its
+ * time and distance streams, and summarizes each segment's pace, heart rate and elevation change.
+ */
+
+import type { ActivityStreamsFirestore } from '@/types';
+
+export interface ActivitySplit {
+  index: number; // 1-based
+  distanceMeters: number; // Shorter than the split distance for the final, partial split
+  durationSec: number;
+  paceSecPerKm: number;
+  averageHeartRateBpm?: number;
+  elevationChangeMeters?: number;
+}
+
+// Interpolates the value of `values` at the point where `distances` reaches `target`.
+function interpolateAt(distances: number[], values: number[], target: number): number {
+  const upper = distances.findIndex(d => d >= target);
+  if (upper <= 0) return values[Math.max(upper, 0)];
+  const lower = upper - 1;
+  const span = distances[upper] - distances[lower];
+  const fraction = span > 0 ? (target - distances[lower]) / span : 0;
+  return values[lower] + fraction * (values[upper] - values[lower]);
+}
+
+/**
+ * Computes the splits of an activity.
+ * @param splitMeters The length of each split, e.g. 1000 for kilometre splits.
+ * @returns The splits, or an empty array if the streams have no distance.
+ */
+export function computeSplits(streams: ActivityStreamsFirestore, splitMeters: number = 1000): ActivitySplit[] {
+  const distances = streams.distanceMeters;
+  if (!distances || distances.length < 2) return [];
+
+  const totalDistance = distances[distances.length - 1];
+  const splits: ActivitySplit[] = [];
+
+  for (let start = 0, index = 1; start < totalDistance; start += splitMeters, index++) {
+    const end = Math.min(start + splitMeters, totalDistance);
+    // Ignore a final split too short to have a meaningful pace.
+    if (end - start < splitMeters * 0.1 && splits.length > 0) break;
+
+    const durationSec = interpolateAt(distances, streams.timeSec, end) - interpolateAt(distances, streams.timeSec, start);
+    const split: ActivitySplit = {
+      index,
+      distanceMeters: end - start,
+      durationSec,
+      paceSecPerKm: durationSec / ((end - start) / 1000),
+    };
+
+    const pointsInSplit = distances
+      .map((d, i) => (d >= start && d <= end ? i : -1))
+      .filter(i => i !== -1);
+    if (streams.heartRateBpm && pointsInSplit.length > 0) {
+      split.averageHeartRateBpm = pointsInSplit.reduce((sum, i) => sum + streams.heartRateBpm![i], 0) / pointsInSplit.length;
+    }
+    if (streams.altitudeMeters) {
+      split.elevationChangeMeters = interpolateAt(distances, streams.altitudeMeters, end) - interpolateAt(distances, streams.altitudeMeters, start);
+    }
+    splits.push(split);
+  }
+  return splits;
+}
@@ -0,0 +1,273 @@
+// src/lib/api-quota.ts
+
+/**
+ * @fileOverview Shared API quota layer
+ * Every request made by the provider services goes through `quotaFetch`, which:
+ * - records the call in the user's `<provider>ApiCallStats` on their profile,
+ * - tracks the remaining rate-limit budget reported in the provider's response headers,
+ * - waits and retries when a request is rate limited (HTTP 429), and
+ * - throws a quota exceeded error once the budget will not come back soon enough, so that sync
+ *   actions can stop cleanly and return a cursor to resume from.
+ */
+
+import admin from 'firebase-admin';
+import { adminDb } from '@/lib/firebase/serverApp';
+import type { ApiCallStat, SyncProviderId } from '@/types';
+
+const API_CALL_STATS_FIELDS: Record<SyncProviderId, string> = {
+  fitbit: 'fitbitApiCallStats',
+  strava: 'stravaApiCallStats',
+  googlefit: 'googleFitApiCallStats',
+  withings: 'withingsApiCallStats',
+};
+
+const PROVIDER_NAMES: Record<SyncProviderId, string> = {
+  fitbit: 'Fitbit',
+  strava: 'Strava',
+  googlefit: 'Google Fit',
+  withings: 'Withings',
+};
+
+const MAX_RETRIES = 3;
+const BASE_BACKOFF_MS = 2000;
+// Longest we wait for the budget within a single request. Beyond this the request fails with a
+// quota exceeded error instead of holding the sync (and the server action) open.
+const MAX_WAIT_MS = 60 * 1000;
+// Remember at most this many access token owners; tokens are short-lived, so old entries are dropped.
+const MAX_TRACKED_ACCESS_TOKENS = 1000;
+// Remember the count day of at most this many stats; a forgotten one costs one transaction to relearn.
+const MAX_TRACKED_COUNTED_STATS = 1000;
+
+interface RateLimitState {
+  remaining?: number;
+  resetAt?: number; // ms since epoch
+}
+
+// Budgets as last reported by each provider. Fitbit limits each user separately;
+// the other providers limit the whole application.
+const rateLimitStates = new Map<string, RateLimitState>();
+// Access token -> user ID, so that calls can be recorded on the right profile.
+const accessTokenOwners = new Map<string, string>();
+// '<userId>:<stats field>.<stat key>' -> the UTC day whose count this process knows to be stored for the stat.
+const countedDays = new Map<string, string>();
+
+/**
+ * Tells the quota layer which user an access token belongs to. Called by the auth utils whenever
+ * they hand out a token; calls made with an unknown token are rate limited but not recorded.
+ */
+export function registerAccessTokenOwner(accessToken: string, userId: string): void {
+  if (!accessTokenOwners.has(accessToken) && accessTokenOwners.size >= MAX_TRACKED_ACCESS_TOKENS) {
+    const oldestToken = accessTokenOwners.keys().next().value;
+    if (oldestToken !== undefined) accessTokenOwners.delete(oldestToken);
+  }
+  accessTokenOwners.set(accessToken, userId);
+}
+
+/**
+ * Returns true if the error was thrown because a provider's rate-limit budget ran out.
+ */
+export function isApiQuotaExceededError(error: unknown): boolean {
+  return !!error && (error as any).quotaExceeded === true;
+}
+
+function createQuotaExceededError(provider: SyncProviderId, retryAt: number): Error {
+  const retryAtIso = new Date(retryAt).toISOString();
+  const error = new Error(`${PROVIDER_NAMES[provider]} API rate limit reached. Try again after ${retryAtIso}.`);
+  (error as any).status = 429;
+  (error as any).quotaExceeded = true;
+  (error as any).retryAt = retryAtIso;
+  return error;
+}
+
+function wait(ms: number): Promise<void> {
+  return new Promise(resolve => setTimeout(resolve, ms));
+}
+
+function parseNumberList(header: string | null): number[] | null {
+  if (!header) return null;
+  const values = header.split(',').map(value => Number(value.trim()));
+  return values.every(value => !isNaN(value)) ? values : null;
+}
+
+// Strava's short-term window resets every quarter hour, its daily window at midnight UTC.
+function nextStravaReset(windowIndex: number): number {
+  const now = new Date();
+  if (windowIndex === 0) {
+    const quarterHourMs = 15 * 60 * 1000;
+    return Math.ceil((now.getTime() + 1) / quarterHourMs) * quarterHourMs;
+  }
+  return Date.UTC(now.getUTCFullYear(), now.getUTCMonth(), now.getUTCDate() + 1);
+}
+
+/**
+ * Reads the remaining budget from a response's rate-limit headers, if the provider sends any.
+ * Google Fit and Withings do not, so only their 429s (and Withings' status 601) are acted on.
+ */
+function parseRateLimitHeaders(provider: SyncProviderId, headers: Headers): RateLimitState | null {
+  if (provider === 'fitbit') {
+    const remaining = headers.get('fitbit-rate-limit-remaining');
+    const resetSec = headers.get('fitbit-rate-limit-reset');
+    if (remaining === null || resetSec === null) return null;
+    return { remaining: Number(remaining), resetAt: Date.now() + Number(resetSec) * 1000 };
+  }
+
+  if (provider === 'strava') {
+    // Read requests have their own, lower limits; all our requests are reads.
+    const limits = parseNumberList(headers.get('x-readratelimit-limit')) || parseNumberList(headers.get('x-ratelimit-limit'));
+    const usage = parseNumberList(headers.get('x-readratelimit-usage')) || parseNumberList(headers.get('x-ratelimit-usage'));
+    if (!limits || !usage) return null;
+
+    // Report whichever window (15 minutes or daily) has the least left.
+    let state: RateLimitState | null = null;
+    for (let windowIndex = 0; windowIndex < limits.length; windowIndex++) {
+      const remaining = limits[windowIndex] - (usage[windowIndex] ?? 0);
+      if (!state || remaining < state.remaining!) {
+        state = { remaining, resetAt: nextStravaReset(windowIndex) };
+      }
+    }
+    return state;
+  }
+
+  return null;
+}
+
+function getRetryAt(headers: Headers, rateLimit: RateLimitState | null, attempt: number): number {
+  const retryAfter = headers.get('retry-after');
+  if (retryAfter) {
+    const retryAfterSec = Number(retryAfter);
+    const retryAt = isNaN(retryAfterSec) ? Date.parse(retryAfter) : Date.now() + retryAfterSec * 1000;
+    if (!isNaN(retryAt)) return retryAt;
+  }
+  if (rateLimit?.resetAt) return rateLimit.resetAt;
+  return Date.now() + BASE_BACKOFF_MS * Math.pow(2, attempt);
+}
+
+/**
+ * Records one API call on the user's profile. Syncs make many calls while also writing to the profile,
+ * so calls are counted with blind increments; only the first call of a UTC day for a stat (as seen by
+ * this process) reads the stored stat in a transaction, to restart the count if it is from an earlier day.
+ */
+async function recordApiCall(userId: string, provider: SyncProviderId, statKey: string, rateLimit: RateLimitState | null): Promise<void> {
+  const userRef = adminDb.collection('users').doc(userId);
+  const field = API_CALL_STATS_FIELDS[provider];
+  const countKey = `${userId}:${field}.${statKey}`;
+  const today = new Date().toISOString().slice(0, 10);
+
+  if (countedDays.get(countKey) === today) {
+    const now = new Date().toISOString();
+    const stat: Record<string, unknown> = {
+      lastCalledAt: now,
+      callCountToday: admin.firestore.FieldValue.increment(1),
+    };
+    if (rateLimit?.remaining !== undefined) stat.rateLimitRemaining = rateLimit.remaining;
+    if (rateLimit?.resetAt !== undefined) stat.rateLimitResetAt = new Date(rateLimit.resetAt).toISOString();
+    await userRef.set({ [field]: { [statKey]: stat } }, { merge: true });
+    return;
+  }
+
+  await adminDb.runTransaction(async transaction => {
+    const userSnap = await transaction.get(userRef);
+    const previous: ApiCallStat = userSnap.get(field)?.[statKey] || {};
+    const now = new Date().toISOString();
+    // The count restarts with the first call of each UTC day.
+    const isSameDay = previous.lastCalledAt?.slice(0, 10) === now.slice(0, 10);
+
+    const stat: ApiCallStat = {
+      lastCalledAt: now,
+      callCountToday: isSameDay ? (previous.callCountToday || 0) + 1 : 1,
+    };
+    if (rateLimit?.remaining !== undefined) stat.rateLimitRemaining = rateLimit.remaining;
+    if (rateLimit?.resetAt !== undefined) stat.rateLimitResetAt = new Date(rateLimit.resetAt).toISOString();
+
+    transaction.set(userRef, { [field]: { [statKey]: stat } }, { merge: true });
+  });
+
+  if (!countedDays.has(countKey) && countedDays.size >= MAX_TRACKED_COUNTED_STATS) {
+    const oldestKey = countedDays.keys().next().value;
+    if (oldestKey !== undefined) countedDays.delete(oldestKey);
+  }
+  countedDays.set(countKey, today);
+}
+
+/**
+ * Makes a provider API request within the provider's rate limits.
+ * @param provider The provider the request goes to.
+ * @param statKey The key the call is counted under in the user's API call stats (e.g. 'sleepData').
+ * @param accessToken The access token sent with the request; identifies the user to record the call for.
+ * @param url The full request URL.
+ * @param init The fetch options. The body must be reusable, since rate-limited requests are retried.
+ * @param isRateLimited (Optional) Detects rate limiting that is not signalled with HTTP 429.
+ * @throws A quota exceeded error (see isApiQuotaExceededError) when the budget runs out.
+ */
+export async function quotaFetch(
+  provider: SyncProviderId,
+  statKey: string,
+  accessToken: string,
+  url: string,
+  init: RequestInit,
+  isRateLimited?: (response: Response) => Promise<boolean>
+): Promise<Response> {
+  const userId = accessTokenOwners.get(accessToken);
+  const budgetKey = provider === 'fitbit' ? `fitbit:${userId || accessToken}` : provider;
+
+  for (let attempt = 0; ; attempt++) {
+    const budget = rateLimitStates.get(budgetKey);
+    if (budget?.remaining !== undefined && budget.remaining <= 0 && budget.resetAt && budget.resetAt > Date.now()) {
+      const waitMs = budget.resetAt - Date.now();
+      if (waitMs > MAX_WAIT_MS) {
+        throw createQuotaExceededError(provider, budget.resetAt);
+      }
+      console.warn(`[ApiQuota] ${PROVIDER_NAMES[provider]} budget exhausted; waiting ${Math.ceil(waitMs / 1000)}s for it to reset.`);
+      await wait(waitMs);
+    }
+
+    const response = await fetch(url, init);
+
+    const rateLimit = parseRateLimitHeaders(provider, response.headers);
+    if (rateLimit) {
+      rateLimitStates.set(budgetKey, rateLimit);
+    }
+    if (userId) {
+      try {
+        await recordApiCall(userId, provider, statKey, rateLimit);
+      } catch (error: any) {
+        // Stats are informational; never fail a request because they could not be written.
+        console.error(`[ApiQuota] Failed to record ${provider} API call for user ${userId}:`, error.message);
+      }
+    }
+
+    const rateLimited = response.status === 429 || (isRateLimited ? await isRateLimited(response) : false);
+    if (!rateLimited) {
+      return response;
+    }
+
+    const retryAt = getRetryAt(response.headers, rateLimit, attempt);
+    if (attempt >= MAX_RETRIES || retryAt - Date.now() > MAX_WAIT_MS) {
+      rateLimitStates.set(budgetKey, { remaining: 0, resetAt: retryAt });
+      console.warn(`[ApiQuota] ${PROVIDER_NAMES[provider]} rate limit reached; budget resets at ${new Date(retryAt).toISOString()}.`);
+      throw createQuotaExceededError(provider, retryAt);
+    }
+    console.warn(`[ApiQuota] ${PROVIDER_NAMES[provider]} request rate limited; retrying in ${Math.ceil((retryAt - Date.now()) / 1000)}s (attempt ${attempt + 1} of ${MAX_RETRIES}).`);
+    await wait(Math.max(0, retryAt - Date.now()));
+  }
+}
+
+/**
+ * Builds the result of a sync that a rate limit stopped early. Whatever was fetched before that
+ * point has been stored; the next sync continues from `resumeCursor`.
+ * @param syncedSummary What was stored, e.g. "3 sleep log(s)".
+ */
+export function createRateLimitedSyncResult(
+  provider: SyncProviderId,
+  syncedSummary: string,
+  syncedCount: number,
+  resumeCursor: string
+) {
+  return {
+    success: false,
+    message: `${PROVIDER_NAMES[provider]} API rate limit reached after syncing ${syncedSummary}. Sync again later to resume from ${resumeCursor}.`,
+    syncedCount,
+    error: `${PROVIDER_NAMES[provider]} API rate limit reached.`,
+    resumeCursor,
+  };
+}
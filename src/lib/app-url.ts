@@ -0,0 +1,61 @@
+// src/lib/app-url.ts
+
+/**
+ * @fileOverview Public URL of the app
+ * OAuth redirect URIs, and the pages the OAuth callbacks send users back to, must use the URL the app is
+ * reached at, which differs between localhost, preview hosts and production. It is read from APP_URL
+ * when that is configured, and otherwise derived from the incoming request (honouring proxy headers).
+ */
+
+import type { NextRequest } from 'next/server';
+
+/**
+ * Parses an absolute http(s) URL into its canonical form without a trailing slash.
+ * @returns The normalized URL, or null if the value is not an absolute http(s) URL.
+ */
+export function normalizeAbsoluteUrl(value: string): string | null {
+  let url: URL;
+  try {
+    url = new URL(value);
+  } catch {
+    return null;
+  }
+  if (url.protocol !== 'https:' && url.protocol !== 'http:') return null;
+  return `${url.origin}${url.pathname.replace(/\/+$/, '')}`;
+}
+
+/**
+ * Returns the app URL configured in APP_URL, or null if it is not set.
+ * @throws An error if APP_URL is set but is not an absolute http(s) URL.
+ */
+export function getConfiguredAppUrl(): string | null {
+  const configured = process.env.APP_URL?.trim();
+  if (!configured) return null;
+
+  const appUrl = normalizeAbsoluteUrl(configured);
+  if (!appUrl) {
+    throw new Error(`APP_URL must be an absolute http(s) URL, got "${configured}".`);
+  }
+  return appUrl;
+}
+
+// Proxies may send a comma-separated list of values, the first of which is the client-facing one.
+function firstHeaderValue(request: NextRequest, name: string): string | null {
+  return request.headers.get(name)?.split(',')[0].trim() || null;
+}
+
+/**
+ * Returns the origin the request was made to, as seen by the browser.
+ */
+export function getRequestOrigin(request: NextRequest): string {
+  const host = firstHeaderValue(request, 'x-forwarded-host') || firstHeaderValue(request, 'host') || request.nextUrl.host;
+  const protocol = firstHeaderValue(request, 'x-forwarded-proto') || request.nextUrl.protocol.replace(/:$/, '');
+  return `${protocol}://${host}`;
+}
+
+/**
+ * Returns the public URL of the app: APP_URL if configured, otherwise the origin of the request.
+ */
+export function getAppUrl(request: NextRequest): string {
+  return getConfiguredAppUrl() || getRequestOrigin(request);
+}
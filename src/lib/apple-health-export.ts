@@ -0,0 +1,429 @@
+// src/lib/apple-health-export.ts
+
+/**
+ * @fileOverview Apple Health export reader, run in the browser
+ * Apple Health exports everything as one export.xml (usually inside export.zip) that can reach several
+ * gigabytes, so it is read as a stream and scanned element by element; only aggregates and the records
+ * we keep are held in memory. The result holds drafts of our normalized records, which the server
+ * completes (user, data source, time zone) and stores.
+ *
+ * Every draft has an ID derived from the data itself, so importing the same or a newer export again
+ * overwrites the earlier import instead of duplicating it.
+ */
+
+import {
+  NormalizedActivityType,
+  type BodyMeasurementFirestore,
+  type DailySummaryFirestore,
+  type NormalizedActivityFirestore,
+  type NormalizedSleepFirestore,
+  type NormalizedSleepSegment,
+  type NormalizedSleepStage,
+} from '@/types';
+import { getMinutesAsleepFromStages, summarizeSleepStages } from '@/lib/sleep-utils';
+import { findZipEntry, openFileStream } from '@/lib/zip-entry-reader';
+
+export const APPLE_HEALTH_DATA_SOURCE = 'apple_health';
+
+export type AppleHealthActivityDraft = Omit<NormalizedActivityFirestore, 'userId' | 'dataSource' | 'lastFetched'>;
+export type AppleHealthDailySummaryDraft = Omit<DailySummaryFirestore, 'timezone' | 'dataSource' | 'lastFetched'>;
+export type AppleHealthMeasurementDraft = Omit<BodyMeasurementFirestore, 'userId' | 'dataSource' | 'lastFetched'>;
+export type AppleHealthSleepDraft = Omit<NormalizedSleepFirestore, 'userId' | 'dataSource' | 'lastFetched'>;
+
+export interface AppleHealthImportBatch {
+  activities?: AppleHealthActivityDraft[];
+  dailySummaries?: AppleHealthDailySummaryDraft[];
+  measurements?: AppleHealthMeasurementDraft[];
+  sleep?: AppleHealthSleepDraft[];
+}
+
+export type AppleHealthImportData = Required<AppleHealthImportBatch>;
+
+// Sleep samples less than this far apart belong to the same night.
+const SLEEP_SESSION_GAP_MS = 60 * 60 * 1000;
+
+const WORKOUT_TYPE_PREFIX = 'HKWorkoutActivityType';
+const WORKOUT_ACTIVITY_TYPES: Record<string, NormalizedActivityType> = {
+  Running: NormalizedActivityType.Running,
+  Walking: NormalizedActivityType.Walking,
+  Hiking: NormalizedActivityType.Hiking,
+  Swimming: NormalizedActivityType.Swimming,
+  Cycling: NormalizedActivityType.Cycling,
+  HandCycling: NormalizedActivityType.Cycling,
+  TraditionalStrengthTraining: NormalizedActivityType.Workout,
+  FunctionalStrengthTraining: NormalizedActivityType.Workout,
+  HighIntensityIntervalTraining: NormalizedActivityType.Workout,
+  CrossTraining: NormalizedActivityType.Workout,
+  CoreTraining: NormalizedActivityType.Workout,
+  MixedCardio: NormalizedActivityType.Workout,
+  Elliptical: NormalizedActivityType.Workout,
+  Rowing: NormalizedActivityType.Workout,
+  StairClimbing: NormalizedActivityType.Workout,
+};
+
+const SLEEP_VALUE_STAGES: Record<string, NormalizedSleepStage> = {
+  HKCategoryValueSleepAnalysisAwake: 'awake',
+  HKCategoryValueSleepAnalysisAsleep: 'asleep', // Before iOS 16
+  HKCategoryValueSleepAnalysisAsleepUnspecified: 'asleep',
+  HKCategoryValueSleepAnalysisAsleepCore: 'light',
+  HKCategoryValueSleepAnalysisAsleepDeep: 'deep',
+  HKCategoryValueSleepAnalysisAsleepREM: 'rem',
+};
+const SLEEP_IN_BED_VALUE = 'HKCategoryValueSleepAnalysisInBed';
+
+const METERS_PER_UNIT: Record<string, number> = { m: 1, km: 1000, mi: 1609.344, yd: 0.9144, ft: 0.3048, cm: 0.01 };
+const KCAL_PER_UNIT: Record<string, number> = { kcal: 1, Cal: 1, kJ: 1 / 4.184 };
+const KG_PER_UNIT: Record<string, number> = { kg: 1, lb: 0.45359237, g: 0.001, st: 6.35029318 };
+const SECONDS_PER_UNIT: Record<string, number> = { s: 1, min: 60, hr: 3600 };
+
+const HANDLED_RECORD_TYPES = new Set([
+  'HKQuantityTypeIdentifierStepCount',
+  'HKQuantityTypeIdentifierHeartRate',
+  'HKQuantityTypeIdentifierRestingHeartRate',
+  'HKQuantityTypeIdentifierBodyMass',
+  'HKCategoryTypeIdentifierSleepAnalysis',
+]);
+
+interface AppleDate {
+  utcMs: number;
+  localDate: string; // yyyy-MM-dd
+  localDateTime: string; // yyyy-MM-ddTHH:mm:ss
+}
+
+interface SleepSample {
+  source: string;
+  start: AppleDate;
+  end: AppleDate;
+  stage?: NormalizedSleepStage; // Undefined for "in bed" samples, which only mark the time in bed
+}
+
+// --- XML scanning ---
+
+const ELEMENT_NAME = /<([A-Za-z]+)[\s/>]/y;
+const ATTRIBUTE = /([\w:]+)="([^"]*)"/g;
+
+function decodeXmlEntities(text: string): string {
+  return text.includes('&')
+    ? text.replace(/&lt;/g, '<').replace(/&gt;/g, '>').replace(/&quot;/g, '"').replace(/&apos;/g, "'").replace(/&amp;/g, '&')
+    : text;
+}
+
+function parseAttributes(startTag: string): Record<string, string> {
+  const attributes: Record<string, string> = {};
+  for (const [, name, value] of startTag.matchAll(ATTRIBUTE)) {
+    attributes[name] = decodeXmlEntities(value);
+  }
+  return attributes;
+}
+
+/**
+ * Scans an XML text stream and passes every complete Record and Workout element to `onElement`.
+ * Everything else is skipped tag by tag, so only the unfinished tail of the stream is buffered.
+ */
+async function scanHealthElements(stream: ReadableStream<string>, onElement: (name: 'Record' | 'Workout', xml: string) => void): Promise<void> {
+  const reader = stream.getReader();
+  let buffer = '';
+  for (;;) {
+    const { done, value } = await reader.read();
+    if (done) break;
+    buffer += value;
+
+    let position = 0;
+    for (;;) {
+      const start = buffer.indexOf('<', position);
+      if (start === -1) {
+        position = buffer.length;
+        break;
+      }
+      const startTagEnd = buffer.indexOf('>', start);
+      if (startTagEnd === -1) {
+        position = start;
+        break;
+      }
+      ELEMENT_NAME.lastIndex = start;
+      const name = ELEMENT_NAME.exec(buffer)?.[1];
+      if (name !== 'Record' && name !== 'Workout') {
+        position = startTagEnd + 1;
+        continue;
+      }
+      if (buffer[startTagEnd - 1] === '/') {
+        onElement(name, buffer.slice(start, startTagEnd + 1));
+        position = startTagEnd + 1;
+        continue;
+      }
+      const closingTag = `</${name}>`;
+      const end = buffer.indexOf(closingTag, startTagEnd);
+      if (end === -1) {
+        position = start;
+        break;
+      }
+      onElement(name, buffer.slice(start, end + closingTag.length));
+      position = end + closingTag.length;
+    }
+    buffer = buffer.slice(position);
+  }
+}
+
+// --- Value conversion ---
+
+// Apple Health writes dates as 'yyyy-MM-dd HH:mm:ss ±HHmm', in the phone's time zone at export time.
+function parseAppleDate(value: string | undefined): AppleDate | null {
+  const match = value?.match(/^(\d{4}-\d{2}-\d{2}) (\d{2}:\d{2}:\d{2}) ([+-]\d{2})(\d{2})$/);
+  if (!match) return null;
+  const utcMs = Date.parse(`${match[1]}T${match[2]}${match[3]}:${match[4]}`);
+  return Number.isFinite(utcMs) ? { utcMs, localDate: match[1], localDateTime: `${match[1]}T${match[2]}` } : null;
+}
+
+function convert(value: string | undefined, unit: string | undefined, factors: Record<string, number>): number | undefined {
+  const number = Number(value);
+  const factor = unit !== undefined ? factors[unit] : undefined;
+  return value !== undefined && Number.isFinite(number) && factor !== undefined ? number * factor : undefined;
+}
+
+// 'TraditionalStrengthTraining' -> 'Traditional Strength Training'
+function formatWorkoutTypeName(appleType: string): string {
+  return appleType.replace(/([a-z])([A-Z])/g, '$1 $2');
+}
+
+// --- Conversion to drafts ---
+
+function normalizeWorkout(xml: string): AppleHealthActivityDraft | null {
+  const startTag = xml.slice(0, xml.indexOf('>') + 1);
+  const attributes = parseAttributes(startTag);
+  const start = parseAppleDate(attributes.startDate);
+  const end = parseAppleDate(attributes.endDate);
+  if (!start || !end) return null;
+
+  const appleType = (attributes.workoutActivityType || '').replace(WORKOUT_TYPE_PREFIX, '') || 'Other';
+  let distanceMeters = convert(attributes.totalDistance, attributes.totalDistanceUnit, METERS_PER_UNIT);
+  let calories = convert(attributes.totalEnergyBurned, attributes.totalEnergyBurnedUnit, KCAL_PER_UNIT);
+  let averageHeartRateBpm: number | undefined;
+  let maxHeartRateBpm: number | undefined;
+  let elevationGainMeters: number | undefined;
+
+  // Since iOS 16, totals are in WorkoutStatistics children rather than on the workout itself.
+  for (const [, childName, childAttributes] of xml.slice(startTag.length).matchAll(/<(WorkoutStatistics|MetadataEntry)\b([^>]*)>/g)) {
+    const child = parseAttributes(childAttributes);
+    if (childName === 'MetadataEntry') {
+      if (child.key === 'HKElevationAscended') {
+        const [amount, unit] = (child.value || '').split(' ');
+        elevationGainMeters = convert(amount, unit, METERS_PER_UNIT);
+      }
+    } else if (child.type === 'HKQuantityTypeIdentifierHeartRate') {
+      averageHeartRateBpm = convert(child.average, child.unit, { 'count/min': 1 });
+      maxHeartRateBpm = convert(child.maximum, child.unit, { 'count/min': 1 });
+    } else if (child.type?.startsWith('HKQuantityTypeIdentifierDistance')) {
+      distanceMeters ??= convert(child.sum, child.unit, METERS_PER_UNIT);
+    } else if (child.type === 'HKQuantityTypeIdentifierActiveEnergyBurned') {
+      calories ??= convert(child.sum, child.unit, KCAL_PER_UNIT);
+    }
+  }
+
+  const elapsedSec = Math.round((end.utcMs - start.utcMs) / 1000);
+  const durationSec = convert(attributes.duration, attributes.durationUnit, SECONDS_PER_UNIT);
+  const originalId = `${start.utcMs}-${appleType}`;
+  const activity: AppleHealthActivityDraft = {
+    id: `${APPLE_HEALTH_DATA_SOURCE}-${originalId}`,
+    originalId,
+    type: WORKOUT_ACTIVITY_TYPES[appleType] ?? NormalizedActivityType.Other,
+    name: formatWorkoutTypeName(appleType),
+    startTimeUtc: new Date(start.utcMs).toISOString(),
+    startTimeLocal: start.localDateTime,
+    durationMovingSec: durationSec !== undefined ? Math.round(durationSec) : undefined,
+    durationElapsedSec: elapsedSec,
+    distanceMeters,
+    calories: calories !== undefined ? Math.round(calories) : undefined,
+    averageHeartRateBpm: averageHeartRateBpm !== undefined ? Math.round(averageHeartRateBpm) : undefined,
+    maxHeartRateBpm: maxHeartRateBpm !== undefined ? Math.round(maxHeartRateBpm) : undefined,
+    elevationGainMeters,
+    date: start.localDate,
+  };
+  return Object.fromEntries(Object.entries(activity).filter(([, value]) => value !== undefined)) as AppleHealthActivityDraft;
+}
+
+/**
+ * Groups sleep samples into nights. Phones record only "in bed" time while watches and sleep apps
+ * record stages, often for the same night, so each night takes its stages from the one source that
+ * recorded the most staged sleep, and its start and end from all samples.
+ */
+function buildSleepRecords(samples: SleepSample[]): AppleHealthSleepDraft[] {
+  samples.sort((a, b) => a.start.utcMs - b.start.utcMs);
+  const nights: SleepSample[][] = [];
+  let nightEndMs = -Infinity;
+  for (const sample of samples) {
+    if (sample.start.utcMs - nightEndMs > SLEEP_SESSION_GAP_MS) nights.push([]);
+    nights[nights.length - 1].push(sample);
+    nightEndMs = Math.max(nightEndMs, sample.end.utcMs);
+  }
+
+  const records = nights.map(night => {
+    const stagedMsBySource = new Map<string, number>();
+    for (const sample of night) {
+      if (sample.stage) stagedMsBySource.set(sample.source, (stagedMsBySource.get(sample.source) || 0) + sample.end.utcMs - sample.start.utcMs);
+    }
+    const stageSource = [...stagedMsBySource.entries()].sort((a, b) => b[1] - a[1])[0]?.[0];
+    const stageSegments: NormalizedSleepSegment[] = night
+      .filter(sample => sample.stage && sample.source === stageSource)
+      .map(sample => ({
+        stage: sample.stage!,
+        startTimeUtc: new Date(sample.start.utcMs).toISOString(),
+        durationSec: Math.round((sample.end.utcMs - sample.start.utcMs) / 1000),
+      }));
+
+    const startMs = night[0].start.utcMs;
+    const last = night.reduce((latest, sample) => (sample.end.utcMs > latest.end.utcMs ? sample : latest));
+    const durationSec = Math.round((last.end.utcMs - startMs) / 1000);
+    const stageMinutes = stageSegments.length > 0 ? summarizeSleepStages(stageSegments) : { asleep: Math.round(durationSec / 60) };
+    const minutesAsleep = getMinutesAsleepFromStages(stageMinutes);
+
+    const originalId = String(startMs);
+    const sleep: AppleHealthSleepDraft = {
+      id: `${APPLE_HEALTH_DATA_SOURCE}-${originalId}`,
+      originalId,
+      dateOfSleep: last.end.localDate,
+      startTimeUtc: new Date(startMs).toISOString(),
+      endTimeUtc: new Date(last.end.utcMs).toISOString(),
+      durationSec,
+      minutesAsleep,
+      minutesAwake: stageSegments.length > 0 ? (stageMinutes.awake || 0) : undefined,
+      efficiencyPercent: durationSec > 0 ? Math.min(100, Math.round((minutesAsleep * 60 / durationSec) * 100)) : undefined,
+      stageMinutes,
+      stageSegments: stageSegments.length > 0 ? stageSegments : undefined,
+    };
+    return Object.fromEntries(Object.entries(sleep).filter(([, value]) => value !== undefined)) as AppleHealthSleepDraft;
+  });
+
+  // The longest sleep ending on a day is that day's main sleep; shorter ones are naps.
+  const longestByDate = new Map<string, AppleHealthSleepDraft>();
+  for (const record of records) {
+    const longest = longestByDate.get(record.dateOfSleep);
+    if (!longest || record.durationSec > longest.durationSec) longestByDate.set(record.dateOfSleep, record);
+  }
+  records.forEach(record => { record.isMainSleep = longestByDate.get(record.dateOfSleep) === record; });
+  return records;
+}
+
+function createAppleHealthCollector() {
+  const activities: AppleHealthActivityDraft[] = [];
+  const measurements: AppleHealthMeasurementDraft[] = [];
+  const sleepSamples: SleepSample[] = [];
+  // Steps are summed per source: the phone and the watch both count steps, so a day's total is
+  // the count of the source that recorded the most, not the sum of both.
+  const stepsByDay = new Map<string, Map<string, number>>();
+  const heartRateByDay = new Map<string, { sum: number; count: number; min: number; max: number }>();
+  const restingHeartRateByDay = new Map<string, number>();
+
+  function addRecord(xml: string) {
+    const type = xml.match(/\btype="([^"]+)"/)?.[1];
+    if (!type || !HANDLED_RECORD_TYPES.has(type)) return;
+
+    const attributes = parseAttributes(xml.slice(0, xml.indexOf('>') + 1));
+    const start = parseAppleDate(attributes.startDate);
+    const end = parseAppleDate(attributes.endDate);
+    if (!start || !end) return;
+    const source = attributes.sourceName || 'unknown';
+    const value = Number(attributes.value);
+
+    switch (type) {
+      case 'HKQuantityTypeIdentifierStepCount': {
+        if (!Number.isFinite(value)) return;
+        const sources = stepsByDay.get(start.localDate) ?? new Map<string, number>();
+        sources.set(source, (sources.get(source) || 0) + value);
+        stepsByDay.set(start.localDate, sources);
+        break;
+      }
+      case 'HKQuantityTypeIdentifierHeartRate': {
+        if (!Number.isFinite(value) || value <= 0) return;
+        const day = heartRateByDay.get(start.localDate) ?? { sum: 0, count: 0, min: value, max: value };
+        day.sum += value;
+        day.count++;
+        day.min = Math.min(day.min, value);
+        day.max = Math.max(day.max, value);
+        heartRateByDay.set(start.localDate, day);
+        break;
+      }
+      case 'HKQuantityTypeIdentifierRestingHeartRate': {
+        if (!Number.isFinite(value) || value <= 0) return;
+        const current = restingHeartRateByDay.get(start.localDate);
+        restingHeartRateByDay.set(start.localDate, current === undefined ? value : Math.min(current, value));
+        break;
+      }
+      case 'HKQuantityTypeIdentifierBodyMass': {
+        const weightKg = convert(attributes.value, attributes.unit, KG_PER_UNIT);
+        if (weightKg === undefined) return;
+        const originalId = `${start.utcMs}-body-mass`;
+        measurements.push({
+          id: `${APPLE_HEALTH_DATA_SOURCE}-${originalId}`,
+          originalId,
+          measuredAtUtc: new Date(start.utcMs).toISOString(),
+          date: start.localDate,
+          weightKg: Math.round(weightKg * 100) / 100,
+        });
+        break;
+      }
+      case 'HKCategoryTypeIdentifierSleepAnalysis': {
+        if (attributes.value !== SLEEP_IN_BED_VALUE && !SLEEP_VALUE_STAGES[attributes.value]) return;
+        if (end.utcMs <= start.utcMs) return;
+        sleepSamples.push({ source, start, end, stage: SLEEP_VALUE_STAGES[attributes.value] });
+        break;
+      }
+    }
+  }
+
+  function addWorkout(xml: string) {
+    const activity = normalizeWorkout(xml);
+    if (activity) activities.push(activity);
+  }
+
+  function finish(): AppleHealthImportData {
+    const dates = new Set([...stepsByDay.keys(), ...heartRateByDay.keys(), ...restingHeartRateByDay.keys()]);
+    const dailySummaries = [...dates].sort().map(date => {
+      const sources = stepsByDay.get(date);
+      const heartRate = heartRateByDay.get(date);
+      const summary: AppleHealthDailySummaryDraft = {
+        date,
+        steps: sources ? Math.round(Math.max(...sources.values())) : undefined,
+        restingHeartRate: restingHeartRateByDay.get(date),
+        averageHeartRate: heartRate ? Math.round(heartRate.sum / heartRate.count) : undefined,
+        minHeartRate: heartRate?.min,
+        maxHeartRate: heartRate?.max,
+      };
+      return Object.fromEntries(Object.entries(summary).filter(([, value]) => value !== undefined)) as AppleHealthDailySummaryDraft;
+    });
+
+    return {
+      activities,
+      dailySummaries,
+      measurements,
+      sleep: buildSleepRecords(sleepSamples),
+    };
+  }
+
+  return { addRecord, addWorkout, finish };
+}
+
+/**
+ * Reads an Apple Health export.zip, or the export.xml extracted from it.
+ * @param onProgress Called with the share of the file read so far, from 0 to 1.
+ */
+export async function readAppleHealthExport(file: File, onProgress?: (fraction: number) => void): Promise<AppleHealthImportData> {
+  const header = new Uint8Array(await file.slice(0, 4).arrayBuffer());
+  const isZip = header[0] === 0x50 && header[1] === 0x4b; // 'PK'
+
+  let stream: ReadableStream<Uint8Array>;
+  if (isZip) {
+    const entry = await findZipEntry(file, name => /(^|\/)export\.xml$/.test(name));
+    if (!entry) {
+      throw new Error('export.xml was not found in the archive. Please choose the export.zip created by the Health app.');
+    }
+    stream = entry.open(bytesRead => onProgress?.(bytesRead / entry.compressedSize));
+  } else {
+    stream = openFileStream(file, bytesRead => onProgress?.(bytesRead / file.size));
+  }
+
+  const collector = createAppleHealthCollector();
+  await scanHealthElements(stream.pipeThrough(new TextDecoderStream()), (name, xml) =>
+    name === 'Workout' ? collector.addWorkout(xml) : collector.addRecord(xml)
+  );
+  return collector.finish();
+}
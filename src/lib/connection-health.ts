@@ -0,0 +1,132 @@
+// src/lib/connection-health.ts
+
+/**
+ * @fileOverview Sync run history and connection health
+ * Every execution of a provider sync, whether started by the user, the scheduler or a webhook, is
+ * recorded through `trackSyncRun` as a document in `users/{uid}/sync_runs`. The outcome is also folded
+ * into the provider's entry in the profile's `syncHealth`, which the connection health panel reads.
+ *
+ * A connection whose token refresh fails is flagged with `reconnectRequiredAt` on the profile, so the
+ * user is asked to reconnect instead of seeing syncs fail without explanation.
+ */
+
+import { adminDb } from '@/lib/firebase/serverApp';
+import type { ProviderSyncHealth, SelectableService, SyncProviderId, SyncRunFirestore, SyncTrigger, UserProfile } from '@/types';
+
+interface SyncRunOutcome {
+  success: boolean;
+  message: string;
+  syncedCount?: number;
+  error?: string;
+  resumeCursor?: string;
+}
+
+interface SyncRunDetails {
+  provider: SyncProviderId;
+  trigger: SyncTrigger;
+  window?: { from: string; to: string }; // YYYY-MM-DD
+}
+
+/**
+ * Stores a sync run and updates the provider's health summary on the profile.
+ * Failures are logged only; losing a history entry must not fail the sync it describes.
+ */
+async function recordSyncRun(userId: string, run: SyncRunFirestore): Promise<void> {
+  try {
+    const userRef = adminDb.collection('users').doc(userId);
+    const runRef = await userRef.collection('sync_runs').add(run);
+
+    const health: ProviderSyncHealth = {
+      lastRunId: runRef.id,
+      lastRunAt: run.finishedAt,
+      lastRunStatus: run.status,
+    };
+    if (run.status === 'success') {
+      health.lastSuccessAt = run.finishedAt;
+    } else if (run.status === 'error') {
+      health.lastFailureAt = run.finishedAt;
+      health.lastFailureMessage = run.error || run.message;
+    }
+    // Merging keeps the last success when a run fails and vice versa.
+    await userRef.set({ syncHealth: { [run.provider]: health } }, { merge: true });
+  } catch (error: any) {
+    console.error(`[ConnectionHealth] Failed to record ${run.provider} sync run for user ${userId}:`, error.message);
+  }
+}
+
+/**
+ * Runs a sync and records it as a sync run. An exception thrown by the sync is recorded as a failed run
+ * and then rethrown.
+ */
+export async function trackSyncRun<T extends SyncRunOutcome>(userId: string, details: SyncRunDetails, sync: () => Promise<T>): Promise<T> {
+  const startedAt = new Date();
+  const finish = (outcome: SyncRunOutcome) => {
+    const finishedAt = new Date();
+    const run: SyncRunFirestore = {
+      provider: details.provider,
+      trigger: details.trigger,
+      status: outcome.resumeCursor ? 'rate_limited' : outcome.success ? 'success' : 'error',
+      message: outcome.message,
+      syncedCount: outcome.syncedCount || 0,
+      startedAt: startedAt.toISOString(),
+      finishedAt: finishedAt.toISOString(),
+      durationMs: finishedAt.getTime() - startedAt.getTime(),
+    };
+    // Firestore rejects undefined values.
+    if (details.window) run.window = details.window;
+    if (outcome.error) run.error = outcome.error;
+    if (outcome.resumeCursor) run.resumeCursor = outcome.resumeCursor;
+    return recordSyncRun(userId, run);
+  };
+
+  try {
+    const outcome = await sync();
+    await finish(outcome);
+    return outcome;
+  } catch (error: any) {
+    await finish({ success: false, message: 'The sync failed with an unexpected error.', error: String(error?.message || 'Unknown error') });
+    throw error;
+  }
+}
+
+// Applies a change to one entry of the profile's connections. `update` returns null to leave it unchanged.
+async function updateConnection(userId: string, providerId: SyncProviderId, update: (conn: SelectableService) => SelectableService | null) {
+  const userRef = adminDb.collection('users').doc(userId);
+  const userSnap = await userRef.get();
+  if (!userSnap.exists) return;
+
+  const connections = (userSnap.data() as UserProfile).connectedFitnessApps || [];
+  const index = connections.findIndex(conn => conn.id === providerId);
+  if (index === -1) return;
+
+  const updated = update(connections[index]);
+  if (!updated) return;
+  await userRef.update({ connectedFitnessApps: connections.map((conn, i) => i === index ? updated : conn) });
+}
+
+/**
+ * Flags a connection whose tokens could not be refreshed, so the UI asks the user to reconnect.
+ */
+export async function markReconnectRequired(userId: string, providerId: SyncProviderId): Promise<void> {
+  try {
+    await updateConnection(userId, providerId, conn => conn.reconnectRequiredAt ? null : { ...conn, reconnectRequiredAt: new Date().toISOString() });
+  } catch (error: any) {
+    console.error(`[ConnectionHealth] Failed to flag ${providerId} for reconnection for user ${userId}:`, error.message);
+  }
+}
+
+/**
+ * Clears the reconnect flag after the tokens were refreshed successfully, e.g. when the earlier failure
+ * was a temporary outage at the provider.
+ */
+export async function clearReconnectRequired(userId: string, providerId: SyncProviderId): Promise<void> {
+  try {
+    await updateConnection(userId, providerId, conn => {
+      if (!conn.reconnectRequiredAt) return null;
+      const { reconnectRequiredAt, ...rest } = conn;
+      return rest;
+    });
+  } catch (error: any) {
+    console.error(`[ConnectionHealth] Failed to clear the ${providerId} reconnect flag for user ${userId}:`, error.message);
+  }
+}
@@ -0,0 +1,92 @@
+// src/lib/downsampling.ts
+
+/**
+ * @fileOverview Downsampling for high-frequency series
+ * Recorded streams (e.g. one heart rate sample per second) are far denser than a chart can show
+ * and too large to store in a single Firestore document. These helpers reduce them to a fixed
+ * number of points, either before they are stored or before they are sent to a chart.
+ */
+
+/**
+ * Splits `length` samples into at most `maxPoints` consecutive buckets of (nearly) equal size.
+ * @returns The [start, end) index range of each bucket.
+ */
+function getBuckets(length: number, maxPoints: number): Array<[number, number]> {
+  const bucketCount = Math.min(length, Math.max(1, maxPoints));
+  const buckets: Array<[number, number]> = [];
+  for (let i = 0; i < bucketCount; i++) {
+    buckets.push([Math.floor((i * length) / bucketCount), Math.floor(((i + 1) * length) / bucketCount)]);
+  }
+  return buckets;
+}
+
+function mean(values: number[], start: number, end: number): number {
+  let sum = 0;
+  for (let i = start; i < end; i++) sum += values[i];
+  return sum / (end - start);
+}
+
+/**
+ * Downsamples several series recorded at the same sample points (e.g. an activity's time, distance
+ * and heart rate streams) to at most `maxPoints` points, averaging each bucket. The series stay
+ * aligned: point i of every result describes the same bucket.
+ * Series shorter than the longest one are ignored, since they cannot be aligned.
+ */
+export function downsampleAlignedSeries<K extends string>(
+  series: Partial<Record<K, number[]>>,
+  maxPoints: number
+): Partial<Record<K, number[]>> {
+  const entries = Object.entries(series) as Array<[K, number[] | undefined]>;
+  const length = Math.max(0, ...entries.map(([, values]) => values?.length ?? 0));
+  const buckets = getBuckets(length, maxPoints);
+
+  const result: Partial<Record<K, number[]>> = {};
+  for (const [key, values] of entries) {
+    if (!values || values.length !== length) continue;
+    result[key] = length <= maxPoints ? [...values] : buckets.map(([start, end]) => mean(values, start, end));
+  }
+  return result;
+}
+
+export interface MinMaxMeanPoint {
+  t: number; // Start of the bucket, in the same unit as the samples' `t`
+  min: number;
+  max: number;
+  mean: number;
+  count: number; // Number of samples in the bucket
+}
+
+/**
+ * Downsamples a time series into at most `maxPoints` buckets of equal duration covering [start, end),
+ * keeping each bucket's minimum, maximum and mean so that short peaks survive the reduction.
+ * Buckets without samples are left out, so gaps in the recording stay visible.
+ * @param samples Samples sorted by `t`.
+ */
+export function downsampleMinMaxMean(
+  samples: Array<{ t: number; value: number }>,
+  start: number,
+  end: number,
+  maxPoints: number
+): { bucketSize: number; points: MinMaxMeanPoint[] } {
+  const bucketSize = Math.max(1, Math.ceil((end - start) / Math.max(1, maxPoints)));
+  const points: MinMaxMeanPoint[] = [];
+  let current: MinMaxMeanPoint | null = null;
+  let sum = 0;
+
+  for (const sample of samples) {
+    if (sample.t < start || sample.t >= end) continue;
+    const bucketStart = start + Math.floor((sample.t - start) / bucketSize) * bucketSize;
+    if (!current || current.t !== bucketStart) {
+      if (current) points.push({ ...current, mean: sum / current.count });
+      current = { t: bucketStart, min: sample.value, max: sample.value, mean: 0, count: 0 };
+      sum = 0;
+    }
+    current.min = Math.min(current.min, sample.value);
+    current.max = Math.max(current.max, sample.value);
+    current.count++;
+    sum += sample.value;
+  }
+  if (current) points.push({ ...current, mean: sum / current.count });
+
+  return { bucketSize, points };
+}
@@ -0,0 +1,197 @@
+// src/lib/fit-parser.ts
+
+/**
+ * @fileOverview Minimal reader for Garmin FIT activity files
+ * FIT is a compact binary format: a stream of definition messages, which describe the layout of a
+ * local message type, and data messages in that layout. Only the messages needed for an activity
+ * are decoded (file_id, session and record); everything else is skipped using its definition.
+ * See the FIT protocol description in the Garmin FIT SDK for the format details.
+ */
+
+import { createActivityFileParseError, type ParsedActivityFile, type TrackPoint } from '@/lib/activity-file-parsers';
+
+// FIT timestamps count seconds from 1989-12-31T00:00:00Z.
+const FIT_EPOCH_UNIX_SEC = 631065600;
+const SEMICIRCLES_TO_DEGREES = 180 / 2 ** 31;
+
+const MESG_FILE_ID = 0;
+const MESG_SESSION = 18;
+const MESG_RECORD = 20;
+const FIELD_TIMESTAMP = 253;
+const FILE_TYPE_ACTIVITY = 4;
+
+// FIT sport enum values, named as in the FIT profile.
+const FIT_SPORTS: Record<number, string> = {
+  1: 'running',
+  2: 'cycling',
+  4: 'fitness_equipment',
+  5: 'swimming',
+  10: 'training',
+  11: 'walking',
+  17: 'hiking',
+};
+
+interface BaseType {
+  size: number;
+  read: (buffer: Buffer, offset: number, littleEndian: boolean) => number;
+  invalid: number; // The value that marks a field as not set
+}
+
+// Keyed by the base type number without its endian flag (the top bit).
+const BASE_TYPES: Record<number, BaseType> = {
+  0x00: { size: 1, read: (b, o) => b.readUInt8(o), invalid: 0xff }, // enum
+  0x01: { size: 1, read: (b, o) => b.readInt8(o), invalid: 0x7f }, // sint8
+  0x02: { size: 1, read: (b, o) => b.readUInt8(o), invalid: 0xff }, // uint8
+  0x03: { size: 2, read: (b, o, le) => (le ? b.readInt16LE(o) : b.readInt16BE(o)), invalid: 0x7fff }, // sint16
+  0x04: { size: 2, read: (b, o, le) => (le ? b.readUInt16LE(o) : b.readUInt16BE(o)), invalid: 0xffff }, // uint16
+  0x05: { size: 4, read: (b, o, le) => (le ? b.readInt32LE(o) : b.readInt32BE(o)), invalid: 0x7fffffff }, // sint32
+  0x06: { size: 4, read: (b, o, le) => (le ? b.readUInt32LE(o) : b.readUInt32BE(o)), invalid: 0xffffffff }, // uint32
+  0x0a: { size: 1, read: (b, o) => b.readUInt8(o), invalid: 0 }, // uint8z
+  0x0b: { size: 2, read: (b, o, le) => (le ? b.readUInt16LE(o) : b.readUInt16BE(o)), invalid: 0 }, // uint16z
+  0x0c: { size: 4, read: (b, o, le) => (le ? b.readUInt32LE(o) : b.readUInt32BE(o)), invalid: 0 }, // uint32z
+};
+
+interface FieldDefinition {
+  fieldNum: number;
+  size: number;
+  baseType: number;
+}
+
+interface MessageDefinition {
+  globalMessageNum: number;
+  littleEndian: boolean;
+  fields: FieldDefinition[];
+  developerDataSize: number; // Developer fields are skipped, not decoded
+}
+
+/**
+ * Reads the numeric single-value fields of a data message. Arrays, strings and invalid values are left out.
+ */
+function readDataMessage(buffer: Buffer, offset: number, definition: MessageDefinition): Map<number, number> {
+  const fields = new Map<number, number>();
+  let position = offset;
+  for (const field of definition.fields) {
+    const baseType = BASE_TYPES[field.baseType & 0x1f];
+    if (baseType && baseType.size === field.size) {
+      const value = baseType.read(buffer, position, definition.littleEndian);
+      if (value !== baseType.invalid) fields.set(field.fieldNum, value);
+    }
+    position += field.size;
+  }
+  return fields;
+}
+
+function getMessageSize(definition: MessageDefinition): number {
+  return definition.fields.reduce((sum, field) => sum + field.size, 0) + definition.developerDataSize;
+}
+
+function toTrackPoint(fields: Map<number, number>, timestamp: number): TrackPoint {
+  const lat = fields.get(0);
+  const lon = fields.get(1);
+  const altitude = fields.get(78) ?? fields.get(2); // enhanced_altitude, altitude
+  const distance = fields.get(5);
+  const speed = fields.get(73) ?? fields.get(6); // enhanced_speed, speed
+  return {
+    timeMs: (timestamp + FIT_EPOCH_UNIX_SEC) * 1000,
+    lat: lat !== undefined && lon !== undefined ? lat * SEMICIRCLES_TO_DEGREES : undefined,
+    lon: lat !== undefined && lon !== undefined ? lon * SEMICIRCLES_TO_DEGREES : undefined,
+    altitudeMeters: altitude !== undefined ? altitude / 5 - 500 : undefined,
+    distanceMeters: distance !== undefined ? distance / 100 : undefined,
+    heartRateBpm: fields.get(3),
+    cadence: fields.get(4),
+    speedMetersPerSec: speed !== undefined ? speed / 1000 : undefined,
+  };
+}
+
+/**
+ * Reads the track points, sport and calories of a FIT activity file.
+ */
+export function parseFitFile(buffer: Buffer): ParsedActivityFile {
+  if (buffer.length < 12 || buffer.toString('ascii', 8, 12) !== '.FIT') {
+    throw createActivityFileParseError('The file is not a valid FIT file.');
+  }
+  const headerSize = buffer.readUInt8(0);
+  const dataEnd = Math.min(buffer.length, headerSize + buffer.readUInt32LE(4));
+
+  const definitions = new Map<number, MessageDefinition>();
+  const points: TrackPoint[] = [];
+  let sport: string | undefined;
+  let calories: number | undefined;
+  let lastTimestamp: number | undefined;
+  let offset = headerSize;
+
+  try {
+    while (offset < dataEnd) {
+      const header = buffer.readUInt8(offset++);
+
+      if ((header & 0x80) === 0 && (header & 0x40) !== 0) {
+        // Definition message
+        const hasDeveloperData = (header & 0x20) !== 0;
+        const littleEndian = buffer.readUInt8(offset + 1) === 0;
+        const globalMessageNum = littleEndian ? buffer.readUInt16LE(offset + 2) : buffer.readUInt16BE(offset + 2);
+        const fieldCount = buffer.readUInt8(offset + 4);
+        offset += 5;
+        const fields: FieldDefinition[] = [];
+        for (let i = 0; i < fieldCount; i++, offset += 3) {
+          fields.push({ fieldNum: buffer.readUInt8(offset), size: buffer.readUInt8(offset + 1), baseType: buffer.readUInt8(offset + 2) });
+        }
+        let developerDataSize = 0;
+        if (hasDeveloperData) {
+          const developerFieldCount = buffer.readUInt8(offset++);
+          for (let i = 0; i < developerFieldCount; i++, offset += 3) {
+            developerDataSize += buffer.readUInt8(offset + 1);
+          }
+        }
+        definitions.set(header & 0x0f, { globalMessageNum, littleEndian, fields, developerDataSize });
+        continue;
+      }
+
+      // Data message, with either a normal header or a compressed timestamp header
+      const compressed = (header & 0x80) !== 0;
+      const definition = definitions.get(compressed ? (header >> 5) & 0x03 : header & 0x0f);
+      if (!definition) {
+        throw createActivityFileParseError('The FIT file is corrupt: a message has no definition.');
+      }
+      const messageSize = getMessageSize(definition);
+      if (offset + messageSize > buffer.length) break; // Truncated file; keep what was read
+
+      const fields = readDataMessage(buffer, offset, definition);
+      offset += messageSize;
+
+      let timestamp = fields.get(FIELD_TIMESTAMP);
+      if (compressed && lastTimestamp !== undefined) {
+        // The header holds the low 5 bits of the timestamp; they roll over every 32 seconds.
+        const timeOffset = header & 0x1f;
+        timestamp = lastTimestamp + ((timeOffset - (lastTimestamp & 0x1f)) & 0x1f);
+      }
+      if (timestamp !== undefined) lastTimestamp = timestamp;
+
+      switch (definition.globalMessageNum) {
+        case MESG_FILE_ID: {
+          const fileType = fields.get(0);
+          if (fileType !== undefined && fileType !== FILE_TYPE_ACTIVITY) {
+            throw createActivityFileParseError('The FIT file is not an activity (it may be a course, workout or settings file).');
+          }
+          break;
+        }
+        case MESG_SESSION: {
+          const sportValue = fields.get(5);
+          if (sport === undefined && sportValue !== undefined) sport = FIT_SPORTS[sportValue];
+          const sessionCalories = fields.get(11);
+          if (sessionCalories !== undefined) calories = (calories ?? 0) + sessionCalories;
+          break;
+        }
+        case MESG_RECORD:
+          if (timestamp !== undefined) points.push(toTrackPoint(fields, timestamp));
+          break;
+      }
+    }
+  } catch (error: any) {
+    if (error instanceof RangeError) {
+      throw createActivityFileParseError('The FIT file is corrupt or truncated.');
+    }
+    throw error;
+  }
+
+  return { format: 'fit', sport, calories, points };
+}
@@ -1,9 +1,10 @@
 
 'use server';
 
-import { adminDb } from '@/lib/firebase/serverApp';
-
-const FITBIT_TOKEN_URL = 'https://api.fitbit.com/oauth2/token';
+import { registerAccessTokenOwner } from '@/lib/api-quota';
+import { clearReconnectRequired, markReconnectRequired } from '@/lib/connection-health';
+import { readProviderTokens, writeProviderTokens } from '@/lib/token-store';
+import { OAUTH_PROVIDERS, getOAuthClientCredentials, requestOAuthTokens, type OAuthTokenSet } from '@/lib/oauth/providers';
 
 interface FitbitTokenData {
   accessToken: string;
@@ -13,26 +14,13 @@ interface FitbitTokenData {
 
 // Store tokens in Firestore, scoped to the user
 async function getFitbitTokens(userId: string): Promise<FitbitTokenData | null> {
-  const tokenDocRef = adminDb.collection('users').doc(userId).collection('private_tokens').doc('fitbit');
-  const docSnap = await tokenDocRef.get();
-  if (docSnap.exists) {
-    return docSnap.data() as FitbitTokenData;
-  }
-  return null;
+  return readProviderTokens<FitbitTokenData>(userId, 'fitbit');
 }
 
-export async function setFitbitTokens(
-  userId: string,
-  accessToken: string,
-  refreshToken: string,
-  expiresIn: number // seconds
-): Promise<void> {
-  const tokenDocRef = adminDb.collection('users').doc(userId).collection('private_tokens').doc('fitbit');
-  const now = Date.now();
-  const expiresAt = now + expiresIn * 1000;
-
-  const tokenData: FitbitTokenData = { accessToken, refreshToken, expiresAt };
-  await tokenDocRef.set(tokenData, { merge: true });
+export async function setFitbitTokens(userId: string, tokens: OAuthTokenSet): Promise<void> {
+  const tokenData: Partial<FitbitTokenData> = { accessToken: tokens.accessToken, expiresAt: tokens.expiresAt };
+  if (tokens.refreshToken) tokenData.refreshToken = tokens.refreshToken;
+  await writeProviderTokens<FitbitTokenData>(userId, 'fitbit', tokenData);
   console.log('[FitbitAuthUtils] Fitbit tokens stored in Firestore.');
 }
 
@@ -40,40 +28,26 @@ export async function refreshFitbitTokens(userId: string): Promise<string | null
   const tokenData = await getFitbitTokens(userId);
   if (!tokenData?.refreshToken) {
     console.error('[FitbitAuthUtils] No refresh token available to refresh.');
+    await markReconnectRequired(userId, 'fitbit');
     return null;
   }
 
-  const clientId = process.env.NEXT_PUBLIC_FITBIT_CLIENT_ID;
-  const clientSecret = process.env.FITBIT_CLIENT_SECRET;
-  if (!clientId || !clientSecret) {
+  const provider = OAUTH_PROVIDERS.fitbit;
+  if (!getOAuthClientCredentials(provider)) {
     throw new Error("Fitbit client credentials not configured.");
   }
-  
-  const credentials = Buffer.from(`${clientId}:${clientSecret}`).toString('base64');
-  
+
   try {
-    const response = await fetch(FITBIT_TOKEN_URL, {
-      method: 'POST',
-      headers: {
-        'Authorization': `Basic ${credentials}`,
-        'Content-Type': 'application/x-www-form-urlencoded',
-      },
-      body: new URLSearchParams({
-        grant_type: 'refresh_token',
-        refresh_token: tokenData.refreshToken,
-      }),
+    const tokens = await requestOAuthTokens(provider, {
+      grant_type: 'refresh_token',
+      refresh_token: tokenData.refreshToken,
     });
-
-    const data = await response.json();
-    if (!response.ok) {
-      console.error('[FitbitAuthUtils] Fitbit token refresh failed:', data);
-      return null;
-    }
-
-    await setFitbitTokens(userId, data.access_token, data.refresh_token, data.expires_in);
-    return data.access_token;
-  } catch (error) {
-    console.error('[FitbitAuthUtils] Exception during token refresh:', error);
+    await setFitbitTokens(userId, tokens);
+    await clearReconnectRequired(userId, 'fitbit');
+    return tokens.accessToken;
+  } catch (error: any) {
+    console.error('[FitbitAuthUtils] Fitbit token refresh failed:', error.details || error);
+    await markReconnectRequired(userId, 'fitbit');
     return null;
   }
 }
@@ -83,10 +57,15 @@ export async function getValidFitbitAccessToken(userId: string): Promise<string
   if (!tokenData) return null;
 
   const bufferTime = 5 * 60 * 1000; // 5 minutes
+  let accessToken: string | null = tokenData.accessToken;
   if (Date.now() >= tokenData.expiresAt - bufferTime) {
     console.log('[FitbitAuthUtils] Token expired or nearing expiry, refreshing...');
-    return await refreshFitbitTokens(userId);
+    accessToken = await refreshFitbitTokens(userId);
   }
   
-  return tokenData.accessToken;
+  if (accessToken) {
+    // Lets the API quota layer record calls made with this token on the user's profile.
+    registerAccessTokenOwner(accessToken, userId);
+  }
+  return accessToken;
 }
@@ -1,9 +1,10 @@
 
 'use server';
 
-import { adminDb } from '@/lib/firebase/serverApp';
-
-const GOOGLE_TOKEN_URL = 'https://oauth2.googleapis.com/token';
+import { registerAccessTokenOwner } from '@/lib/api-quota';
+import { clearReconnectRequired, markReconnectRequired } from '@/lib/connection-health';
+import { readProviderTokens, writeProviderTokens } from '@/lib/token-store';
+import { OAUTH_PROVIDERS, getOAuthClientCredentials, requestOAuthTokens, type OAuthTokenSet } from '@/lib/oauth/providers';
 
 interface GoogleTokenData {
   accessToken: string;
@@ -11,37 +12,16 @@ interface GoogleTokenData {
   expiresAt: number; // Timestamp in milliseconds
 }
 
-interface GoogleTokenResponse {
-  access_token: string;
-  expires_in: number; // seconds
-  refresh_token?: string; 
-  scope: string;
-  token_type: string;
-}
-
-
 // Store tokens in Firestore, scoped to the user
 async function getGoogleFitTokens(userId: string): Promise<GoogleTokenData | null> {
-  const tokenDocRef = adminDb.collection('users').doc(userId).collection('private_tokens').doc('google-fit');
-  const docSnap = await tokenDocRef.get();
-  if (docSnap.exists) {
-    return docSnap.data() as GoogleTokenData;
-  }
-  return null;
+  return readProviderTokens<GoogleTokenData>(userId, 'google-fit');
 }
 
-export async function setGoogleFitTokens(
-  userId: string,
-  accessToken: string,
-  refreshToken: string, // Refresh token might not always be provided on refresh
-  expiresIn: number // seconds
-): Promise<void> {
-  const tokenDocRef = adminDb.collection('users').doc(userId).collection('private_tokens').doc('google-fit');
-  const now = Date.now();
-  const expiresAt = now + expiresIn * 1000;
-  
-  const tokenData: GoogleTokenData = { accessToken, refreshToken, expiresAt };
-  await tokenDocRef.set(tokenData, { merge: true });
+export async function setGoogleFitTokens(userId: string, tokens: OAuthTokenSet): Promise<void> {
+  const tokenData: Partial<GoogleTokenData> = { accessToken: tokens.accessToken, expiresAt: tokens.expiresAt };
+  // Google usually omits the refresh token on refresh; the merge keeps the stored one.
+  if (tokens.refreshToken) tokenData.refreshToken = tokens.refreshToken;
+  await writeProviderTokens<GoogleTokenData>(userId, 'google-fit', tokenData);
   console.log('[GoogleFitAuthUtils] Google Fit tokens stored in Firestore.');
 }
 
@@ -49,44 +29,26 @@ export async function refreshGoogleFitTokens(userId: string): Promise<string | n
   const tokenData = await getGoogleFitTokens(userId);
   if (!tokenData?.refreshToken) {
     console.error('[GoogleFitAuthUtils] No refresh token available to refresh.');
+    await markReconnectRequired(userId, 'googlefit');
     return null;
   }
 
-  const clientId = process.env.NEXT_PUBLIC_GOOGLE_FIT_CLIENT_ID;
-  const clientSecret = process.env.GOOGLE_FIT_CLIENT_SECRET;
-  if (!clientId || !clientSecret) {
+  const provider = OAUTH_PROVIDERS.googlefit;
+  if (!getOAuthClientCredentials(provider)) {
     throw new Error("Google client credentials not configured.");
   }
 
   try {
-    const response = await fetch(GOOGLE_TOKEN_URL, {
-      method: 'POST',
-      headers: {
-        'Content-Type': 'application/x-www-form-urlencoded',
-      },
-      body: new URLSearchParams({
-        client_id: clientId,
-        client_secret: clientSecret,
-        grant_type: 'refresh_token',
-        refresh_token: tokenData.refreshToken,
-      }),
+    const tokens = await requestOAuthTokens(provider, {
+      grant_type: 'refresh_token',
+      refresh_token: tokenData.refreshToken,
     });
-
-    const data: GoogleTokenResponse | { error: string; error_description?: string } = await response.json();
-    if (!response.ok) {
-      console.error('[GoogleFitAuthUtils] Google Fit token refresh failed:', data);
-      return null;
-    }
-    
-    const refreshedTokenData = data as GoogleTokenResponse;
-
-    // Google might not return a new refresh token; use the old one if not provided.
-    await setGoogleFitTokens(userId, refreshedTokenData.access_token, refreshedTokenData.refresh_token || tokenData.refreshToken, refreshedTokenData.expires_in);
-    
-    return refreshedTokenData.access_token;
-
-  } catch (error) {
-    console.error('[GoogleFitAuthUtils] Exception during token refresh:', error);
+    await setGoogleFitTokens(userId, tokens);
+    await clearReconnectRequired(userId, 'googlefit');
+    return tokens.accessToken;
+  } catch (error: any) {
+    console.error('[GoogleFitAuthUtils] Google Fit token refresh failed:', error.details || error);
+    await markReconnectRequired(userId, 'googlefit');
     return null;
   }
 }
@@ -96,10 +58,15 @@ export async function getValidGoogleFitAccessToken(userId: string): Promise<stri
   if (!tokenData) return null;
 
   const bufferTime = 5 * 60 * 1000; // 5 minutes
+  let accessToken: string | null = tokenData.accessToken;
   if (Date.now() >= tokenData.expiresAt - bufferTime) {
     console.log('[GoogleFitAuthUtils] Token expired or nearing expiry, refreshing...');
-    return await refreshGoogleFitTokens(userId);
+    accessToken = await refreshGoogleFitTokens(userId);
   }
   
-  return tokenData.accessToken;
+  if (accessToken) {
+    // Lets the API quota layer record calls made with this token on the user's profile.
+    registerAccessTokenOwner(accessToken, userId);
+  }
+  return accessToken;
 }
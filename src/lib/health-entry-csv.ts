@@ -0,0 +1,281 @@
+// src/lib/health-entry-csv.ts
+
+/**
+ * @fileOverview CSV import and export of timeline entries
+ * Exported files have one column per `HEALTH_ENTRY_CSV_FIELDS` entry, so they can be imported
+ * again without remapping. Imported rows are validated with the same per-type schemas as the
+ * manual entry form; rows that fail are reported with their reasons instead of being imported.
+ * Exported cells that a spreadsheet app would run as a formula are prefixed with a quote, which the
+ * import removes again.
+ */
+
+import * as z from 'zod';
+import { formatISO, isValid, parseISO } from 'date-fns';
+import type { HealthEntry, HealthEntrySource, HealthMetricType } from '@/types';
+import { healthEntrySources, healthMetricCategories, healthMetricDisplayNames } from '@/types';
+import { healthEntrySchemas } from '@/lib/health-entry-schemas';
+import { toCsv } from '@/lib/csv';
+
+export const HEALTH_ENTRY_CSV_FIELDS = [
+  'date', 'type', 'title', 'notes', 'value', 'unit', 'quality',
+  'doctor', 'location', 'reason', 'visitNotes',
+  'medicationName', 'dosage', 'frequency',
+  'conditionName', 'diagnosisDate', 'status',
+  'totalCholesterol', 'ldl', 'hdl', 'triglycerides',
+  'systolic', 'diastolic',
+  'source',
+] as const;
+
+export type HealthEntryCsvField = typeof HEALTH_ENTRY_CSV_FIELDS[number];
+
+// The field each CSV column is imported as, by column index. null ignores the column.
+export type HealthEntryCsvMapping = (HealthEntryCsvField | null)[];
+
+export const healthEntryCsvFieldLabels: Record<HealthEntryCsvField, string> = {
+  date: 'Date', type: 'Type', title: 'Title', notes: 'Notes', value: 'Value', unit: 'Unit', quality: 'Quality',
+  doctor: 'Doctor', location: 'Location', reason: 'Reason', visitNotes: 'Visit notes',
+  medicationName: 'Medication name', dosage: 'Dosage', frequency: 'Frequency',
+  conditionName: 'Condition name', diagnosisDate: 'Diagnosis date', status: 'Status',
+  totalCholesterol: 'Total cholesterol', ldl: 'LDL', hdl: 'HDL', triglycerides: 'Triglycerides',
+  systolic: 'Systolic', diastolic: 'Diastolic',
+  source: 'Source',
+};
+
+// Types with a single possible unit don't need a unit column.
+const DEFAULT_UNITS: Partial<Record<HealthMetricType, string>> = {
+  breathing: 'breaths/min',
+  pulse: 'bpm',
+  bodyFat: '%',
+  bloodPressure: 'mmHg',
+};
+
+export interface AcceptedHealthEntryRow {
+  rowNumber: number; // Line of the file, counting the header as line 1
+  entry: HealthEntry;
+}
+
+export interface RejectedHealthEntryRow {
+  rowNumber: number;
+  reasons: string[];
+}
+
+export interface HealthEntryCsvPreview {
+  accepted: AcceptedHealthEntryRow[];
+  rejected: RejectedHealthEntryRow[];
+}
+
+function normalizeHeader(header: string): string {
+  return header.toLowerCase().replace(/[^a-z0-9]/g, '');
+}
+
+/**
+ * Suggests a field for each column from the header row, matching field names and labels
+ * regardless of case, spacing and punctuation.
+ */
+export function guessHealthEntryCsvMapping(headers: string[]): HealthEntryCsvMapping {
+  const used = new Set<HealthEntryCsvField>();
+  return headers.map(header => {
+    const normalized = normalizeHeader(header);
+    const field = HEALTH_ENTRY_CSV_FIELDS.find(
+      candidate => !used.has(candidate) && (normalizeHeader(candidate) === normalized || normalizeHeader(healthEntryCsvFieldLabels[candidate]) === normalized)
+    );
+    if (!field) return null;
+    used.add(field);
+    return field;
+  });
+}
+
+// Accepts the type's key (e.g. "lipidPanel") or its display name (e.g. "Lipid Panel").
+function parseEntryType(value: string): HealthMetricType | undefined {
+  const normalized = normalizeHeader(value);
+  return healthMetricCategories.find(
+    type => normalizeHeader(type) === normalized || normalizeHeader(healthMetricDisplayNames[type]) === normalized
+  );
+}
+
+// Spreadsheet apps run cells starting with one of these as formulas.
+const FORMULA_PREFIX_PATTERN = /^[=+\-@]/;
+
+function escapeFormula(cell: string): string {
+  return FORMULA_PREFIX_PATTERN.test(cell) ? `'${cell}` : cell;
+}
+
+function unescapeFormula(cell: string): string {
+  return cell.startsWith("'") && FORMULA_PREFIX_PATTERN.test(cell.slice(1)) ? cell.slice(1) : cell;
+}
+
+function formatReason(field: HealthEntryCsvField, message: string): string {
+  const label = healthEntryCsvFieldLabels[field];
+  return message.toLowerCase().startsWith(label.toLowerCase()) ? message : `${label}: ${message}`;
+}
+
+function parseEntrySource(value: string): HealthEntrySource | undefined {
+  const normalized = normalizeHeader(value);
+  return healthEntrySources.find(source => normalizeHeader(source) === normalized);
+}
+
+type ParsedHealthEntry = { entry: HealthEntry; issues?: never } | { entry?: never; issues: z.ZodIssue[] };
+
+function parseWith<Input, Entry extends HealthEntry>(schema: z.ZodType<Entry, z.ZodTypeDef, Input>, candidate: unknown): ParsedHealthEntry {
+  const result = schema.safeParse(candidate);
+  return result.success ? { entry: result.data } : { issues: result.error.issues };
+}
+
+// Validates a row with its type's schema and builds the timeline entry from the parsed fields.
+function parseHealthEntry(type: HealthMetricType, candidate: Record<string, unknown>, source: HealthEntrySource): ParsedHealthEntry {
+  const toBaseEntry = ({ date, notes }: { date: Date; notes?: string }) => ({ id: crypto.randomUUID(), date: formatISO(date), notes, source });
+
+  switch (type) {
+    case 'walking':
+      return parseWith(healthEntrySchemas.walking.transform(data => ({ ...toBaseEntry(data), type: 'walking' as const, title: data.title, value: data.value, unit: data.unit })), candidate);
+    case 'standing':
+      return parseWith(healthEntrySchemas.standing.transform(data => ({ ...toBaseEntry(data), type: 'standing' as const, title: data.title, value: data.value, unit: data.unit })), candidate);
+    case 'breathing':
+      return parseWith(healthEntrySchemas.breathing.transform(data => ({ ...toBaseEntry(data), type: 'breathing' as const, title: data.title, value: data.value, unit: data.unit, quality: data.quality })), candidate);
+    case 'pulse':
+      return parseWith(healthEntrySchemas.pulse.transform(data => ({ ...toBaseEntry(data), type: 'pulse' as const, title: data.title, value: data.value, unit: data.unit })), candidate);
+    case 'lipidPanel':
+      return parseWith(healthEntrySchemas.lipidPanel.transform(data => ({ ...toBaseEntry(data), type: 'lipidPanel' as const, title: data.title, value: data.value })), candidate);
+    case 'appointment':
+      return parseWith(healthEntrySchemas.appointment.transform(data => ({
+        ...toBaseEntry(data), type: 'appointment' as const, title: data.title, doctor: data.doctor, location: data.location, reason: data.reason, visitNotes: data.visitNotes,
+      })), candidate);
+    case 'medication':
+      return parseWith(healthEntrySchemas.medication.transform(data => ({
+        ...toBaseEntry(data), type: 'medication' as const, title: data.medicationName, medicationName: data.medicationName, dosage: data.dosage, frequency: data.frequency,
+      })), candidate);
+    case 'condition':
+      return parseWith(healthEntrySchemas.condition.transform(data => ({
+        ...toBaseEntry(data), type: 'condition' as const, title: data.conditionName, conditionName: data.conditionName,
+        diagnosisDate: data.diagnosisDate ? formatISO(data.diagnosisDate) : undefined, status: data.status,
+      })), candidate);
+    case 'weight':
+      return parseWith(healthEntrySchemas.weight.transform(data => ({ ...toBaseEntry(data), type: 'weight' as const, title: data.title, value: data.value, unit: data.unit })), candidate);
+    case 'bodyFat':
+      return parseWith(healthEntrySchemas.bodyFat.transform(data => ({ ...toBaseEntry(data), type: 'bodyFat' as const, title: data.title, value: data.value, unit: data.unit })), candidate);
+    case 'muscleMass':
+      return parseWith(healthEntrySchemas.muscleMass.transform(data => ({ ...toBaseEntry(data), type: 'muscleMass' as const, title: data.title, value: data.value, unit: data.unit })), candidate);
+    case 'bloodPressure':
+      return parseWith(healthEntrySchemas.bloodPressure.transform(data => ({ ...toBaseEntry(data), type: 'bloodPressure' as const, title: data.title, value: data.value, unit: data.unit })), candidate);
+  }
+}
+
+function validateRow(
+  row: string[],
+  mapping: HealthEntryCsvMapping,
+  defaultType: HealthMetricType | undefined
+): { entry: HealthEntry; reasons?: never } | { entry?: never; reasons: string[] } {
+  const cells: Partial<Record<HealthEntryCsvField, string>> = {};
+  mapping.forEach((field, column) => {
+    const cell = row[column]?.trim();
+    if (field && cell) cells[field] = unescapeFormula(cell);
+  });
+
+  const type = cells.type ? parseEntryType(cells.type) : defaultType;
+  if (!type) {
+    return { reasons: [cells.type ? `Type: "${cells.type}" is not a known entry type.` : 'Type: Required'] };
+  }
+
+  // Cells that can't be converted are reported once here, rather than again as missing by the schema.
+  const reasons: string[] = [];
+  const reportedFields = new Set<HealthEntryCsvField>();
+  const readNumber = (field: HealthEntryCsvField) => {
+    const cell = cells[field];
+    if (cell === undefined) return undefined;
+    const number = Number(cell);
+    if (!Number.isFinite(number)) {
+      reasons.push(formatReason(field, `"${cell}" is not a number.`));
+      reportedFields.add(field);
+      return undefined;
+    }
+    return number;
+  };
+  const readDate = (field: HealthEntryCsvField) => {
+    const cell = cells[field];
+    if (cell === undefined) return undefined;
+    const date = parseISO(cell);
+    if (!isValid(date)) {
+      reasons.push(formatReason(field, `"${cell}" is not a valid date. Use YYYY-MM-DD or an ISO 8601 date and time.`));
+      reportedFields.add(field);
+      return undefined;
+    }
+    return date;
+  };
+
+  const source = cells.source ? parseEntrySource(cells.source) : 'manual';
+  if (!source) {
+    reasons.push(formatReason('source', `"${cells.source}" is not a known source.`));
+  }
+  const date = readDate('date');
+  const diagnosisDate = readDate('diagnosisDate');
+  let value: unknown;
+  if (type === 'lipidPanel') {
+    value = { totalCholesterol: readNumber('totalCholesterol'), ldl: readNumber('ldl'), hdl: readNumber('hdl'), triglycerides: readNumber('triglycerides') };
+  } else if (type === 'bloodPressure') {
+    value = { systolic: readNumber('systolic'), diastolic: readNumber('diastolic') };
+  } else {
+    value = readNumber('value');
+  }
+
+  const candidate = Object.fromEntries(Object.entries({
+    ...cells,
+    type,
+    date,
+    diagnosisDate,
+    value,
+    unit: cells.unit ?? DEFAULT_UNITS[type],
+  }).filter(([, v]) => v !== undefined));
+
+  const result = parseHealthEntry(type, candidate, source ?? 'manual');
+  if (result.issues) {
+    for (const issue of result.issues) {
+      // Nested values such as value.ldl are reported under their own column.
+      const field = (issue.path[0] === 'value' && issue.path.length > 1 ? issue.path[1] : issue.path[0]) as HealthEntryCsvField;
+      if (!reportedFields.has(field)) reasons.push(formatReason(field, issue.message));
+    }
+    return { reasons };
+  }
+  if (reasons.length > 0) {
+    return { reasons };
+  }
+  return { entry: result.entry };
+}
+
+/**
+ * Validates the data rows of a CSV file without importing anything.
+ * @param rows The rows of the file, without the header row.
+ * @param defaultType The type of rows whose type column is empty, or of every row when no column is mapped to the type.
+ */
+export function previewHealthEntryCsv(
+  rows: string[][],
+  mapping: HealthEntryCsvMapping,
+  defaultType?: HealthMetricType
+): HealthEntryCsvPreview {
+  const preview: HealthEntryCsvPreview = { accepted: [], rejected: [] };
+  rows.forEach((row, index) => {
+    const rowNumber = index + 2;
+    const result = validateRow(row, mapping, defaultType);
+    if (result.entry) {
+      preview.accepted.push({ rowNumber, entry: result.entry });
+    } else {
+      preview.rejected.push({ rowNumber, reasons: result.reasons });
+    }
+  });
+  return preview;
+}
+
+/**
+ * Serializes timeline entries as CSV, one row per entry with a column per `HEALTH_ENTRY_CSV_FIELDS` entry.
+ */
+export function healthEntriesToCsv(entries: HealthEntry[]): string {
+  const rows = entries.map(entry => {
+    // Lipid panel and blood pressure values are spread over their own columns.
+    const { value, ...fields } = entry as HealthEntry & { value?: unknown };
+    const flattened: Record<string, unknown> = typeof value === 'object' && value !== null ? { ...fields, ...value } : { ...fields, value };
+    return HEALTH_ENTRY_CSV_FIELDS.map(field => {
+      const cell = flattened[field];
+      return cell === undefined || cell === null ? '' : escapeFormula(String(cell));
+    });
+  });
+  return toCsv([[...HEALTH_ENTRY_CSV_FIELDS], ...rows]);
+}
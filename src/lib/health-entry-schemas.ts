@@ -0,0 +1,63 @@
+// src/lib/health-entry-schemas.ts
+
+/**
+ * @fileOverview Zod schemas for manually entered timeline entries
+ * One schema per `HealthMetricType`, shared by the manual entry form and the CSV import so both
+ * accept exactly the same entries.
+ */
+
+import * as z from 'zod';
+import type { HealthMetricType } from '@/types';
+import { healthMetricCategories } from '@/types';
+
+export const baseSchema = z.object({
+  date: z.date({ required_error: "Date is required." }),
+  type: z.custom<HealthMetricType>((val) => healthMetricCategories.includes(val as HealthMetricType), {
+    message: "Invalid health metric type.",
+  }),
+  notes: z.string().optional(),
+});
+
+// Schemas for each type, refine as needed for specific validation
+export const walkingSchema = baseSchema.extend({ title: z.string().min(1, "Title is required."), value: z.number().positive(), unit: z.enum(['steps', 'km', 'miles']) });
+export const standingSchema = baseSchema.extend({ title: z.string().min(1, "Title is required."), value: z.number().positive(), unit: z.enum(['minutes', 'hours']) });
+export const breathingSchema = baseSchema.extend({ title: z.string().min(1, "Title is required."), value: z.number().positive(), unit: z.literal('breaths/min'), quality: z.string().optional() });
+export const pulseSchema = baseSchema.extend({ title: z.string().min(1, "Title is required."), value: z.number().positive(), unit: z.literal('bpm') });
+export const lipidPanelSchema = baseSchema.extend({
+  title: z.string().min(1, "Title is required."),
+  value: z.object({
+    totalCholesterol: z.number().positive(),
+    ldl: z.number().positive(),
+    hdl: z.number().positive(),
+    triglycerides: z.number().positive(),
+  }),
+});
+export const appointmentSchema = baseSchema.extend({ title: z.string().min(1, "Title is required."), doctor: z.string().optional(), location: z.string().optional(), reason: z.string().optional(), visitNotes: z.string().optional() });
+export const medicationSchema = baseSchema.extend({ medicationName: z.string().min(1, "Medication name is required."), dosage: z.string().min(1, "Dosage is required."), frequency: z.string().min(1, "Frequency is required.") });
+export const conditionSchema = baseSchema.extend({ conditionName: z.string().min(1, "Condition name is required."), diagnosisDate: z.date().optional(), status: z.enum(['active', 'resolved', 'chronic']).optional() });
+export const weightSchema = baseSchema.extend({ title: z.string().min(1, "Title is required."), value: z.number().positive(), unit: z.enum(['kg', 'lbs']) });
+export const bodyFatSchema = baseSchema.extend({ title: z.string().min(1, "Title is required."), value: z.number().positive().max(100), unit: z.literal('%') });
+export const muscleMassSchema = baseSchema.extend({ title: z.string().min(1, "Title is required."), value: z.number().positive(), unit: z.enum(['kg', 'lbs']) });
+export const bloodPressureSchema = baseSchema.extend({
+  title: z.string().min(1, "Title is required."),
+  value: z.object({
+    systolic: z.number().positive(),
+    diastolic: z.number().positive(),
+  }),
+  unit: z.literal('mmHg'),
+});
+
+export const healthEntrySchemas = {
+  walking: walkingSchema,
+  standing: standingSchema,
+  breathing: breathingSchema,
+  pulse: pulseSchema,
+  lipidPanel: lipidPanelSchema,
+  appointment: appointmentSchema,
+  medication: medicationSchema,
+  condition: conditionSchema,
+  weight: weightSchema,
+  bodyFat: bodyFatSchema,
+  muscleMass: muscleMassSchema,
+  bloodPressure: bloodPressureSchema,
+} satisfies Record<HealthMetricType, z.ZodTypeAny>;
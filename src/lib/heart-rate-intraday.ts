@@ -0,0 +1,87 @@
+// src/lib/heart-rate-intraday.ts
+
+/**
+ * @fileOverview Compact storage format for intraday heart rate
+ * A day of 1-second heart rate samples is up to 86,400 points, far too many for one Firestore document
+ * as JSON objects. Each day is split into fixed chunks of local time, and each chunk stores its samples
+ * packed into bytes: a 2-byte offset in seconds from the chunk start and a 1-byte bpm per sample.
+ * A full chunk of 1-second samples is 64,800 bytes, well under the 1 MiB document limit.
+ */
+
+import type { FitbitHeartRateIntradayChunkFirestore } from '@/types';
+
+export const INTRADAY_CHUNK_SECONDS = 6 * 60 * 60;
+export const INTRADAY_CHUNKS_PER_DAY = (24 * 60 * 60) / INTRADAY_CHUNK_SECONDS;
+
+const BYTES_PER_SAMPLE = 3;
+const MAX_BPM = 255; // Largest value one byte can hold
+
+export interface IntradayHeartRateSample {
+  secondOfDay: number; // Seconds since local midnight
+  bpm: number;
+}
+
+export function getIntradayChunkId(date: string, chunkIndex: number): string {
+  return `${date}_${chunkIndex}`;
+}
+
+/** Parses a Fitbit intraday time ('HH:mm:ss' or 'HH:mm') into seconds since midnight. */
+export function parseTimeOfDay(time: string): number | null {
+  const [hours, minutes, seconds = 0] = time.split(':').map(Number);
+  if ([hours, minutes, seconds].some(part => !Number.isFinite(part))) return null;
+  return hours * 3600 + minutes * 60 + seconds;
+}
+
+/**
+ * Packs a day's intraday samples into chunk documents. Chunks without samples are left out.
+ * Samples are sorted by time and bpm values are rounded and clamped to a single byte.
+ */
+export function encodeIntradayChunks(
+  date: string,
+  samples: IntradayHeartRateSample[],
+  meta: { datasetInterval: number; datasetType: string }
+): FitbitHeartRateIntradayChunkFirestore[] {
+  const byChunk = new Map<number, IntradayHeartRateSample[]>();
+  for (const sample of samples) {
+    if (sample.secondOfDay < 0 || sample.secondOfDay >= INTRADAY_CHUNK_SECONDS * INTRADAY_CHUNKS_PER_DAY) continue;
+    const chunkIndex = Math.floor(sample.secondOfDay / INTRADAY_CHUNK_SECONDS);
+    const chunkSamples = byChunk.get(chunkIndex) ?? [];
+    chunkSamples.push(sample);
+    byChunk.set(chunkIndex, chunkSamples);
+  }
+
+  const lastFetched = new Date().toISOString();
+  return [...byChunk.entries()]
+    .sort(([a], [b]) => a - b)
+    .map(([chunkIndex, chunkSamples]) => {
+      chunkSamples.sort((a, b) => a.secondOfDay - b.secondOfDay);
+      const buffer = Buffer.alloc(chunkSamples.length * BYTES_PER_SAMPLE);
+      chunkSamples.forEach((sample, i) => {
+        buffer.writeUInt16BE(sample.secondOfDay - chunkIndex * INTRADAY_CHUNK_SECONDS, i * BYTES_PER_SAMPLE);
+        buffer.writeUInt8(Math.min(MAX_BPM, Math.max(0, Math.round(sample.bpm))), i * BYTES_PER_SAMPLE + 2);
+      });
+      return {
+        date,
+        chunkIndex,
+        sampleCount: chunkSamples.length,
+        samples: buffer,
+        datasetInterval: meta.datasetInterval,
+        datasetType: meta.datasetType,
+        lastFetched,
+        dataSource: 'fitbit' as const,
+      };
+    });
+}
+
+/** Unpacks the samples of a chunk document, in time order. */
+export function decodeIntradayChunk(chunk: FitbitHeartRateIntradayChunkFirestore): IntradayHeartRateSample[] {
+  const bytes = Buffer.from(chunk.samples);
+  const samples: IntradayHeartRateSample[] = [];
+  for (let offset = 0; offset + BYTES_PER_SAMPLE <= bytes.length; offset += BYTES_PER_SAMPLE) {
+    samples.push({
+      secondOfDay: chunk.chunkIndex * INTRADAY_CHUNK_SECONDS + bytes.readUInt16BE(offset),
+      bpm: bytes.readUInt8(offset + 2),
+    });
+  }
+  return samples;
+}
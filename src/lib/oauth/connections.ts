@@ -0,0 +1,160 @@
+// src/lib/oauth/connections.ts
+
+/**
+ * @fileOverview Connecting and disconnecting providers
+ * The OAuth callback hands new tokens to `completeOAuthConnection`, which stores them through the
+ * provider's auth utils, adds the provider to the user's `connectedFitnessApps` and runs any
+ * provider-specific setup (e.g. registering Fitbit subscriptions). `disconnectOAuthConnection` undoes
+ * all of that: it revokes the tokens at the provider, deletes them and removes the connection.
+ */
+
+import { adminDb } from '@/lib/firebase/serverApp';
+import admin from 'firebase-admin';
+import { setFitbitTokens, getValidFitbitAccessToken } from '@/lib/fitbit-auth-utils';
+import { setStravaTokens, getValidStravaAccessToken } from '@/lib/strava-auth-utils';
+import { setGoogleFitTokens, getValidGoogleFitAccessToken } from '@/lib/google-fit-auth-utils';
+import { setWithingsTokens, getValidWithingsAccessToken } from '@/lib/withings-auth-utils';
+import { deleteProviderTokens, readProviderTokens } from '@/lib/token-store';
+import { registerFitbitSubscriptions } from '@/app/actions/fitbitActions';
+import { revokeOAuthTokens, type OAuthProviderConfig, type OAuthTokenSet } from '@/lib/oauth/providers';
+import type { SyncProviderId, UserProfile } from '@/types';
+
+interface OAuthConnectionHandler {
+  saveTokens: (userId: string, tokens: OAuthTokenSet) => Promise<void>;
+  getValidAccessToken: (userId: string) => Promise<string | null>;
+  // Extra fields stored on the user profile, e.g. the provider's user ID for routing webhook events.
+  // They are removed again on disconnect.
+  profileFields?: (keyof UserProfile)[];
+  getProfileFields?: (tokens: OAuthTokenSet) => Partial<UserProfile>;
+  // Runs after the connection is saved. Failures are logged but do not fail the connection.
+  onConnected?: (userId: string) => Promise<void>;
+}
+
+const OAUTH_CONNECTION_HANDLERS: Record<SyncProviderId, OAuthConnectionHandler> = {
+  fitbit: {
+    saveTokens: setFitbitTokens,
+    getValidAccessToken: getValidFitbitAccessToken,
+    profileFields: ['fitbitUserId'],
+    getProfileFields: tokens => tokens.providerUserId ? { fitbitUserId: tokens.providerUserId } : {},
+    // Routine syncs still pick up the data if the subscriptions could not be registered.
+    onConnected: async userId => {
+      const result = await registerFitbitSubscriptions(userId);
+      if (!result.success) {
+        throw new Error(result.error || result.message);
+      }
+    },
+  },
+  strava: {
+    saveTokens: setStravaTokens,
+    getValidAccessToken: getValidStravaAccessToken,
+    profileFields: ['stravaAthleteId'],
+    getProfileFields: tokens => tokens.providerUserId ? { stravaAthleteId: Number(tokens.providerUserId) } : {},
+  },
+  googlefit: {
+    saveTokens: setGoogleFitTokens,
+    getValidAccessToken: getValidGoogleFitAccessToken,
+  },
+  withings: {
+    saveTokens: setWithingsTokens,
+    getValidAccessToken: getValidWithingsAccessToken,
+  },
+};
+
+async function addConnectionToProfile(userId: string, provider: OAuthProviderConfig, profileFields: Partial<UserProfile>) {
+  const userRef = adminDb.collection('users').doc(userId);
+  const userSnap = await userRef.get();
+
+  if (!userSnap.exists) {
+    throw new Error("User profile not found in Firestore.");
+  }
+  const userProfile = userSnap.data() as UserProfile;
+
+  // Defensively filter out any existing connections for this service to prevent duplicates
+  const otherConnections = (userProfile.connectedFitnessApps || []).filter(conn => conn.id !== provider.id);
+
+  const newConnection = {
+    id: provider.id,
+    name: provider.name,
+    connectedAt: new Date().toISOString()
+  };
+
+  const updates: Partial<UserProfile> = {
+    connectedFitnessApps: [...otherConnections, newConnection],
+    ...profileFields,
+  };
+  if (!userProfile.nextScheduledSyncAt) {
+    // Due right away, so the next scheduled run does the initial import.
+    updates.nextScheduledSyncAt = new Date().toISOString();
+  }
+  await userRef.update(updates);
+  console.log(`[OAuthConnections] Ensured '${provider.id}' is connected for user ${userId}.`);
+}
+
+/**
+ * Stores a new connection's tokens and marks the provider as connected on the user's profile.
+ */
+export async function completeOAuthConnection(userId: string, provider: OAuthProviderConfig, tokens: OAuthTokenSet): Promise<void> {
+  const handler = OAUTH_CONNECTION_HANDLERS[provider.id];
+
+  await handler.saveTokens(userId, tokens);
+  await addConnectionToProfile(userId, provider, handler.getProfileFields?.(tokens) || {});
+
+  if (handler.onConnected) {
+    try {
+      await handler.onConnected(userId);
+    } catch (error: any) {
+      console.error(`[OAuthConnections] Post-connect setup failed for ${provider.name}, user ${userId}:`, error.message);
+    }
+  }
+}
+
+/**
+ * Revokes a connection at the provider, deletes its tokens and removes it from the user's profile.
+ * The connection is removed even if revoking fails (e.g. the user already revoked access on the
+ * provider's side), since the tokens are deleted either way.
+ * @returns Whether the provider confirmed the revocation.
+ */
+export async function disconnectOAuthConnection(userId: string, provider: OAuthProviderConfig): Promise<{ revoked: boolean; revokeError?: string }> {
+  const handler = OAUTH_CONNECTION_HANDLERS[provider.id];
+  let revokeError: string | undefined;
+
+  try {
+    // Refreshes an expired access token first; some providers only accept a valid one for revocation.
+    const accessToken = await handler.getValidAccessToken(userId);
+    const storedTokens = await readProviderTokens<{ refreshToken?: string; withingsUserId?: string }>(userId, provider.tokenDocId);
+    if (!accessToken || !storedTokens) {
+      revokeError = 'No valid tokens to revoke.';
+    } else {
+      await revokeOAuthTokens(provider, {
+        accessToken,
+        refreshToken: storedTokens.refreshToken,
+        providerUserId: storedTokens.withingsUserId,
+      });
+    }
+  } catch (error: any) {
+    revokeError = error.message || 'Revocation failed.';
+  }
+  if (revokeError) {
+    console.warn(`[OAuthConnections] Could not revoke ${provider.name} access for user ${userId}: ${revokeError}`);
+  }
+
+  await deleteProviderTokens(userId, provider.tokenDocId);
+
+  const userRef = adminDb.collection('users').doc(userId);
+  const userSnap = await userRef.get();
+  if (userSnap.exists) {
+    const userProfile = userSnap.data() as UserProfile;
+    const updates: Record<string, unknown> = {
+      connectedFitnessApps: (userProfile.connectedFitnessApps || []).filter(conn => conn.id !== provider.id),
+    };
+    for (const field of handler.profileFields || []) {
+      updates[field] = admin.firestore.FieldValue.delete();
+    }
+    // The sync run history itself is kept; only the summary shown for the connection goes.
+    updates[`syncHealth.${provider.id}`] = admin.firestore.FieldValue.delete();
+    await userRef.update(updates);
+  }
+  console.log(`[OAuthConnections] Disconnected '${provider.id}' for user ${userId}.`);
+
+  return { revoked: !revokeError, revokeError };
+}
@@ -0,0 +1,410 @@
+// src/lib/oauth/providers.ts
+
+/**
+ * @fileOverview OAuth provider registry
+ * Everything that differs between the providers' OAuth 2.0 flows (endpoints, scopes, PKCE support,
+ * client credentials, the shape of their token responses and how access is revoked) is described here,
+ * one entry per provider.
+ * The shared `/api/auth/[provider]/connect` and `/callback` routes and the auth utils' token refreshes
+ * read this configuration, so connecting a new wearable starts with adding an entry below.
+ */
+
+import type { NextRequest } from 'next/server';
+import { createHmac } from 'crypto';
+import { getAppUrl, getConfiguredAppUrl, normalizeAbsoluteUrl } from '@/lib/app-url';
+import type { TokenDocId } from '@/lib/token-store';
+import type { SyncProviderId } from '@/types';
+
+/**
+ * Tokens from a token endpoint response, in the same shape for every provider.
+ */
+export interface OAuthTokenSet {
+  accessToken: string;
+  refreshToken?: string; // Not every refresh response includes one; keep the stored token in that case
+  expiresAt: number; // Timestamp in milliseconds
+  providerUserId?: string; // The user's ID at the provider, if the response includes it
+  raw: any; // The unparsed response, for provider-specific fields
+}
+
+/**
+ * The stored tokens of a connection, as needed to revoke it.
+ */
+export interface OAuthRevocableTokens {
+  accessToken: string;
+  refreshToken?: string;
+  providerUserId?: string;
+}
+
+type OAuthClientCredentials = { clientId: string; clientSecret: string };
+
+export interface OAuthProviderConfig {
+  id: SyncProviderId;
+  name: string;
+  // Document under users/{uid}/private_tokens holding the connection's tokens.
+  tokenDocId: TokenDocId;
+  // Value of the `dataSource` field on the normalized records imported from this provider.
+  dataSource: string;
+  authorizeUrl: string;
+  tokenUrl: string;
+  scopes: string[];
+  scopeSeparator: ' ' | ',';
+  // Whether the provider accepts a PKCE code challenge (RFC 7636) in addition to the client secret.
+  supportsPkce: boolean;
+  clientIdEnv: string;
+  clientSecretEnv: string;
+  // Optional override for the redirect URI, for when the one registered with the provider is not the default.
+  redirectUriEnv: string;
+  // 'basic' sends the client credentials in an Authorization header, 'body' as form fields.
+  clientAuth: 'basic' | 'body';
+  extraAuthorizeParams?: Record<string, string>;
+  extraTokenParams?: Record<string, string>;
+  // Returns the error described by a token response, or null if it carries tokens.
+  getTokenError: (data: any, response: Response) => string | null;
+  parseTokenResponse: (data: any) => OAuthTokenSet;
+  // Revokes the app's access, so the provider stops accepting the tokens and sending webhook events.
+  revokeTokens: (tokens: OAuthRevocableTokens, credentials: OAuthClientCredentials) => Promise<void>;
+}
+
+function expiresInToTimestamp(expiresInSec: number): number {
+  return Date.now() + expiresInSec * 1000;
+}
+
+/**
+ * Posts a form to a provider endpoint and returns the parsed JSON response (if any).
+ * @throws An error with `status` and `details` set if the response is not ok.
+ */
+async function postForm(url: string, params: Record<string, string>, headers: Record<string, string> = {}): Promise<any> {
+  const response = await fetch(url, {
+    method: 'POST',
+    headers: { 'Content-Type': 'application/x-www-form-urlencoded', ...headers },
+    body: new URLSearchParams(params),
+  });
+  const data = await response.json().catch(() => ({}));
+  if (!response.ok) {
+    const error = new Error(`Request to ${url} failed with status ${response.status}.`);
+    (error as any).status = response.status;
+    (error as any).details = data;
+    throw error;
+  }
+  return data;
+}
+
+// Withings signs requests that are not made with a user token: an HMAC-SHA256 of the values of
+// `action`, `client_id` and `nonce` (or `timestamp`), keyed by the client secret.
+function signWithingsRequest(clientSecret: string, values: string[]): string {
+  return createHmac('sha256', clientSecret).update(values.join(',')).digest('hex');
+}
+
+async function postWithingsForm(url: string, params: Record<string, string>): Promise<any> {
+  const data = await postForm(url, params);
+  if (data.status !== 0) {
+    const error = new Error(data.error || `Withings request failed (status ${data.status}).`);
+    (error as any).details = data;
+    throw error;
+  }
+  return data;
+}
+
+export const OAUTH_PROVIDERS: Record<SyncProviderId, OAuthProviderConfig> = {
+  fitbit: {
+    id: 'fitbit',
+    name: 'Fitbit',
+    tokenDocId: 'fitbit',
+    dataSource: 'fitbit',
+    authorizeUrl: 'https://www.fitbit.com/oauth2/authorize',
+    tokenUrl: 'https://api.fitbit.com/oauth2/token',
+    scopes: ['activity', 'heartrate', 'location', 'nutrition', 'profile', 'settings', 'sleep', 'social', 'weight'],
+    scopeSeparator: ' ',
+    supportsPkce: true,
+    clientIdEnv: 'NEXT_PUBLIC_FITBIT_CLIENT_ID',
+    clientSecretEnv: 'FITBIT_CLIENT_SECRET',
+    redirectUriEnv: 'FITBIT_REDIRECT_URI',
+    clientAuth: 'basic',
+    // Revoking either token revokes the whole authorization.
+    revokeTokens: (tokens, { clientId, clientSecret }) => postForm(
+      'https://api.fitbit.com/oauth2/revoke',
+      { token: tokens.refreshToken || tokens.accessToken },
+      { Authorization: `Basic ${Buffer.from(`${clientId}:${clientSecret}`).toString('base64')}` }
+    ),
+    getTokenError: (data, response) => response.ok ? null : (data.errors?.[0]?.message || 'token_exchange_failed'),
+    parseTokenResponse: data => ({
+      accessToken: data.access_token,
+      refreshToken: data.refresh_token,
+      expiresAt: expiresInToTimestamp(data.expires_in),
+      providerUserId: data.user_id,
+      raw: data,
+    }),
+  },
+  strava: {
+    id: 'strava',
+    name: 'Strava',
+    tokenDocId: 'strava',
+    dataSource: 'strava',
+    authorizeUrl: 'https://www.strava.com/oauth/authorize',
+    tokenUrl: 'https://www.strava.com/oauth/token',
+    scopes: ['read', 'activity:read_all'],
+    scopeSeparator: ',',
+    supportsPkce: false,
+    clientIdEnv: 'NEXT_PUBLIC_STRAVA_CLIENT_ID',
+    clientSecretEnv: 'STRAVA_CLIENT_SECRET',
+    redirectUriEnv: 'STRAVA_REDIRECT_URI',
+    clientAuth: 'body',
+    extraAuthorizeParams: { approval_prompt: 'auto' },
+    revokeTokens: tokens => postForm('https://www.strava.com/oauth/deauthorize', { access_token: tokens.accessToken }),
+    getTokenError: (data, response) => response.ok ? null : (data.message || 'token_exchange_failed'),
+    // Strava reports the expiry as a Unix timestamp (seconds) rather than a lifetime.
+    parseTokenResponse: data => ({
+      accessToken: data.access_token,
+      refreshToken: data.refresh_token,
+      expiresAt: data.expires_at * 1000,
+      providerUserId: data.athlete?.id !== undefined ? String(data.athlete.id) : undefined,
+      raw: data,
+    }),
+  },
+  googlefit: {
+    id: 'googlefit',
+    name: 'Google Fit',
+    tokenDocId: 'google-fit',
+    dataSource: 'google-fit',
+    authorizeUrl: 'https://accounts.google.com/o/oauth2/v2/auth',
+    tokenUrl: 'https://oauth2.googleapis.com/token',
+    scopes: [
+      'https://www.googleapis.com/auth/fitness.activity.read',
+      'https://www.googleapis.com/auth/fitness.location.read',
+      'https://www.googleapis.com/auth/fitness.body.read',
+      'https://www.googleapis.com/auth/fitness.heart_rate.read',
+      'https://www.googleapis.com/auth/fitness.sleep.read',
+    ],
+    scopeSeparator: ' ',
+    supportsPkce: true,
+    clientIdEnv: 'NEXT_PUBLIC_GOOGLE_FIT_CLIENT_ID',
+    clientSecretEnv: 'GOOGLE_FIT_CLIENT_SECRET',
+    redirectUriEnv: 'GOOGLE_FIT_REDIRECT_URI',
+    clientAuth: 'body',
+    // Offline access with a forced consent screen makes Google issue a refresh token on every connection.
+    extraAuthorizeParams: { access_type: 'offline', prompt: 'consent' },
+    // Revoking the refresh token also invalidates the access tokens issued with it.
+    revokeTokens: tokens => postForm('https://oauth2.googleapis.com/revoke', { token: tokens.refreshToken || tokens.accessToken }),
+    getTokenError: (data, response) => response.ok ? null : (data.error_description || data.error || 'token_exchange_failed'),
+    parseTokenResponse: data => ({
+      accessToken: data.access_token,
+      refreshToken: data.refresh_token,
+      expiresAt: expiresInToTimestamp(data.expires_in),
+      raw: data,
+    }),
+  },
+  withings: {
+    id: 'withings',
+    name: 'Withings',
+    tokenDocId: 'withings',
+    dataSource: 'withings',
+    authorizeUrl: 'https://account.withings.com/oauth2_user/authorize2',
+    tokenUrl: 'https://wbsapi.withings.net/v2/oauth2',
+    scopes: ['user.info', 'user.metrics', 'user.activity'],
+    scopeSeparator: ',',
+    supportsPkce: false,
+    clientIdEnv: 'NEXT_PUBLIC_WITHINGS_CLIENT_ID',
+    clientSecretEnv: 'WITHINGS_CLIENT_SECRET',
+    redirectUriEnv: 'WITHINGS_REDIRECT_URI',
+    clientAuth: 'body',
+    extraTokenParams: { action: 'requesttoken' },
+    // Revocation needs a single-use nonce, requested with a timestamp-signed call.
+    revokeTokens: async (tokens, { clientId, clientSecret }) => {
+      if (!tokens.providerUserId) {
+        throw new Error('The Withings user ID is unknown, so access cannot be revoked.');
+      }
+      const timestamp = String(Math.floor(Date.now() / 1000));
+      const nonceData = await postWithingsForm('https://wbsapi.withings.net/v2/signature', {
+        action: 'getnonce',
+        client_id: clientId,
+        timestamp,
+        signature: signWithingsRequest(clientSecret, ['getnonce', clientId, timestamp]),
+      });
+      const nonce: string = nonceData.body.nonce;
+      await postWithingsForm('https://wbsapi.withings.net/v2/oauth2', {
+        action: 'revoke',
+        client_id: clientId,
+        nonce,
+        signature: signWithingsRequest(clientSecret, ['revoke', clientId, nonce]),
+        userid: tokens.providerUserId,
+      });
+    },
+    // Withings answers HTTP 200 with a non-zero `status` in the body for most errors.
+    getTokenError: (data, response) => {
+      if (response.ok && data.status === 0 && data.body) return null;
+      return data.error || `token_exchange_failed (status ${data.status ?? response.status})`;
+    },
+    parseTokenResponse: data => ({
+      accessToken: data.body.access_token,
+      refreshToken: data.body.refresh_token,
+      expiresAt: expiresInToTimestamp(data.body.expires_in),
+      providerUserId: data.body.userid !== undefined ? String(data.body.userid) : undefined,
+      raw: data,
+    }),
+  },
+};
+
+/**
+ * Looks up a provider by the ID used in the auth routes' `[provider]` segment.
+ * @returns The provider's configuration, or null if the ID is unknown.
+ */
+export function getOAuthProvider(id: string): OAuthProviderConfig | null {
+  return Object.prototype.hasOwnProperty.call(OAUTH_PROVIDERS, id) ? OAUTH_PROVIDERS[id as SyncProviderId] : null;
+}
+
+function getCallbackPath(provider: OAuthProviderConfig): string {
+  return `/api/auth/${provider.id}/callback`;
+}
+
+/**
+ * Returns true if the provider's client ID is configured, i.e. users can connect it.
+ */
+export function isOAuthProviderEnabled(provider: OAuthProviderConfig): boolean {
+  return !!process.env[provider.clientIdEnv];
+}
+
+/**
+ * Returns the redirect URI of the provider's callback route, which must be registered with the provider.
+ * The connect and callback routes must resolve the same URI, or the token exchange is rejected.
+ */
+export function getOAuthRedirectUri(provider: OAuthProviderConfig, request: NextRequest): string {
+  const override = process.env[provider.redirectUriEnv]?.trim();
+  if (override) {
+    return normalizeAbsoluteUrl(override) || override;
+  }
+  return `${getAppUrl(request)}${getCallbackPath(provider)}`;
+}
+
+/**
+ * Returns the URL of the profile page, where the callback reports the outcome of a connection.
+ */
+export function getOAuthResultUrl(provider: OAuthProviderConfig, request: NextRequest, outcome: { error: string } | { connected: true }): string {
+  const param = 'error' in outcome
+    ? `${provider.id}_error=${encodeURIComponent(outcome.error)}`
+    : `${provider.id}_connected=true`;
+  return `${getAppUrl(request)}/profile?${param}`;
+}
+
+/**
+ * Checks the redirect URI configuration of every enabled provider.
+ * Outside production a missing APP_URL is fine, since redirect URIs then follow the request's origin.
+ * In production the URI must be configured and use https, so it cannot depend on the Host header.
+ * @returns A description of each problem found; empty if the configuration is usable.
+ */
+export function getOAuthConfigurationProblems(): string[] {
+  const isProduction = process.env.NODE_ENV === 'production';
+  const problems: string[] = [];
+
+  let appUrl: string | null = null;
+  try {
+    appUrl = getConfiguredAppUrl();
+  } catch (error: any) {
+    problems.push(error.message);
+  }
+
+  for (const provider of Object.values(OAUTH_PROVIDERS)) {
+    if (!isOAuthProviderEnabled(provider)) continue;
+
+    const override = process.env[provider.redirectUriEnv]?.trim();
+    const redirectUri = override ? normalizeAbsoluteUrl(override) : appUrl && `${appUrl}${getCallbackPath(provider)}`;
+
+    if (override && !redirectUri) {
+      problems.push(`${provider.redirectUriEnv} must be an absolute http(s) URL, got "${override}".`);
+      continue;
+    }
+    if (!redirectUri) {
+      if (isProduction) {
+        problems.push(`${provider.name} is enabled but neither APP_URL nor ${provider.redirectUriEnv} is set.`);
+      }
+      continue;
+    }
+
+    const url = new URL(redirectUri);
+    if (!url.pathname.endsWith(getCallbackPath(provider))) {
+      problems.push(`${provider.redirectUriEnv} must point at ${getCallbackPath(provider)}, got "${redirectUri}".`);
+    }
+    // The state cookie is set by the connect route, so the callback must be served from the same origin.
+    if (appUrl && url.origin !== new URL(appUrl).origin) {
+      problems.push(`${provider.redirectUriEnv} (${redirectUri}) is not on the APP_URL origin (${new URL(appUrl).origin}).`);
+    }
+    if (isProduction && url.protocol !== 'https:') {
+      problems.push(`${provider.name} redirect URI must use https in production, got "${redirectUri}".`);
+    }
+  }
+
+  return problems;
+}
+
+/**
+ * Checks the webhook configuration of the enabled providers. Strava webhook events are not signed, so the
+ * subscription ID is the only thing that ties an event to our subscription, and must be configured.
+ * @returns A description of each problem found; empty if the configuration is usable.
+ */
+export function getWebhookConfigurationProblems(): string[] {
+  const problems: string[] = [];
+  if (isOAuthProviderEnabled(OAUTH_PROVIDERS.strava)) {
+    const subscriptionId = process.env.STRAVA_WEBHOOK_SUBSCRIPTION_ID?.trim();
+    if (!subscriptionId) {
+      problems.push('Strava is enabled but STRAVA_WEBHOOK_SUBSCRIPTION_ID is not set.');
+    } else if (!/^\d+$/.test(subscriptionId)) {
+      problems.push(`STRAVA_WEBHOOK_SUBSCRIPTION_ID must be the numeric ID of the push subscription, got "${subscriptionId}".`);
+    }
+  }
+  return problems;
+}
+
+/**
+ * Returns the provider's client credentials, or null if either is not configured.
+ */
+export function getOAuthClientCredentials(provider: OAuthProviderConfig): OAuthClientCredentials | null {
+  const clientId = process.env[provider.clientIdEnv];
+  const clientSecret = process.env[provider.clientSecretEnv];
+  if (!clientId || !clientSecret) return null;
+  return { clientId, clientSecret };
+}
+
+/**
+ * Calls the provider's token endpoint, for either an authorization code exchange or a refresh.
+ * @param params The grant parameters, e.g. `{ grant_type: 'refresh_token', refresh_token }`.
+ * @throws An error with `status` and `details` set if the provider rejects the request or its
+ * response has no access token.
+ */
+export async function requestOAuthTokens(provider: OAuthProviderConfig, params: Record<string, string>): Promise<OAuthTokenSet> {
+  const credentials = getOAuthClientCredentials(provider);
+  if (!credentials) {
+    throw new Error(`${provider.name} client credentials not configured.`);
+  }
+
+  const headers: Record<string, string> = { 'Content-Type': 'application/x-www-form-urlencoded' };
+  const body = new URLSearchParams({ ...provider.extraTokenParams, ...params, client_id: credentials.clientId });
+  if (provider.clientAuth === 'basic') {
+    headers['Authorization'] = `Basic ${Buffer.from(`${credentials.clientId}:${credentials.clientSecret}`).toString('base64')}`;
+  } else {
+    body.set('client_secret', credentials.clientSecret);
+  }
+
+  const response = await fetch(provider.tokenUrl, { method: 'POST', headers, body });
+  const data = await response.json().catch(() => ({}));
+
+  const tokenError = provider.getTokenError(data, response);
+  const tokens = tokenError ? null : provider.parseTokenResponse(data);
+  if (!tokens || !tokens.accessToken || isNaN(tokens.expiresAt)) {
+    const error = new Error(tokenError || 'incomplete_token_data');
+    (error as any).status = response.status;
+    (error as any).details = data;
+    throw error;
+  }
+  return tokens;
+}
+
+/**
+ * Revokes a connection's tokens at the provider.
+ * @throws An error if the client credentials are missing or the provider rejects the request.
+ */
+export async function revokeOAuthTokens(provider: OAuthProviderConfig, tokens: OAuthRevocableTokens): Promise<void> {
+  const credentials = getOAuthClientCredentials(provider);
+  if (!credentials) {
+    throw new Error(`${provider.name} client credentials not configured.`);
+  }
+  await provider.revokeTokens(tokens, credentials);
+}
@@ -0,0 +1,131 @@
+// src/lib/oauth/state.ts
+
+/**
+ * @fileOverview OAuth state cookie and PKCE helpers
+ * The connect route keeps the `state` it sends to the provider, and the PKCE code verifier if the provider
+ * supports PKCE, in a short-lived httpOnly cookie signed with OAUTH_STATE_SECRET. The callback only accepts
+ * the redirect if the `state` it receives matches that cookie, which protects the flow against CSRF.
+ */
+
+import { cookies } from 'next/headers';
+import type { NextResponse } from 'next/server';
+import { createHash, createHmac, randomBytes, timingSafeEqual } from 'crypto';
+
+const STATE_COOKIE_MAX_AGE_SEC = 10 * 60; // 10 minutes
+
+interface OAuthStateCookiePayload {
+  provider: string;
+  state: string;
+  codeVerifier?: string;
+  issuedAt: number; // Timestamp in milliseconds
+}
+
+export interface PkcePair {
+  codeVerifier: string;
+  codeChallenge: string; // S256 challenge for the verifier
+}
+
+export type OAuthStateValidationResult =
+  | { valid: true; codeVerifier?: string }
+  | { valid: false; reason: string };
+
+function getStateCookieName(provider: string): string {
+  return `${provider}_oauth_state`;
+}
+
+function sign(value: string, secret: string): string {
+  return createHmac('sha256', secret).update(value).digest('base64url');
+}
+
+function safeEqual(a: string, b: string): boolean {
+  const bufferA = Buffer.from(a);
+  const bufferB = Buffer.from(b);
+  return bufferA.length === bufferB.length && timingSafeEqual(bufferA, bufferB);
+}
+
+/**
+ * Returns the secret used to sign state cookies, or null if OAUTH_STATE_SECRET is not configured.
+ */
+export function getOAuthStateSecret(): string | null {
+  return process.env.OAUTH_STATE_SECRET || null;
+}
+
+/**
+ * Creates a random value for the `state` parameter of an authorization request.
+ */
+export function createOAuthState(): string {
+  return randomBytes(16).toString('hex');
+}
+
+/**
+ * Creates a PKCE code verifier and its S256 code challenge.
+ */
+export function createPkcePair(): PkcePair {
+  const codeVerifier = randomBytes(32).toString('base64url');
+  const codeChallenge = createHash('sha256').update(codeVerifier).digest('base64url');
+  return { codeVerifier, codeChallenge };
+}
+
+/**
+ * Stores the state (and PKCE code verifier) of an authorization request in a signed cookie on the
+ * response that redirects the user to the provider.
+ */
+export function setOAuthStateCookie(
+  response: NextResponse,
+  provider: string,
+  values: { state: string; codeVerifier?: string },
+  secret: string
+): void {
+  const payload: OAuthStateCookiePayload = { provider, ...values, issuedAt: Date.now() };
+  const encodedPayload = Buffer.from(JSON.stringify(payload)).toString('base64url');
+
+  response.cookies.set(getStateCookieName(provider), `${encodedPayload}.${sign(encodedPayload, secret)}`, {
+    httpOnly: true,
+    secure: process.env.NODE_ENV === 'production',
+    path: '/',
+    maxAge: STATE_COOKIE_MAX_AGE_SEC,
+    sameSite: 'lax',
+  });
+}
+
+/**
+ * Checks the `state` a provider sent back to the callback against the cookie set by the connect route.
+ * The cookie is always deleted, so each state can be used only once.
+ */
+export function consumeOAuthStateCookie(provider: string, receivedState: string | null, secret: string): OAuthStateValidationResult {
+  const cookieStore = cookies();
+  const cookieName = getStateCookieName(provider);
+  const cookieValue = cookieStore.get(cookieName)?.value;
+  cookieStore.delete(cookieName);
+
+  if (!cookieValue) {
+    return { valid: false, reason: 'State cookie is missing or expired.' };
+  }
+  if (!receivedState) {
+    return { valid: false, reason: 'No state received from the provider.' };
+  }
+
+  const [encodedPayload, signature] = cookieValue.split('.');
+  if (!encodedPayload || !signature || !safeEqual(signature, sign(encodedPayload, secret))) {
+    return { valid: false, reason: 'State cookie signature is invalid.' };
+  }
+
+  let payload: OAuthStateCookiePayload;
+  try {
+    payload = JSON.parse(Buffer.from(encodedPayload, 'base64url').toString('utf8'));
+  } catch {
+    return { valid: false, reason: 'State cookie is malformed.' };
+  }
+
+  if (payload.provider !== provider) {
+    return { valid: false, reason: `State cookie was issued for ${payload.provider}.` };
+  }
+  if (Date.now() - payload.issuedAt > STATE_COOKIE_MAX_AGE_SEC * 1000) {
+    return { valid: false, reason: 'State cookie has expired.' };
+  }
+  if (!safeEqual(payload.state, receivedState)) {
+    return { valid: false, reason: 'State does not match the state cookie.' };
+  }
+
+  return { valid: true, codeVerifier: payload.codeVerifier };
+}
@@ -0,0 +1,34 @@
+// src/lib/polyline.ts
+
+/**
+ * @fileOverview Encoded polylines
+ * Routes are stored in `mapPolyline` in Google's encoded polyline format (precision 5), the same
+ * format Strava returns in `summary_polyline`, so maps can render activities from any source alike.
+ */
+
+function encodeValue(value: number): string {
+  let remaining = value < 0 ? ~(value << 1) : value << 1;
+  let encoded = '';
+  while (remaining >= 0x20) {
+    encoded += String.fromCharCode((0x20 | (remaining & 0x1f)) + 63);
+    remaining >>= 5;
+  }
+  return encoded + String.fromCharCode(remaining + 63);
+}
+
+/**
+ * Encodes a route of [latitude, longitude] pairs in degrees.
+ */
+export function encodePolyline(coordinates: Array<[number, number]>): string {
+  let previousLat = 0;
+  let previousLon = 0;
+  let encoded = '';
+  for (const [lat, lon] of coordinates) {
+    const latE5 = Math.round(lat * 1e5);
+    const lonE5 = Math.round(lon * 1e5);
+    encoded += encodeValue(latE5 - previousLat) + encodeValue(lonE5 - previousLon);
+    previousLat = latE5;
+    previousLon = lonE5;
+  }
+  return encoded;
+}
@@ -0,0 +1,19 @@
+// src/lib/request-auth.ts
+
+/**
+ * @fileOverview Shared-secret authorization for internal API routes
+ * Routes called by operators or schedulers rather than signed-in users (e.g. token re-encryption,
+ * scheduled syncs) expect `Authorization: Bearer <secret>` with a secret from the environment.
+ */
+
+import { createHash, timingSafeEqual } from 'crypto';
+
+/**
+ * Checks an Authorization header against the expected bearer secret.
+ * Compares digests so that the comparison takes the same time whatever the length of the received value.
+ */
+export function isAuthorizedBearer(authorization: string | null, secret: string): boolean {
+  const expected = createHash('sha256').update(`Bearer ${secret}`).digest();
+  const received = createHash('sha256').update(authorization || '').digest();
+  return timingSafeEqual(received, expected);
+}
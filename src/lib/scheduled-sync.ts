@@ -0,0 +1,82 @@
+// src/lib/scheduled-sync.ts
+
+/**
+ * @fileOverview Scheduled background sync
+ * `runDueScheduledSyncs` is called periodically by the cron route. It picks the users whose
+ * `nextScheduledSyncAt` has passed and syncs their connected apps, a few users at a time. The sync
+ * itself reschedules the user according to their subscription tier (see `sync-runner`).
+ *
+ * Users are put on the schedule when they connect an app or first sync manually, and drop off it
+ * once their last app is disconnected.
+ */
+
+import { adminDb } from '@/lib/firebase/serverApp';
+import { syncConnectedApps, getNextScheduledSyncAt } from '@/lib/sync-runner';
+import type { UserProfile } from '@/types';
+
+// Users handled per invocation; the rest are picked up by the next one.
+const MAX_USERS_PER_RUN = 50;
+// Users synced at the same time. Each user's providers already run in parallel.
+const MAX_CONCURRENT_USERS = 4;
+// A user whose sync was still running is retried after this delay instead of a full interval.
+const LOCKED_RETRY_MINUTES = 15;
+
+interface ScheduledSyncSummary {
+  due: number;
+  synced: number;
+  failed: number;
+  alreadyRunning: number;
+}
+
+/**
+ * Calls `worker` for every item, with at most `limit` calls in flight.
+ */
+async function runWithConcurrency<T>(items: T[], limit: number, worker: (item: T) => Promise<void>): Promise<void> {
+  let nextIndex = 0;
+  const runners = Array.from({ length: Math.min(limit, items.length) }, async () => {
+    while (nextIndex < items.length) {
+      const item = items[nextIndex++];
+      await worker(item);
+    }
+  });
+  await Promise.all(runners);
+}
+
+/**
+ * Syncs every user whose scheduled sync is due.
+ */
+export async function runDueScheduledSyncs(): Promise<ScheduledSyncSummary> {
+  const now = new Date();
+  const snapshot = await adminDb.collection('users')
+    .where('nextScheduledSyncAt', '<=', now.toISOString())
+    .orderBy('nextScheduledSyncAt')
+    .limit(MAX_USERS_PER_RUN)
+    .get();
+
+  const summary: ScheduledSyncSummary = { due: snapshot.size, synced: 0, failed: 0, alreadyRunning: 0 };
+  console.log(`[ScheduledSync] ${snapshot.size} user(s) due for a scheduled sync.`);
+
+  await runWithConcurrency(snapshot.docs, MAX_CONCURRENT_USERS, async userSnap => {
+    const userId = userSnap.id;
+    try {
+      const result = await syncConnectedApps(userId, 'scheduled');
+      if (result.alreadyRunning) {
+        summary.alreadyRunning++;
+        await userSnap.ref.update({ nextScheduledSyncAt: new Date(Date.now() + LOCKED_RETRY_MINUTES * 60 * 1000).toISOString() });
+      } else if (result.success) {
+        summary.synced++;
+      } else {
+        summary.failed++;
+      }
+    } catch (error: any) {
+      summary.failed++;
+      console.error(`[ScheduledSync] Scheduled sync failed for user ${userId}:`, error);
+      // Without rescheduling, a user whose sync keeps throwing would be picked first on every run.
+      const userProfile = userSnap.data() as UserProfile;
+      await userSnap.ref.update({ nextScheduledSyncAt: getNextScheduledSyncAt(userProfile.subscriptionTier) }).catch(() => {});
+    }
+  });
+
+  console.log(`[ScheduledSync] Finished: ${summary.synced} synced, ${summary.failed} failed, ${summary.alreadyRunning} already running.`);
+  return summary;
+}
@@ -7,8 +7,12 @@
  * These functions assume a valid OAuth 2.0 access token for the user has been obtained.
  */
 
+import { quotaFetch } from '@/lib/api-quota';
+
 const FITBIT_API_BASE_URL_V1 = 'https://api.fitbit.com/1';
 const FITBIT_API_BASE_URL_V1_2 = 'https://api.fitbit.com/1.2'; // For sleep and some newer endpoints
+// Most activity logs returned by one activity list request. A day with this many logs may have more.
+export const FITBIT_ACTIVITY_LIST_LIMIT = 50;
 
 // --- Response Interfaces ---
 export interface FitbitUserProfileResponse {
@@ -32,6 +36,7 @@ export interface FitbitUserProfileResponse {
 export interface FitbitActivitySummary {
   steps: number;
   distance: number; // This represents a sum of distances. The unit can vary.
+  distances?: Array<{ activity: string; distance: number }>; // Per-activity breakdown; 'total' holds the day's distance.
   caloriesOut: number;
   fairlyActiveMinutes: number;
   lightlyActiveMinutes: number;
@@ -145,13 +150,14 @@ export interface FitbitActivityLog {
   distance?: number; // Distance of the activity. Unit depends on Accept-Language header or user's unit system.
   distanceUnit?: string; // Often NOT explicitly provided in this log; inferred from user settings or Accept-Language.
   duration: number; // milliseconds
+  activeDuration?: number; // milliseconds, excludes pauses. Only returned by the activity list endpoint.
   hasGps?: boolean;
   isFavorite?: boolean;
   lastModified: string; // ISO 8601
   logId: number; // Unique ID for this specific log entry
   name: string; // e.g., "Walk", "Run", "Swim"
   startDate: string; // YYYY-MM-DD
-  startTime: string; // HH:MM (local time)
+  startTime: string; // HH:MM (local time) in daily summaries; full ISO 8601 with offset in the activity list
   steps?: number;
   logType?: 'manual' | 'auto_detected' | 'mobile_run' | 'tracker'; // Added 'tracker'
   // Swim specific if available
@@ -183,6 +189,39 @@ export interface FitbitActivityListResponse {
   };
 }
 
+export interface FitbitWeightLog {
+  bmi: number;
+  date: string; // YYYY-MM-DD
+  fat?: number; // Body fat percentage
+  logId: number;
+  source: string; // e.g. "Aria", "API"
+  time: string; // HH:MM:SS (local time)
+  weight: number; // Unit depends on Accept-Language; kilograms when not set.
+}
+
+export interface FitbitWeightLogsResponse {
+  weight: FitbitWeightLog[];
+}
+
+export interface FitbitSubscriptionResponse {
+  collectionType: string;
+  ownerId: string;
+  ownerType: string;
+  subscriberId: string;
+  subscriptionId: string;
+}
+
+
+// The key each endpoint's calls are counted under in the user's fitbitApiCallStats.
+function getFitbitApiCallStatKey(endpoint: string): string {
+  if (endpoint.includes('/apiSubscriptions/')) return 'subscriptions';
+  if (endpoint.includes('/sleep/')) return 'sleepData';
+  if (endpoint.includes('/activities/heart/')) return 'heartRateTimeSeries';
+  if (endpoint.includes('/activities/list')) return 'loggedActivities';
+  if (endpoint.includes('/activities/date/')) return 'dailyActivitySummary';
+  if (endpoint.includes('/body/log/weight/')) return 'weightLogs';
+  return 'profile';
+}
 
 async function fitbitApiRequest<T>(endpoint: string, accessToken: string, apiVersion: 'v1' | 'v1.2' = 'v1', method: 'GET' | 'POST' = 'GET', body?: any): Promise<T> {
   const base = apiVersion === 'v1.2' ? FITBIT_API_BASE_URL_V1_2 : FITBIT_API_BASE_URL_V1;
@@ -197,7 +236,7 @@ async function fitbitApiRequest<T>(endpoint: string, accessToken: string, apiVer
     headers['Content-Type'] = 'application/json';
   }
 
-  const response = await fetch(url, {
+  const response = await quotaFetch('fitbit', getFitbitApiCallStatKey(endpoint), accessToken, url, {
     method: method,
     headers: headers,
     body: body ? JSON.stringify(body) : undefined,
@@ -255,7 +294,7 @@ export async function getSleepLogs(accessToken: string, date: string /* YYYY-MM-
 
 export async function getLoggedActivitiesForDate(accessToken: string, date: string /* YYYY-MM-DD */): Promise<FitbitActivityLog[]> {
   console.log(`[FitbitService] Fetching logged activities for date: ${date}...`);
-  const endpoint = `/user/-/activities/list.json?afterDate=${date}T00:00:00&beforeDate=${date}T23:59:59&sort=asc&limit=50&offset=0`;
+  const endpoint = `/user/-/activities/list.json?afterDate=${date}T00:00:00&beforeDate=${date}T23:59:59&sort=asc&limit=${FITBIT_ACTIVITY_LIST_LIMIT}&offset=0`;
   const response = await fitbitApiRequest<FitbitActivityListResponse>(endpoint, accessToken, 'v1');
   return response.activities || [];
 }
@@ -276,3 +315,26 @@ export async function getSwimmingActivities(accessToken: string, date: string /*
   }
   return [];
 }
+
+export async function getWeightLogs(accessToken: string, date: string /* YYYY-MM-DD */): Promise<FitbitWeightLogsResponse> {
+  console.log(`[FitbitService] Fetching weight logs for date: ${date}...`);
+  return fitbitApiRequest<FitbitWeightLogsResponse>(`/user/-/body/log/weight/date/${date}.json`, accessToken, 'v1');
+}
+
+/**
+ * Subscribes our app to change notifications for one of the user's collections.
+ * Fitbit answers 409 if the subscription already exists.
+ */
+export async function createFitbitSubscription(
+  accessToken: string,
+  collectionType: 'activities' | 'sleep' | 'body',
+  subscriptionId: string
+): Promise<FitbitSubscriptionResponse> {
+  console.log(`[FitbitService] Creating ${collectionType} subscription ${subscriptionId}...`);
+  return fitbitApiRequest<FitbitSubscriptionResponse>(
+    `/user/-/${collectionType}/apiSubscriptions/${subscriptionId}.json`,
+    accessToken,
+    'v1',
+    'POST'
+  );
+}
@@ -8,6 +8,8 @@
  * Google Fit API Documentation: https://developers.google.com/fit/rest
  */
 
+import { quotaFetch } from '@/lib/api-quota';
+
 const GOOGLE_FIT_API_BASE_URL = 'https://www.googleapis.com/fitness/v1/users/me';
 
 // --- Interface Definitions for Google Fit API Responses ---
@@ -113,6 +115,15 @@ export interface GoogleFitSession {
   activeTimeMillis?: string;
 }
 
+// Raw dataset for a single data source
+export interface GoogleFitDatasetResponse {
+  dataSourceId: string;
+  minStartTimeNs: string;
+  maxEndTimeNs: string;
+  point: GoogleFitDataPoint[];
+  nextPageToken?: string;
+}
+
 export interface GoogleFitListSessionsResponse {
   session: GoogleFitSession[];
   deletedSession?: GoogleFitSession[];
@@ -122,6 +133,14 @@ export interface GoogleFitListSessionsResponse {
 
 
 // --- Request Helper ---
+// The key each endpoint's calls are counted under in the user's googleFitApiCallStats.
+function getGoogleFitApiCallStatKey(endpoint: string): string {
+  if (endpoint.startsWith('/sessions')) return 'sessions';
+  if (endpoint.startsWith('/dataset:aggregate')) return 'aggregateData';
+  if (endpoint.includes('/datasets/')) return 'datasets';
+  return 'dataSources';
+}
+
 async function googleFitApiRequest<T>(
   endpoint: string,
   accessToken: string,
@@ -146,7 +165,7 @@ async function googleFitApiRequest<T>(
     headers['Content-Type'] = 'application/json';
   }
 
-  const response = await fetch(url, {
+  const response = await quotaFetch('googlefit', getGoogleFitApiCallStatKey(endpoint), accessToken, url, {
     method: method,
     headers: headers,
     body: body ? JSON.stringify(body) : undefined,
@@ -253,7 +272,36 @@ export async function getSessions(
   );
 }
 
-// Specific function to get activity sessions for normalization
+/**
+ * Fetches the raw data points of one data source within a time range.
+ * @param accessToken The user's Google Fit access token.
+ * @param dataSourceId The data stream ID (e.g., "derived:com.google.sleep.segment:com.google.android.gms:merged").
+ * @param startTimeMillis Start of the range, in milliseconds since epoch.
+ * @param endTimeMillis End of the range, in milliseconds since epoch.
+ * @param pageToken (Optional) Token for fetching the next page of results.
+ */
+export async function getDataset(
+  accessToken: string,
+  dataSourceId: string,
+  startTimeMillis: number,
+  endTimeMillis: number,
+  pageToken?: string
+): Promise<GoogleFitDatasetResponse> {
+  console.log(`[GoogleFitService] Fetching dataset ${dataSourceId} from ${startTimeMillis} to ${endTimeMillis}...`);
+  // The dataset ID is the range in nanoseconds since epoch.
+  const datasetId = `${startTimeMillis}000000-${endTimeMillis}000000`;
+  const queryParams = pageToken ? { pageToken } : undefined;
+  return googleFitApiRequest<GoogleFitDatasetResponse>(
+    `/dataSources/${encodeURIComponent(dataSourceId)}/datasets/${datasetId}`,
+    accessToken,
+    'GET',
+    undefined,
+    queryParams
+  );
+}
+
+// Specific function to get activity sessions for normalization. With a time range, sessions.list returns
+// every session in the range in one response (page tokens are only used without one).
 export async function getGoogleFitActivitySessions(
   accessToken: string,
   startTimeIso: string,
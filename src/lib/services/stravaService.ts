@@ -6,9 +6,16 @@
  * These functions assume a valid OAuth 2.0 access token for the user has been obtained.
  */
 
+import { quotaFetch } from '@/lib/api-quota';
+
 const STRAVA_API_BASE_URL = 'https://www.strava.com/api/v3';
 
 // --- Request Helper ---
+// The key each endpoint's calls are counted under in the user's stravaApiCallStats.
+function getStravaApiCallStatKey(endpoint: string): string {
+  return endpoint.startsWith('/athlete/activities') || endpoint.startsWith('/activities') ? 'activities' : 'athlete';
+}
+
 async function stravaApiRequest<T>(
   endpoint: string,
   accessToken: string,
@@ -25,7 +32,7 @@ async function stravaApiRequest<T>(
     headers['Content-Type'] = 'application/json';
   }
 
-  const response = await fetch(url, {
+  const response = await quotaFetch('strava', getStravaApiCallStatKey(endpoint), accessToken, url, {
     method: method,
     headers: headers,
     body: body ? JSON.stringify(body) : undefined,
@@ -170,4 +177,40 @@ export async function getStravaActivities(
 }
 
 
-    
\ No newline at end of file
+    
+/**
+ * Fetches a single activity by ID.
+ * @param accessToken The user's Strava access token.
+ * @param activityId The Strava activity ID.
+ * @returns Promise<StravaActivity>
+ */
+export async function getStravaActivityById(accessToken: string, activityId: number): Promise<StravaActivity> {
+  console.log(`[StravaService] Fetching activity ${activityId}...`);
+  return stravaApiRequest<StravaActivity>(`/activities/${activityId}`, accessToken);
+}
+
+export type StravaStreamType = 'time' | 'distance' | 'heartrate' | 'altitude' | 'velocity_smooth' | 'cadence';
+
+export interface StravaStream {
+  type: StravaStreamType;
+  data: number[];
+  series_type: 'distance' | 'time';
+  original_size: number;
+  resolution: 'low' | 'medium' | 'high';
+}
+
+// With key_by_type, Strava returns only the streams the activity has, keyed by their type.
+export type StravaStreamSet = Partial<Record<StravaStreamType, StravaStream>>;
+
+/**
+ * Fetches the recorded data streams (e.g. heart rate or altitude over time) of an activity.
+ * @param accessToken The user's Strava access token.
+ * @param activityId The Strava activity ID.
+ * @param types The stream types to fetch. Types the activity did not record are left out of the result.
+ * @returns Promise<StravaStreamSet>
+ */
+export async function getStravaActivityStreams(accessToken: string, activityId: number, types: StravaStreamType[]): Promise<StravaStreamSet> {
+  console.log(`[StravaService] Fetching streams for activity ${activityId}...`);
+  const queryParams = new URLSearchParams({ keys: types.join(','), key_by_type: 'true' });
+  return stravaApiRequest<StravaStreamSet>(`/activities/${activityId}/streams?${queryParams.toString()}`, accessToken);
+}
@@ -1,9 +1,29 @@
 // [2025-06-29] COMMENT: This file contains functions to interact with the Withings API.
 // [2025-06-29] COMMENT: These functions assume a valid OAuth 2.0 access token for the user has been obtained.
 
+import { quotaFetch } from '@/lib/api-quota';
+
 // [2025-06-29] COMMENT: Define the base URL for the Withings API.
 const WITHINGS_API_BASE_URL = 'https://wbsapi.withings.net';
 
+// Withings answers HTTP 200 with status 601 in the body when the app sends too many requests.
+const WITHINGS_TOO_MANY_REQUESTS_STATUS = 601;
+
+async function isWithingsRateLimited(response: Response): Promise<boolean> {
+  if (!response.ok) return false;
+  try {
+    const responseData = await response.clone().json();
+    return responseData?.status === WITHINGS_TOO_MANY_REQUESTS_STATUS;
+  } catch (e) {
+    return false;
+  }
+}
+
+// The key each endpoint's calls are counted under in the user's withingsApiCallStats, e.g. 'measure' or 'sleep'.
+function getWithingsApiCallStatKey(endpoint: string): string {
+  return endpoint.split('/').filter(Boolean).pop() || 'other';
+}
+
 // [2025-06-29] COMMENT: This is a generic helper function to make requests to the Withings API.
 // [2025-06-29] COMMENT: It handles adding the Authorization header and parsing the response.
 async function withingsApiRequest<T>(
@@ -35,7 +55,7 @@ async function withingsApiRequest<T>(
     headers['Content-Type'] = 'application/x-www-form-urlencoded';
   }
 
-  const response = await fetch(url, requestOptions);
+  const response = await quotaFetch('withings', getWithingsApiCallStatKey(endpoint), accessToken, url, requestOptions, isWithingsRateLimited);
 
   if (!response.ok) {
     let errorData;
@@ -69,8 +89,147 @@ async function withingsApiRequest<T>(
   return responseData.body as T;
 }
 
-// [2025-06-29] COMMENT: Interface for Withings measurement data will be added here in the future.
-// export interface WithingsMeasureResponse { ... }
+// --- Measurement Types ---
+// Withings measure type codes, see https://developer.withings.com/api-reference/#tag/measure/operation/measure-getmeas
+export const WithingsMeasureType = {
+  WEIGHT: 1,            // kg
+  FAT_RATIO: 6,         // %
+  DIASTOLIC_BP: 9,      // mmHg
+  SYSTOLIC_BP: 10,      // mmHg
+  HEART_PULSE: 11,      // bpm
+  MUSCLE_MASS: 76,      // kg
+} as const;
+
+export interface WithingsMeasure {
+  value: number; // Mantissa; the real value is value * 10^unit.
+  type: number;
+  unit: number; // Power of ten exponent.
+  algo?: number;
+  fm?: number;
+}
+
+export interface WithingsMeasureGroup {
+  grpid: number;
+  attrib: number;
+  date: number; // Unix timestamp (seconds)
+  created: number;
+  modified?: number;
+  category: number; // 1 for real measurements, 2 for user objectives.
+  deviceid?: string | null;
+  hash_deviceid?: string | null;
+  measures: WithingsMeasure[];
+  comment?: string | null;
+  timezone?: string;
+}
+
+export interface WithingsMeasureResponse {
+  updatetime: number;
+  timezone: string;
+  measuregrps: WithingsMeasureGroup[];
+  more?: number; // 1 if more results are available
+  offset?: number; // Offset to use to fetch the next page
+}
+
+/**
+ * Decodes a Withings measure from its value/unit exponent encoding into a real number.
+ * e.g. { value: 72345, unit: -3 } is 72.345.
+ */
+export function decodeWithingsMeasureValue(measure: Pick<WithingsMeasure, 'value' | 'unit'>): number {
+  // Round away floating point noise introduced by the power of ten.
+  const decimals = Math.max(0, -measure.unit);
+  return Number((measure.value * Math.pow(10, measure.unit)).toFixed(decimals));
+}
+
+/**
+ * Fetches body measurements (getmeas) for the user.
+ * @param accessToken The user's Withings access token.
+ * @param params `startdate`/`enddate`: Unix timestamps (seconds) bounding the measurement date.
+ *               `meastypes`: Measure type codes to return (see WithingsMeasureType).
+ *               `offset`: Offset returned by a previous call when `more` was set.
+ */
+export async function getWithingsMeasurements(
+  accessToken: string,
+  params: { startdate: number; enddate: number; meastypes?: number[]; offset?: number }
+): Promise<WithingsMeasureResponse> {
+  console.log('[WithingsService] Fetching measurements with params:', params);
+  const body: Record<string, string> = {
+    action: 'getmeas',
+    category: '1', // Real measurements only, not objectives.
+    startdate: String(params.startdate),
+    enddate: String(params.enddate),
+  };
+  if (params.meastypes && params.meastypes.length > 0) {
+    body.meastypes = params.meastypes.join(',');
+  }
+  if (params.offset) {
+    body.offset = String(params.offset);
+  }
+  return withingsApiRequest<WithingsMeasureResponse>('/measure', accessToken, 'POST', body);
+}
+
+// --- Sleep Types ---
+// Durations are in seconds. Fields are only present if requested through data_fields and recorded by the device.
+export interface WithingsSleepSummaryData {
+  total_timeinbed?: number;
+  total_sleep_time?: number;
+  lightsleepduration?: number;
+  deepsleepduration?: number;
+  remsleepduration?: number;
+  wakeupduration?: number;
+  durationtosleep?: number;
+  sleep_efficiency?: number; // Ratio between 0 and 1
+  wakeupcount?: number;
+}
+
+export interface WithingsSleepSummarySeries {
+  id?: number;
+  timezone: string;
+  model?: number;
+  startdate: number; // Unix timestamp (seconds)
+  enddate: number; // Unix timestamp (seconds)
+  date: string; // YYYY-MM-DD, the night's date in the user's time zone
+  created?: number;
+  modified?: number;
+  data: WithingsSleepSummaryData;
+}
+
+export interface WithingsSleepSummaryResponse {
+  series: WithingsSleepSummarySeries[];
+  more?: boolean;
+  offset?: number;
+}
+
+const SLEEP_SUMMARY_DATA_FIELDS = [
+  'total_timeinbed',
+  'total_sleep_time',
+  'lightsleepduration',
+  'deepsleepduration',
+  'remsleepduration',
+  'wakeupduration',
+  'durationtosleep',
+  'sleep_efficiency',
+  'wakeupcount',
+];
 
-// [2025-06-29] COMMENT: A function to get measurements will be added here in the future.
-// export async function getWithingsMeasurements(...) { ... }
+/**
+ * Fetches nightly sleep summaries (Sleep v2 getsummary) for the user.
+ * @param accessToken The user's Withings access token.
+ * @param params `startdateymd`/`enddateymd`: YYYY-MM-DD dates bounding the night's date.
+ *               `offset`: Offset returned by a previous call when `more` was set.
+ */
+export async function getWithingsSleepSummary(
+  accessToken: string,
+  params: { startdateymd: string; enddateymd: string; offset?: number }
+): Promise<WithingsSleepSummaryResponse> {
+  console.log('[WithingsService] Fetching sleep summaries with params:', params);
+  const body: Record<string, string> = {
+    action: 'getsummary',
+    startdateymd: params.startdateymd,
+    enddateymd: params.enddateymd,
+    data_fields: SLEEP_SUMMARY_DATA_FIELDS.join(','),
+  };
+  if (params.offset) {
+    body.offset = String(params.offset);
+  }
+  return withingsApiRequest<WithingsSleepSummaryResponse>('/v2/sleep', accessToken, 'POST', body);
+}
@@ -0,0 +1,57 @@
+// src/lib/sleep-utils.ts
+
+/**
+ * @fileOverview Helpers for the source-agnostic sleep model
+ * Sleep records from every provider are stored as `NormalizedSleepFirestore` documents in the
+ * `sleep` collection. Several connected apps may record the same night, so views pick one
+ * source per night instead of adding the records up.
+ */
+
+import type { NormalizedSleepFirestore, NormalizedSleepSegment, NormalizedSleepStage } from '@/types';
+
+// Source preference for a night recorded by several apps, best first. Sources not listed rank last.
+const SLEEP_SOURCE_PRIORITY = ['fitbit', 'withings', 'apple_health', 'google-fit'];
+
+const ASLEEP_STAGES: NormalizedSleepStage[] = ['light', 'deep', 'rem', 'asleep'];
+
+function sourceRank(dataSource: string): number {
+  const index = SLEEP_SOURCE_PRIORITY.indexOf(dataSource);
+  return index === -1 ? SLEEP_SOURCE_PRIORITY.length : index;
+}
+
+/**
+ * Adds up the minutes spent in each stage across a list of stage segments.
+ */
+export function summarizeSleepStages(segments: NormalizedSleepSegment[]): Partial<Record<NormalizedSleepStage, number>> {
+  const stageMinutes: Partial<Record<NormalizedSleepStage, number>> = {};
+  for (const segment of segments) {
+    stageMinutes[segment.stage] = (stageMinutes[segment.stage] || 0) + segment.durationSec / 60;
+  }
+  for (const stage of Object.keys(stageMinutes) as NormalizedSleepStage[]) {
+    stageMinutes[stage] = Math.round(stageMinutes[stage]!);
+  }
+  return stageMinutes;
+}
+
+/**
+ * Returns the minutes asleep for a stage summary, i.e. every stage except awake and out of bed.
+ */
+export function getMinutesAsleepFromStages(stageMinutes: Partial<Record<NormalizedSleepStage, number>>): number {
+  return ASLEEP_STAGES.reduce((sum, stage) => sum + (stageMinutes[stage] || 0), 0);
+}
+
+/**
+ * Keeps, for each night, only the records of the most trusted source that recorded it,
+ * so a night tracked by two apps is not counted twice.
+ */
+export function selectPreferredSleepRecords(records: NormalizedSleepFirestore[]): NormalizedSleepFirestore[] {
+  const bestRankByNight = new Map<string, number>();
+  for (const record of records) {
+    const rank = sourceRank(record.dataSource);
+    const bestRank = bestRankByNight.get(record.dateOfSleep);
+    if (bestRank === undefined || rank < bestRank) {
+      bestRankByNight.set(record.dateOfSleep, rank);
+    }
+  }
+  return records.filter(record => sourceRank(record.dataSource) === bestRankByNight.get(record.dateOfSleep));
+}
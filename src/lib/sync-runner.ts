@@ -0,0 +1,387 @@
+// src/lib/sync-runner.ts
+
+/**
+ * @fileOverview Sync orchestration
+ * Runs the provider syncs for a user's connected fitness apps. It is shared by the sync server actions
+ * (started by the user) and the scheduled sync (started by the cron route), and takes care of:
+ * - dispatching each connected provider to its sync steps,
+ * - recording every provider run in the user's sync history,
+ * - resuming a provider whose rate limit stopped its last run from where that run stopped,
+ * - holding a per-user lock document, so that two syncs of the same user never overlap, and
+ * - keeping `nextScheduledSyncAt` on the profile, spaced by the user's subscription tier.
+ */
+
+import { adminDb } from '@/lib/firebase/serverApp';
+import { randomUUID } from 'crypto';
+import {
+  syncFitbitSleepData,
+  syncFitbitActivities,
+  syncFitbitDailySummaries,
+  syncFitbitBodyMeasurements,
+  processFitbitSyncQueue,
+} from '@/app/actions/fitbitActions';
+import { syncStravaActivities } from '@/app/actions/stravaActions';
+import { syncGoogleFitActivities, syncGoogleFitDailySummaries, syncGoogleFitSleep } from '@/app/actions/googleFitActions';
+import { syncWithingsMeasurements, syncWithingsSleep } from '@/app/actions/withingsActions';
+import { isValidTimeZone } from '@/lib/timezone-utils';
+import { trackSyncRun } from '@/lib/connection-health';
+import type { UserProfile, SelectableService, SubscriptionTier, SyncProviderId, SyncTrigger, ProviderSyncResult, SyncAllResult, SyncResumePoint } from '@/types';
+import admin from 'firebase-admin';
+import { addHours, format, subDays } from 'date-fns';
+
+interface SyncWindow {
+  from: string; // YYYY-MM-DD
+  to: string;   // YYYY-MM-DD
+  timeZone?: string; // IANA time zone used for day-bucketed data
+  resume?: SyncResumePoint; // Where the provider's last, rate-limited run stopped
+}
+
+interface ProviderSyncOutcome {
+  success: boolean;
+  message: string;
+  syncedCount?: number;
+  error?: string;
+  resumeCursor?: string;
+  resumeStep?: number; // Index of the sequence step the rate limit stopped
+}
+
+type ProviderSyncFn = (userId: string, syncWindow: SyncWindow) => Promise<ProviderSyncOutcome>;
+
+/**
+ * The window a sequence step syncs. After a rate-limited run, the steps before the stopped one had
+ * completed and sync the default window; the stopped step continues from its cursor, and the steps
+ * after it, which never ran, start no later than the stopped run's window did.
+ */
+function getStepWindow(syncWindow: SyncWindow, step: number): SyncWindow {
+  const { resume } = syncWindow;
+  if (!resume || step < resume.step) {
+    return syncWindow;
+  }
+  if (step === resume.step) {
+    return { ...syncWindow, from: resume.from };
+  }
+  return { ...syncWindow, from: resume.windowFrom < syncWindow.from ? resume.windowFrom : syncWindow.from };
+}
+
+/**
+ * Runs several sync steps for one provider in sequence and folds their outcomes into one.
+ * A failing step does not stop the remaining steps, but a step stopped by the provider's
+ * rate limit does, since the remaining steps would hit the same limit.
+ */
+function sequence(...steps: ProviderSyncFn[]): ProviderSyncFn {
+  return async (userId, syncWindow) => {
+    const outcomes: ProviderSyncOutcome[] = [];
+    let resumeStep: number | undefined;
+    for (const [index, step] of steps.entries()) {
+      const outcome = await step(userId, getStepWindow(syncWindow, index));
+      outcomes.push(outcome);
+      if (outcome.resumeCursor) {
+        resumeStep = index;
+        break;
+      }
+    }
+    const failed = outcomes.filter(o => !o.success);
+    return {
+      success: failed.length === 0,
+      message: outcomes.map(o => o.message).join(' '),
+      syncedCount: outcomes.reduce((sum, o) => sum + (o.syncedCount || 0), 0),
+      error: failed.length > 0 ? failed.map(o => o.error || o.message).join('; ') : undefined,
+      resumeCursor: outcomes.find(o => o.resumeCursor)?.resumeCursor,
+      resumeStep,
+    };
+  };
+}
+
+// Each connected provider is dispatched through this table. A null entry means the
+// provider can be connected but has no sync implementation yet.
+const providerSyncers: Record<SyncProviderId, ProviderSyncFn | null> = {
+  fitbit: sequence(
+    (userId, syncWindow) => syncFitbitSleepData(userId, syncWindow.from, syncWindow.to),
+    (userId, syncWindow) => syncFitbitActivities(userId, syncWindow.from, syncWindow.to),
+    (userId, syncWindow) => syncFitbitDailySummaries(userId, syncWindow.from, syncWindow.to),
+    (userId, syncWindow) => syncFitbitBodyMeasurements(userId, syncWindow.from, syncWindow.to),
+    // Retries webhook notifications that could not be processed when they arrived.
+    (userId) => processFitbitSyncQueue(userId),
+  ),
+  strava: (userId) => syncStravaActivities(userId),
+  googlefit: sequence(
+    (userId, syncWindow) => syncGoogleFitActivities(userId, syncWindow.from, syncWindow.to),
+    (userId, syncWindow) => syncGoogleFitDailySummaries(userId, syncWindow.from, syncWindow.to, syncWindow.timeZone),
+    (userId, syncWindow) => syncGoogleFitSleep(userId, syncWindow.from, syncWindow.to),
+  ),
+  withings: sequence(
+    (userId, syncWindow) => syncWithingsMeasurements(userId, syncWindow.from, syncWindow.to),
+    (userId, syncWindow) => syncWithingsSleep(userId, syncWindow.from, syncWindow.to),
+  ),
+};
+
+const DEFAULT_SYNC_WINDOW_DAYS = 7;
+
+function isSyncProviderId(id: string): id is SyncProviderId {
+  return id in providerSyncers;
+}
+
+function getSyncWindow(timeZone?: string): SyncWindow {
+  return {
+    from: format(subDays(new Date(), DEFAULT_SYNC_WINDOW_DAYS - 1), 'yyyy-MM-dd'),
+    to: format(new Date(), 'yyyy-MM-dd'),
+    timeZone,
+  };
+}
+
+const DATE_CURSOR_PATTERN = /^\d{4}-\d{2}-\d{2}$/;
+
+/**
+ * Stores where the provider's next sync continues after a rate-limited run, and clears it once a run
+ * completes. A run that failed otherwise keeps it, so the days it was meant to catch up are not lost.
+ * Only date cursors of sequence steps are resumed here; Strava and the Fitbit webhook queue keep their
+ * own progress.
+ */
+async function updateResumePoint(userId: string, provider: SyncProviderId, syncWindow: SyncWindow, outcome: ProviderSyncOutcome): Promise<void> {
+  let resume: SyncResumePoint | admin.firestore.FieldValue | undefined;
+  if (outcome.resumeStep !== undefined && outcome.resumeCursor && DATE_CURSOR_PATTERN.test(outcome.resumeCursor)) {
+    const previousWindowFrom = syncWindow.resume?.windowFrom;
+    resume = {
+      step: outcome.resumeStep,
+      from: outcome.resumeCursor,
+      windowFrom: previousWindowFrom && previousWindowFrom < syncWindow.from ? previousWindowFrom : syncWindow.from,
+    };
+  } else if (outcome.success && syncWindow.resume) {
+    resume = admin.firestore.FieldValue.delete();
+  }
+  if (!resume) return;
+
+  try {
+    await adminDb.collection('users').doc(userId).set({ syncHealth: { [provider]: { resume } } }, { merge: true });
+  } catch (error: any) {
+    // The next run syncs the default window instead.
+    console.error(`[SyncRunner] Failed to store the ${provider} resume point for user ${userId}:`, error.message);
+  }
+}
+
+/**
+ * Syncs one connected provider and records the run in the user's sync history.
+ */
+async function runProviderSync(
+  userId: string,
+  conn: SelectableService,
+  syncWindow: SyncWindow,
+  trigger: SyncTrigger
+): Promise<ProviderSyncResult> {
+  const provider = conn.id as SyncProviderId;
+  const providerName = conn.name;
+  if (conn.revokedAt) {
+    return { provider, providerName, status: 'skipped', message: `Access to ${providerName} was revoked. Please reconnect it from your Profile page.` };
+  }
+  const syncFn = providerSyncers[provider];
+  if (!syncFn) {
+    return { provider, providerName, status: 'skipped', message: `Syncing ${providerName} data is not yet available.` };
+  }
+
+  // A resumed run reaches back to the earliest day one of its steps starts from.
+  const windowFrom = [syncWindow.resume?.from, syncWindow.resume?.windowFrom].reduce<string>(
+    (earliest, from) => from && from < earliest ? from : earliest,
+    syncWindow.from
+  );
+
+  try {
+    const outcome = await trackSyncRun(
+      userId,
+      { provider, trigger, window: { from: windowFrom, to: syncWindow.to } },
+      () => syncFn(userId, syncWindow)
+    );
+    await updateResumePoint(userId, provider, syncWindow, outcome);
+    return {
+      provider,
+      providerName,
+      status: outcome.resumeCursor ? 'rate_limited' : outcome.success ? 'success' : 'error',
+      message: outcome.message,
+      syncedCount: outcome.syncedCount,
+      error: outcome.error,
+      resumeCursor: outcome.resumeCursor,
+    };
+  } catch (error: any) {
+    // Individual sync actions catch their own errors, but a thrown exception (e.g. missing
+    // client credentials during token refresh) must not take the other providers down with it.
+    console.error(`[SyncRunner] Unhandled error while syncing ${provider} for user ${userId}:`, error);
+    return {
+      provider,
+      providerName,
+      status: 'error',
+      message: `An unexpected error occurred while syncing ${providerName}.`,
+      error: String(error?.message || 'Unknown error'),
+    };
+  }
+}
+
+function summarizeResults(results: ProviderSyncResult[], totalSynced: number): string {
+  const succeeded = results.filter(r => r.status === 'success').length;
+  const failed = results.filter(r => r.status === 'error').length;
+  const skipped = results.filter(r => r.status === 'skipped').length;
+  const rateLimited = results.filter(r => r.status === 'rate_limited').length;
+
+  const parts = [`Synced ${totalSynced} record(s) from ${succeeded} app(s).`];
+  if (failed > 0) parts.push(`${failed} app(s) failed.`);
+  if (rateLimited > 0) parts.push(`${rateLimited} app(s) reached their API rate limit and will continue on the next sync.`);
+  if (skipped > 0) parts.push(`${skipped} app(s) skipped.`);
+  return parts.join(' ');
+}
+
+
+// How often the scheduled sync runs for each subscription tier.
+const SYNC_INTERVAL_HOURS: Record<SubscriptionTier, number> = {
+  free: 24,
+  silver: 12,
+  gold: 6,
+  platinum: 1,
+};
+
+// A lock that was not refreshed for this long is assumed to belong to a sync that crashed, and is taken over.
+const SYNC_LOCK_TTL_MS = 15 * 60 * 1000;
+// A running sync pushes its lock's expiry out this often, so a long sync keeps its lock however long it takes.
+const SYNC_LOCK_REFRESH_MS = 5 * 60 * 1000;
+
+/**
+ * When the next scheduled sync is due for a user, counted from `from`.
+ */
+export function getNextScheduledSyncAt(tier: SubscriptionTier | undefined, from: Date = new Date()): string {
+  return addHours(from, SYNC_INTERVAL_HOURS[tier || 'free'] ?? SYNC_INTERVAL_HOURS.free).toISOString();
+}
+
+function getSyncLockRef(userId: string) {
+  return adminDb.collection('sync_locks').doc(userId);
+}
+
+/**
+ * Takes the user's sync lock.
+ * @returns The lock holder ID to release it with, or null if another sync holds the lock.
+ */
+async function acquireSyncLock(userId: string, trigger: SyncTrigger): Promise<string | null> {
+  const holder = randomUUID();
+  const lockRef = getSyncLockRef(userId);
+  const acquired = await adminDb.runTransaction(async transaction => {
+    const lockSnap = await transaction.get(lockRef);
+    if (lockSnap.exists && (lockSnap.get('expiresAt') as number) > Date.now()) {
+      return false;
+    }
+    transaction.set(lockRef, {
+      holder,
+      trigger,
+      acquiredAt: new Date().toISOString(),
+      expiresAt: Date.now() + SYNC_LOCK_TTL_MS,
+    });
+    return true;
+  });
+  return acquired ? holder : null;
+}
+
+/**
+ * Extends the user's sync lock while its holder is still running.
+ */
+async function refreshSyncLock(userId: string, holder: string): Promise<void> {
+  const lockRef = getSyncLockRef(userId);
+  try {
+    await adminDb.runTransaction(async transaction => {
+      const lockSnap = await transaction.get(lockRef);
+      if (lockSnap.exists && lockSnap.get('holder') === holder) {
+        transaction.update(lockRef, { expiresAt: Date.now() + SYNC_LOCK_TTL_MS });
+      }
+    });
+  } catch (error: any) {
+    // The next refresh tries again before the lock expires.
+    console.error(`[SyncRunner] Failed to refresh the sync lock for user ${userId}:`, error.message);
+  }
+}
+
+async function releaseSyncLock(userId: string, holder: string): Promise<void> {
+  const lockRef = getSyncLockRef(userId);
+  try {
+    await adminDb.runTransaction(async transaction => {
+      const lockSnap = await transaction.get(lockRef);
+      // The lock may have expired and been taken over by another sync in the meantime.
+      if (lockSnap.exists && lockSnap.get('holder') === holder) {
+        transaction.delete(lockRef);
+      }
+    });
+  } catch (error: any) {
+    // The lock expires on its own.
+    console.error(`[SyncRunner] Failed to release the sync lock for user ${userId}:`, error.message);
+  }
+}
+
+/**
+ * Runs the sync for the fitness apps connected on the user's profile.
+ * Providers run independently; a failure in one is reported in its own result entry
+ * and does not abort the others. If another sync of the same user is still running,
+ * nothing is synced and the result has `alreadyRunning` set.
+ * @param options.timeZone (Optional) The browser's IANA time zone; stored on the profile for day-bucketed syncs.
+ * @param options.providerIds (Optional) Sync only these providers instead of every connected one.
+ */
+export async function syncConnectedApps(
+  userId: string,
+  trigger: SyncTrigger,
+  options: { timeZone?: string; providerIds?: string[] } = {}
+): Promise<SyncAllResult> {
+  const { timeZone, providerIds } = options;
+  const userRef = adminDb.collection('users').doc(userId);
+  const userProfileSnap = await userRef.get();
+  if (!userProfileSnap.exists) {
+    return { success: false, message: 'User profile not found.', totalSynced: 0, results: [] };
+  }
+  const userProfile = userProfileSnap.data() as UserProfile;
+  if (isValidTimeZone(timeZone) && timeZone !== userProfile.timezone) {
+    await userRef.set({ timezone: timeZone }, { merge: true });
+  }
+  const allConnections = (userProfile.connectedFitnessApps || []).filter(conn => isSyncProviderId(conn.id));
+  const connections = providerIds ? allConnections.filter(conn => providerIds.includes(conn.id)) : allConnections;
+
+  if (connections.length === 0) {
+    if (allConnections.length === 0 && userProfile.nextScheduledSyncAt) {
+      // Nothing left to schedule once the last app is disconnected.
+      await userRef.update({ nextScheduledSyncAt: admin.firestore.FieldValue.delete() });
+    }
+    return { success: true, message: 'No fitness apps are connected. Connect an app from your Profile page.', totalSynced: 0, results: [] };
+  }
+
+  const lockHolder = await acquireSyncLock(userId, trigger);
+  if (!lockHolder) {
+    console.log(`[SyncRunner] Skipping ${trigger} sync for user ${userId}; another sync is still running.`);
+    return { success: false, message: 'A sync is already running for your account. Please try again in a few minutes.', totalSynced: 0, results: [], alreadyRunning: true };
+  }
+
+  const lockRefreshTimer = setInterval(() => refreshSyncLock(userId, lockHolder), SYNC_LOCK_REFRESH_MS);
+  try {
+    const syncWindow = getSyncWindow(isValidTimeZone(timeZone) ? timeZone : userProfile.timezone);
+
+    console.log(`[SyncRunner] Starting ${trigger} sync of ${connections.length} connected app(s) for user ${userId} from ${syncWindow.from} to ${syncWindow.to}`);
+
+    const results = await Promise.all(
+      connections.map(conn => runProviderSync(
+        userId,
+        conn,
+        { ...syncWindow, resume: userProfile.syncHealth?.[conn.id as SyncProviderId]?.resume },
+        trigger
+      ))
+    );
+
+    const totalSynced = results.reduce((sum, r) => sum + (r.syncedCount || 0), 0);
+    const message = summarizeResults(results, totalSynced);
+    console.log(`[SyncRunner] ${message}`);
+
+    // A full sync resets the schedule, since the data is fresh now. A single-app sync only makes
+    // sure that users who have never been scheduled get picked up.
+    if (!providerIds || !userProfile.nextScheduledSyncAt) {
+      await userRef.update({ nextScheduledSyncAt: getNextScheduledSyncAt(userProfile.subscriptionTier) });
+    }
+
+    return {
+      success: results.every(r => r.status !== 'error'),
+      message,
+      totalSynced,
+      results,
+    };
+  } finally {
+    clearInterval(lockRefreshTimer);
+    await releaseSyncLock(userId, lockHolder);
+  }
+}
@@ -0,0 +1,86 @@
+// src/lib/timezone-utils.ts
+
+/**
+ * @fileOverview Time zone helpers
+ * Small helpers for working with IANA time zones (e.g. "America/Los_Angeles") using the
+ * built-in Intl API, so that daily data can be bucketed by the user's local calendar day.
+ */
+
+export const DEFAULT_TIME_ZONE = 'UTC';
+
+export function isValidTimeZone(timeZone: string | undefined | null): timeZone is string {
+  if (!timeZone) return false;
+  try {
+    new Intl.DateTimeFormat('en-US', { timeZone });
+    return true;
+  } catch {
+    return false;
+  }
+}
+
+/**
+ * Returns the offset (in milliseconds) between the given time zone and UTC at a given instant.
+ */
+function getTimeZoneOffsetMillis(utcMillis: number, timeZone: string): number {
+  const parts = new Intl.DateTimeFormat('en-US', {
+    timeZone,
+    hourCycle: 'h23',
+    year: 'numeric',
+    month: '2-digit',
+    day: '2-digit',
+    hour: '2-digit',
+    minute: '2-digit',
+    second: '2-digit',
+  }).formatToParts(new Date(utcMillis));
+
+  const get = (type: Intl.DateTimeFormatPartTypes) => Number(parts.find(p => p.type === type)?.value);
+  const asUtc = Date.UTC(get('year'), get('month') - 1, get('day'), get('hour'), get('minute'), get('second'));
+  return asUtc - Math.floor(utcMillis / 1000) * 1000;
+}
+
+/**
+ * Returns the UTC instant (ms since epoch) of local midnight for a 'yyyy-MM-dd' date in the given time zone.
+ */
+export function getZonedStartOfDayMillis(date: string, timeZone: string): number {
+  const [year, month, day] = date.split('-').map(Number);
+  const naiveUtc = Date.UTC(year, month - 1, day);
+  // Apply the offset, then re-check it at the resulting instant in case a DST switch happened in between.
+  let result = naiveUtc - getTimeZoneOffsetMillis(naiveUtc, timeZone);
+  result = naiveUtc - getTimeZoneOffsetMillis(result, timeZone);
+  return result;
+}
+
+/**
+ * Formats a UTC instant as a 'yyyy-MM-dd' calendar date in the given time zone.
+ */
+export function formatDateInTimeZone(utcMillis: number, timeZone: string): string {
+  // The en-CA locale formats dates as yyyy-MM-dd.
+  return new Intl.DateTimeFormat('en-CA', {
+    timeZone,
+    year: 'numeric',
+    month: '2-digit',
+    day: '2-digit',
+  }).format(new Date(utcMillis));
+}
+
+/**
+ * Returns the UTC instant (ms since epoch) of a local wall-clock time ('yyyy-MM-ddTHH:mm[:ss[.SSS]]', no offset)
+ * in the given time zone.
+ */
+export function getZonedDateTimeMillis(localDateTime: string, timeZone: string): number {
+  const [date, time = '00:00:00'] = localDateTime.split('T');
+  const [year, month, day] = date.split('-').map(Number);
+  const [hours, minutes, seconds = '0'] = time.split(':');
+  const naiveUtc = Date.UTC(year, month - 1, day, Number(hours), Number(minutes)) + Math.round(Number(seconds) * 1000);
+  // As for midnight: the offset at the first guess is off by the DST shift if one happened in between.
+  let result = naiveUtc - getTimeZoneOffsetMillis(naiveUtc, timeZone);
+  result = naiveUtc - getTimeZoneOffsetMillis(result, timeZone);
+  return result;
+}
+
+/**
+ * Formats a UTC instant as a local wall-clock time ('yyyy-MM-ddTHH:mm:ss', no offset) in the given time zone.
+ */
+export function formatLocalDateTimeInTimeZone(utcMillis: number, timeZone: string): string {
+  return new Date(Math.floor(utcMillis / 1000) * 1000 + getTimeZoneOffsetMillis(utcMillis, timeZone)).toISOString().slice(0, 19);
+}
@@ -0,0 +1,231 @@
+// src/lib/token-store.ts
+
+/**
+ * @fileOverview Encrypted storage for provider OAuth tokens
+ * Every provider's tokens live in `users/{uid}/private_tokens/{tokenDocId}`. The secret fields (access and
+ * refresh tokens) are stored with envelope encryption: each write encrypts them with a fresh data key
+ * (AES-256-GCM), and that data key is itself encrypted ("wrapped") with a server-held key-encryption key.
+ * The ID of the wrapping key is stored alongside, so documents written before a key rotation can still be
+ * decrypted, and `reencryptAllProviderTokens` moves them onto the current key.
+ *
+ * Keys are configured through the environment:
+ * - TOKEN_ENCRYPTION_KEY: the current key, 32 bytes encoded as base64.
+ * - TOKEN_ENCRYPTION_KEY_ID: a name for the current key, e.g. "2025-07".
+ * - TOKEN_ENCRYPTION_PREVIOUS_KEYS (optional): earlier keys still needed for decryption, as a
+ *   comma-separated list of "<keyId>:<base64 key>" entries.
+ */
+
+import { createCipheriv, createDecipheriv, randomBytes } from 'crypto';
+import { adminDb } from '@/lib/firebase/serverApp';
+import admin from 'firebase-admin';
+
+export type TokenDocId = 'fitbit' | 'strava' | 'google-fit' | 'withings';
+
+// Fields that are never written in plaintext. Everything else (e.g. expiresAt) stays readable.
+const SECRET_FIELDS = ['accessToken', 'refreshToken'];
+
+const CIPHER_ALGORITHM = 'aes-256-gcm';
+const KEY_LENGTH_BYTES = 32;
+const IV_LENGTH_BYTES = 12;
+const REENCRYPT_PAGE_SIZE = 200;
+
+interface EncryptedSecrets {
+  keyId: string;
+  wrappedKey: string; // base64 of iv | auth tag | data key encrypted with the key-encryption key
+  ciphertext: string; // base64 of iv | auth tag | JSON of the secret fields encrypted with the data key
+}
+
+interface TokenEncryptionKeys {
+  currentKeyId: string;
+  keys: Map<string, Buffer>;
+}
+
+function parseKey(keyId: string, encodedKey: string): Buffer {
+  const key = Buffer.from(encodedKey, 'base64');
+  if (key.length !== KEY_LENGTH_BYTES) {
+    throw new Error(`Token encryption key "${keyId}" must be ${KEY_LENGTH_BYTES} bytes encoded as base64.`);
+  }
+  return key;
+}
+
+/**
+ * Reads the token encryption keys from the environment.
+ * @throws An error if the current key is missing or any configured key is malformed.
+ */
+function getTokenEncryptionKeys(): TokenEncryptionKeys {
+  const currentKeyId = process.env.TOKEN_ENCRYPTION_KEY_ID?.trim();
+  const currentKey = process.env.TOKEN_ENCRYPTION_KEY?.trim();
+  if (!currentKeyId || !currentKey) {
+    throw new Error('Token encryption is not configured. Required: TOKEN_ENCRYPTION_KEY, TOKEN_ENCRYPTION_KEY_ID.');
+  }
+
+  const keys = new Map<string, Buffer>([[currentKeyId, parseKey(currentKeyId, currentKey)]]);
+  for (const entry of (process.env.TOKEN_ENCRYPTION_PREVIOUS_KEYS || '').split(',')) {
+    if (!entry.trim()) continue;
+    const separatorIndex = entry.indexOf(':');
+    if (separatorIndex === -1) {
+      throw new Error('TOKEN_ENCRYPTION_PREVIOUS_KEYS entries must have the form "<keyId>:<base64 key>".');
+    }
+    const keyId = entry.slice(0, separatorIndex).trim();
+    if (!keys.has(keyId)) {
+      keys.set(keyId, parseKey(keyId, entry.slice(separatorIndex + 1).trim()));
+    }
+  }
+  return { currentKeyId, keys };
+}
+
+/**
+ * Checks the token encryption configuration.
+ * @returns A description of each problem found; empty if tokens can be encrypted and decrypted.
+ */
+export function getTokenEncryptionConfigurationProblems(): string[] {
+  try {
+    getTokenEncryptionKeys();
+    return [];
+  } catch (error: any) {
+    return [error.message];
+  }
+}
+
+function encrypt(key: Buffer, plaintext: Buffer): string {
+  const iv = randomBytes(IV_LENGTH_BYTES);
+  const cipher = createCipheriv(CIPHER_ALGORITHM, key, iv);
+  const ciphertext = Buffer.concat([cipher.update(plaintext), cipher.final()]);
+  return Buffer.concat([iv, cipher.getAuthTag(), ciphertext]).toString('base64');
+}
+
+function decrypt(key: Buffer, encoded: string): Buffer {
+  const data = Buffer.from(encoded, 'base64');
+  const iv = data.subarray(0, IV_LENGTH_BYTES);
+  const authTag = data.subarray(IV_LENGTH_BYTES, IV_LENGTH_BYTES + 16);
+  const decipher = createDecipheriv(CIPHER_ALGORITHM, key, iv);
+  decipher.setAuthTag(authTag);
+  return Buffer.concat([decipher.update(data.subarray(IV_LENGTH_BYTES + 16)), decipher.final()]);
+}
+
+function encryptSecrets(secrets: Record<string, unknown>, keys: TokenEncryptionKeys): EncryptedSecrets {
+  const dataKey = randomBytes(KEY_LENGTH_BYTES);
+  return {
+    keyId: keys.currentKeyId,
+    wrappedKey: encrypt(keys.keys.get(keys.currentKeyId)!, dataKey),
+    ciphertext: encrypt(dataKey, Buffer.from(JSON.stringify(secrets), 'utf8')),
+  };
+}
+
+function decryptSecrets(encrypted: EncryptedSecrets, keys: TokenEncryptionKeys): Record<string, unknown> {
+  const keyEncryptionKey = keys.keys.get(encrypted.keyId);
+  if (!keyEncryptionKey) {
+    throw new Error(`Token encryption key "${encrypted.keyId}" is not configured; add it to TOKEN_ENCRYPTION_PREVIOUS_KEYS.`);
+  }
+  const dataKey = decrypt(keyEncryptionKey, encrypted.wrappedKey);
+  return JSON.parse(decrypt(dataKey, encrypted.ciphertext).toString('utf8'));
+}
+
+/**
+ * Turns a stored document back into plain token data. Documents written before encryption was
+ * introduced have no `encrypted` field and are returned as they are.
+ */
+function fromStoredDocument<T>(stored: Record<string, any>, keys: TokenEncryptionKeys): T {
+  const { encrypted, ...plainFields } = stored;
+  if (!encrypted) {
+    return stored as T;
+  }
+  return { ...plainFields, ...decryptSecrets(encrypted, keys) } as T;
+}
+
+function toStoredDocument(data: Record<string, unknown>, keys: TokenEncryptionKeys): Record<string, unknown> {
+  const secrets: Record<string, unknown> = {};
+  const plainFields: Record<string, unknown> = {};
+  for (const [field, value] of Object.entries(data)) {
+    if (value === undefined) continue;
+    if (SECRET_FIELDS.includes(field)) {
+      secrets[field] = value;
+    } else {
+      plainFields[field] = value;
+    }
+  }
+  return { ...plainFields, encrypted: encryptSecrets(secrets, keys) };
+}
+
+function getTokenDocRef(userId: string, tokenDocId: TokenDocId) {
+  return adminDb.collection('users').doc(userId).collection('private_tokens').doc(tokenDocId);
+}
+
+/**
+ * Reads and decrypts a provider's tokens for a user.
+ * @returns The token data, or null if the user has no tokens for the provider.
+ */
+export async function readProviderTokens<T>(userId: string, tokenDocId: TokenDocId): Promise<T | null> {
+  const docSnap = await getTokenDocRef(userId, tokenDocId).get();
+  if (!docSnap.exists) {
+    return null;
+  }
+  return fromStoredDocument<T>(docSnap.data()!, getTokenEncryptionKeys());
+}
+
+/**
+ * Merges token fields into a provider's stored tokens and writes them back encrypted with the current key.
+ * Fields that are undefined are left unchanged.
+ */
+export async function writeProviderTokens<T extends object>(userId: string, tokenDocId: TokenDocId, data: Partial<T>): Promise<void> {
+  const keys = getTokenEncryptionKeys();
+  const tokenDocRef = getTokenDocRef(userId, tokenDocId);
+
+  // The secrets are stored as one encrypted value, so merging needs the current values.
+  await adminDb.runTransaction(async transaction => {
+    const docSnap = await transaction.get(tokenDocRef);
+    const existing = docSnap.exists ? fromStoredDocument<Record<string, unknown>>(docSnap.data()!, keys) : {};
+    const updates = Object.fromEntries(Object.entries(data).filter(([, value]) => value !== undefined));
+    transaction.set(tokenDocRef, toStoredDocument({ ...existing, ...updates }, keys));
+  });
+}
+
+/**
+ * Deletes a provider's stored tokens for a user.
+ */
+export async function deleteProviderTokens(userId: string, tokenDocId: TokenDocId): Promise<void> {
+  await getTokenDocRef(userId, tokenDocId).delete();
+}
+
+/**
+ * Re-encrypts every stored token document that is not yet encrypted with the current key, including
+ * documents written in plaintext before encryption was introduced. Run it after changing
+ * TOKEN_ENCRYPTION_KEY, then drop the old key from TOKEN_ENCRYPTION_PREVIOUS_KEYS.
+ */
+export async function reencryptAllProviderTokens(): Promise<{ scanned: number; reencrypted: number; failed: number }> {
+  const keys = getTokenEncryptionKeys();
+  const result = { scanned: 0, reencrypted: 0, failed: 0 };
+
+  let lastDoc: admin.firestore.QueryDocumentSnapshot | undefined;
+  while (true) {
+    let query = adminDb.collectionGroup('private_tokens').orderBy(admin.firestore.FieldPath.documentId()).limit(REENCRYPT_PAGE_SIZE);
+    if (lastDoc) {
+      query = query.startAfter(lastDoc);
+    }
+    const snapshot = await query.get();
+    if (snapshot.empty) break;
+
+    for (const docSnap of snapshot.docs) {
+      result.scanned++;
+      if (docSnap.get('encrypted.keyId') === keys.currentKeyId) continue;
+
+      try {
+        await adminDb.runTransaction(async transaction => {
+          const current = await transaction.get(docSnap.ref);
+          if (!current.exists || current.get('encrypted.keyId') === keys.currentKeyId) return;
+          const tokenData = fromStoredDocument<Record<string, unknown>>(current.data()!, keys);
+          transaction.set(docSnap.ref, toStoredDocument(tokenData, keys));
+        });
+        result.reencrypted++;
+      } catch (error: any) {
+        result.failed++;
+        console.error(`[TokenStore] Failed to re-encrypt ${docSnap.ref.path}:`, error.message);
+      }
+    }
+
+    lastDoc = snapshot.docs[snapshot.docs.length - 1];
+  }
+
+  console.log(`[TokenStore] Re-encryption finished: ${result.reencrypted} of ${result.scanned} token document(s) re-encrypted, ${result.failed} failed.`);
+  return result;
+}
@@ -0,0 +1,186 @@
+// src/lib/track-metrics.ts
+
+/**
+ * @fileOverview Activity metrics computed from track points
+ * Imported activity files only contain raw track points, so the summary values that providers like
+ * Strava compute for us (distance, moving time, elevation gain, heart rate) are derived here.
+ */
+
+import type { TrackPoint } from '@/lib/activity-file-parsers';
+import { encodePolyline } from '@/lib/polyline';
+
+// Below this speed the athlete is considered stopped, and the time does not count as moving time.
+const MIN_MOVING_SPEED_MPS = 0.5;
+// A gap between two points longer than this is a pause (e.g. auto-pause), not moving time.
+const MAX_MOVING_GAP_SEC = 30;
+// Altitude changes smaller than this are treated as GPS or barometer noise when summing the climb.
+const ELEVATION_NOISE_METERS = 3;
+// The route is thinned to points at least this far apart, and to at most this many points.
+const MIN_POLYLINE_POINT_SPACING_METERS = 5;
+const MAX_POLYLINE_POINTS = 1000;
+// A series recorded on fewer than this share of the points is left out rather than filled in.
+const MIN_SERIES_COVERAGE = 0.5;
+
+const EARTH_RADIUS_METERS = 6371000;
+
+export interface TrackMetrics {
+  startTimeMs: number;
+  durationElapsedSec: number;
+  durationMovingSec: number;
+  distanceMeters?: number;
+  elevationGainMeters?: number;
+  averageHeartRateBpm?: number;
+  maxHeartRateBpm?: number;
+  mapPolyline?: string;
+}
+
+// Per-point series for charts, aligned with each other. Series missing from the track are absent.
+export interface TrackSeries {
+  timeSec: number[];
+  distanceMeters?: number[];
+  heartRateBpm?: number[];
+  altitudeMeters?: number[];
+  velocityMetersPerSec?: number[];
+  cadence?: number[];
+}
+
+type GpsPoint = TrackPoint & { lat: number; lon: number };
+
+function hasPosition(point: TrackPoint): point is GpsPoint {
+  return point.lat !== undefined && point.lon !== undefined && !(point.lat === 0 && point.lon === 0);
+}
+
+function haversineMeters(a: { lat: number; lon: number }, b: { lat: number; lon: number }): number {
+  const toRadians = (degrees: number) => (degrees * Math.PI) / 180;
+  const dLat = toRadians(b.lat - a.lat);
+  const dLon = toRadians(b.lon - a.lon);
+  const h = Math.sin(dLat / 2) ** 2 + Math.cos(toRadians(a.lat)) * Math.cos(toRadians(b.lat)) * Math.sin(dLon / 2) ** 2;
+  return 2 * EARTH_RADIUS_METERS * Math.asin(Math.sqrt(h));
+}
+
+/**
+ * Returns the cumulative distance at each point: the device's own distance where it recorded one
+ * (it accounts for foot pods and wheel sensors), otherwise the distance along the GPS track.
+ * Returns undefined if the track has neither.
+ */
+function getCumulativeDistances(points: TrackPoint[]): number[] | undefined {
+  if (points.some(point => point.distanceMeters !== undefined)) {
+    let last = 0;
+    return points.map(point => (last = Math.max(last, point.distanceMeters ?? last)));
+  }
+  if (points.filter(hasPosition).length < 2) return undefined;
+
+  let total = 0;
+  let previous: GpsPoint | undefined;
+  return points.map(point => {
+    if (hasPosition(point)) {
+      if (previous) total += haversineMeters(previous, point);
+      previous = point;
+    }
+    return total;
+  });
+}
+
+function getElevationGain(points: TrackPoint[]): number | undefined {
+  const altitudes = points.map(point => point.altitudeMeters).filter((altitude): altitude is number => altitude !== undefined);
+  if (altitudes.length < 2) return undefined;
+
+  let gain = 0;
+  let reference = altitudes[0];
+  for (const altitude of altitudes) {
+    if (altitude - reference >= ELEVATION_NOISE_METERS) {
+      gain += altitude - reference;
+      reference = altitude;
+    } else if (altitude < reference) {
+      reference = altitude;
+    }
+  }
+  return gain;
+}
+
+function getMapPolyline(points: TrackPoint[]): string | undefined {
+  const route: GpsPoint[] = [];
+  for (const point of points) {
+    if (!hasPosition(point)) continue;
+    const lastKept = route[route.length - 1];
+    if (!lastKept || haversineMeters(lastKept, point) >= MIN_POLYLINE_POINT_SPACING_METERS) route.push(point);
+  }
+  if (route.length < 2) return undefined;
+
+  const stride = Math.ceil(route.length / MAX_POLYLINE_POINTS);
+  const thinned = route.filter((_, i) => i % stride === 0);
+  if (thinned[thinned.length - 1] !== route[route.length - 1]) thinned.push(route[route.length - 1]);
+  return encodePolyline(thinned.map(point => [point.lat, point.lon]));
+}
+
+/**
+ * Computes the summary metrics of a track.
+ * @param points Track points sorted by time; must not be empty.
+ */
+export function computeTrackMetrics(points: TrackPoint[]): TrackMetrics {
+  const startTimeMs = points[0].timeMs;
+  const distances = getCumulativeDistances(points);
+
+  let movingSec = 0;
+  for (let i = 1; i < points.length; i++) {
+    const gapSec = (points[i].timeMs - points[i - 1].timeMs) / 1000;
+    if (gapSec <= 0 || gapSec > MAX_MOVING_GAP_SEC) continue;
+    // Without any distance data every short interval counts, as there is no way to tell stops apart.
+    if (!distances || (distances[i] - distances[i - 1]) / gapSec >= MIN_MOVING_SPEED_MPS) movingSec += gapSec;
+  }
+
+  const heartRates = points.map(point => point.heartRateBpm).filter((bpm): bpm is number => bpm !== undefined && bpm > 0);
+
+  return {
+    startTimeMs,
+    durationElapsedSec: Math.round((points[points.length - 1].timeMs - startTimeMs) / 1000),
+    durationMovingSec: Math.round(movingSec),
+    distanceMeters: distances ? distances[distances.length - 1] : undefined,
+    elevationGainMeters: getElevationGain(points),
+    averageHeartRateBpm: heartRates.length > 0 ? heartRates.reduce((sum, bpm) => sum + bpm, 0) / heartRates.length : undefined,
+    // Tracks can have tens of thousands of points, too many to spread into Math.max.
+    maxHeartRateBpm: heartRates.length > 0 ? heartRates.reduce((max, bpm) => Math.max(max, bpm), 0) : undefined,
+    mapPolyline: getMapPolyline(points),
+  };
+}
+
+// Fills the gaps in a series with the nearest earlier value (or the first value, before it starts).
+function fillSeries(values: Array<number | undefined>): number[] | undefined {
+  const recorded = values.filter(value => value !== undefined).length;
+  if (recorded === 0 || recorded < values.length * MIN_SERIES_COVERAGE) return undefined;
+
+  let last = values.find((value): value is number => value !== undefined)!;
+  return values.map(value => (last = value ?? last));
+}
+
+/**
+ * Builds per-point series from a track for the activity detail charts.
+ * @param points Track points sorted by time; must not be empty.
+ */
+export function buildTrackSeries(points: TrackPoint[]): TrackSeries {
+  const startTimeMs = points[0].timeMs;
+  const distances = getCumulativeDistances(points);
+
+  let velocities: Array<number | undefined> = points.map(point => point.speedMetersPerSec);
+  if (distances && velocities.every(velocity => velocity === undefined)) {
+    velocities = points.map((point, i) => {
+      if (i === 0) return undefined;
+      const gapSec = (point.timeMs - points[i - 1].timeMs) / 1000;
+      return gapSec > 0 ? (distances[i] - distances[i - 1]) / gapSec : undefined;
+    });
+  }
+
+  const series: TrackSeries = { timeSec: points.map(point => Math.round((point.timeMs - startTimeMs) / 1000)) };
+  const optional = {
+    distanceMeters: distances,
+    heartRateBpm: fillSeries(points.map(point => point.heartRateBpm)),
+    altitudeMeters: fillSeries(points.map(point => point.altitudeMeters)),
+    velocityMetersPerSec: fillSeries(velocities),
+    cadence: fillSeries(points.map(point => point.cadence)),
+  };
+  // Only the recorded series are set, so the result can be stored in Firestore as is.
+  for (const [key, values] of Object.entries(optional) as Array<[keyof typeof optional, number[] | undefined]>) {
+    if (values) series[key] = values;
+  }
+  return series;
+}
@@ -0,0 +1,153 @@
+// src/lib/zip-entry-reader.ts
+
+/**
+ * @fileOverview Streaming reader for a single entry of a ZIP file, in the browser
+ * Exports such as Apple Health's export.zip can be several gigabytes, so the archive is never loaded
+ * into memory. The central directory at the end of the file is read with `Blob.slice` to locate the
+ * entry, and the entry's data is streamed through the browser's `DecompressionStream`. ZIP64 archives
+ * (over 4 GB, or with over 65,535 entries) are supported.
+ */
+
+const EOCD_SIGNATURE = 0x06054b50;
+const ZIP64_EOCD_LOCATOR_SIGNATURE = 0x07064b50;
+const ZIP64_EOCD_SIGNATURE = 0x06064b50;
+const CENTRAL_HEADER_SIGNATURE = 0x02014b50;
+const LOCAL_HEADER_SIGNATURE = 0x04034b50;
+const ZIP64_EXTRA_FIELD_ID = 0x0001;
+// The end of central directory record is 22 bytes, followed by a comment of up to 65,535 bytes.
+const MAX_EOCD_SEARCH_BYTES = 22 + 0xffff;
+
+const METHOD_STORED = 0;
+const METHOD_DEFLATED = 8;
+
+export interface ZipEntry {
+  name: string;
+  compressedSize: number;
+  uncompressedSize: number;
+  // Opens a stream of the entry's uncompressed content. `onCompressedBytes` reports progress through the archive.
+  open: (onCompressedBytes?: (bytesRead: number) => void) => ReadableStream<Uint8Array>;
+}
+
+async function readBytes(file: Blob, start: number, end: number): Promise<DataView> {
+  return new DataView(await file.slice(start, end).arrayBuffer());
+}
+
+function readUint64(view: DataView, offset: number): number {
+  return Number(view.getBigUint64(offset, true));
+}
+
+async function readCentralDirectoryLocation(file: Blob): Promise<{ offset: number; size: number }> {
+  const searchStart = Math.max(0, file.size - MAX_EOCD_SEARCH_BYTES);
+  const tail = await readBytes(file, searchStart, file.size);
+  let eocd = -1;
+  for (let i = tail.byteLength - 22; i >= 0; i--) {
+    if (tail.getUint32(i, true) === EOCD_SIGNATURE) {
+      eocd = i;
+      break;
+    }
+  }
+  if (eocd === -1) {
+    throw new Error('The file is not a valid ZIP archive.');
+  }
+
+  const size = tail.getUint32(eocd + 12, true);
+  const offset = tail.getUint32(eocd + 16, true);
+  if (size !== 0xffffffff && offset !== 0xffffffff && tail.getUint16(eocd + 10, true) !== 0xffff) {
+    return { offset, size };
+  }
+
+  // ZIP64: the locator just before the end of central directory record points at the ZIP64 record.
+  const locatorPosition = searchStart + eocd - 20;
+  const locator = await readBytes(file, locatorPosition, locatorPosition + 20);
+  if (locator.getUint32(0, true) !== ZIP64_EOCD_LOCATOR_SIGNATURE) {
+    throw new Error('The ZIP archive is corrupt: the ZIP64 locator is missing.');
+  }
+  const zip64EocdPosition = readUint64(locator, 8);
+  const zip64Eocd = await readBytes(file, zip64EocdPosition, zip64EocdPosition + 56);
+  if (zip64Eocd.getUint32(0, true) !== ZIP64_EOCD_SIGNATURE) {
+    throw new Error('The ZIP archive is corrupt: the ZIP64 directory record is missing.');
+  }
+  return { offset: readUint64(zip64Eocd, 48), size: readUint64(zip64Eocd, 40) };
+}
+
+function countBytes(stream: ReadableStream<Uint8Array>, onBytes: (bytesRead: number) => void): ReadableStream<Uint8Array> {
+  let bytesRead = 0;
+  return stream.pipeThrough(
+    new TransformStream<Uint8Array, Uint8Array>({
+      transform(chunk, controller) {
+        bytesRead += chunk.byteLength;
+        onBytes(bytesRead);
+        controller.enqueue(chunk);
+      },
+    })
+  );
+}
+
+/**
+ * Finds the first entry of a ZIP archive whose name matches.
+ * @returns The entry, or null if no entry matches.
+ */
+export async function findZipEntry(file: Blob, matches: (name: string) => boolean): Promise<ZipEntry | null> {
+  const directoryLocation = await readCentralDirectoryLocation(file);
+  const directory = await readBytes(file, directoryLocation.offset, directoryLocation.offset + directoryLocation.size);
+  const decoder = new TextDecoder();
+
+  for (let position = 0; position + 46 <= directory.byteLength; ) {
+    if (directory.getUint32(position, true) !== CENTRAL_HEADER_SIGNATURE) {
+      throw new Error('The ZIP archive is corrupt: unexpected data in the central directory.');
+    }
+    const method = directory.getUint16(position + 10, true);
+    let compressedSize = directory.getUint32(position + 20, true);
+    let uncompressedSize = directory.getUint32(position + 24, true);
+    const nameLength = directory.getUint16(position + 28, true);
+    const extraLength = directory.getUint16(position + 30, true);
+    const commentLength = directory.getUint16(position + 32, true);
+    let localHeaderOffset = directory.getUint32(position + 42, true);
+    const name = decoder.decode(new Uint8Array(directory.buffer, position + 46, nameLength));
+
+    if (matches(name)) {
+      // ZIP64 extra field: 8-byte values for each of these fields that did not fit, in this order.
+      for (let extra = position + 46 + nameLength; extra + 4 <= position + 46 + nameLength + extraLength; ) {
+        const id = directory.getUint16(extra, true);
+        const size = directory.getUint16(extra + 2, true);
+        if (id === ZIP64_EXTRA_FIELD_ID) {
+          let field = extra + 4;
+          if (uncompressedSize === 0xffffffff) { uncompressedSize = readUint64(directory, field); field += 8; }
+          if (compressedSize === 0xffffffff) { compressedSize = readUint64(directory, field); field += 8; }
+          if (localHeaderOffset === 0xffffffff) { localHeaderOffset = readUint64(directory, field); }
+        }
+        extra += 4 + size;
+      }
+      if (method !== METHOD_STORED && method !== METHOD_DEFLATED) {
+        throw new Error(`${name} uses an unsupported ZIP compression method.`);
+      }
+
+      const localHeader = await readBytes(file, localHeaderOffset, localHeaderOffset + 30);
+      if (localHeader.getUint32(0, true) !== LOCAL_HEADER_SIGNATURE) {
+        throw new Error('The ZIP archive is corrupt: the entry header is missing.');
+      }
+      const dataStart = localHeaderOffset + 30 + localHeader.getUint16(26, true) + localHeader.getUint16(28, true);
+
+      return {
+        name,
+        compressedSize,
+        uncompressedSize,
+        open: onCompressedBytes => {
+          let stream = file.slice(dataStart, dataStart + compressedSize).stream();
+          if (onCompressedBytes) stream = countBytes(stream, onCompressedBytes);
+          return method === METHOD_DEFLATED ? stream.pipeThrough(new DecompressionStream('deflate-raw')) : stream;
+        },
+      };
+    }
+    position += 46 + nameLength + extraLength + commentLength;
+  }
+  return null;
+}
+
+/**
+ * Streams a plain (uncompressed) file, reporting progress the same way as a ZIP entry.
+ */
+export function openFileStream(file: Blob, onBytes?: (bytesRead: number) => void): ReadableStream<Uint8Array> {
+  const stream = file.stream();
+  return onBytes ? countBytes(stream, onBytes) : stream;
+}
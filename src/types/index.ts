@@ -16,6 +16,7 @@ export interface UserProfile {
   firstName?: string; 
   lastName?: string; 
   dateOfBirth?: string; // [2025-06-29] COMMENT: ISO 8601 string for consistency
+  timezone?: string; // IANA time zone (e.g. "America/Los_Angeles") used to bucket daily data
   createdAt: string; // [2025-06-29] COMMENT: ISO 8601 string
   lastLoggedInDate?: string; // [2025-06-29] COMMENT: ISO 8601 string
   lastPasswordChangeDate?: string; // [2025-06-29] COMMENT: ISO 8601 string
@@ -51,14 +52,23 @@ export interface UserProfile {
 
   // [2025-06-29] COMMENT: Last sync timestamps
   fitbitLastSuccessfulSync?: string;
+  fitbitUserId?: string; // Fitbit user ID, used to route subscription notifications to this user
   stravaLastSyncTimestamp?: number;
+  stravaAthleteId?: number; // Strava athlete ID, used to route webhook events to this user
+  stravaLatestActivityStartTime?: number; // Unix seconds of the newest synced Strava activity; cursor for incremental syncs
+  stravaBackfill?: StravaBackfillState;
   googleFitLastSuccessfulSync?: string;
+  appleHealthLastImportAt?: string; // ISO 8601. When an Apple Health export was last imported.
+  syncHealth?: Partial<Record<SyncProviderId, ProviderSyncHealth>>;
+  nextScheduledSyncAt?: string; // ISO 8601. When the next scheduled sync of the user's connected apps is due.
 }
 
 export interface SelectableService {
   id: string;
   name: string;
   connectedAt?: string;
+  revokedAt?: string; // ISO 8601. Set when the user revokes our access from the provider's side.
+  reconnectRequiredAt?: string; // ISO 8601. Set when refreshing the provider's tokens fails; cleared by the next successful refresh.
 }
 
 export type SubscriptionTier = 'free' | 'silver' | 'gold' | 'platinum';
@@ -106,7 +116,7 @@ export interface NormalizedActivityFirestore {
   id: string;
   userId: string;
   originalId: string;
-  dataSource: 'fitbit' | 'strava' | 'google-fit' | 'apple_health' | 'manual' | 'withings' | string; 
+  dataSource: 'fitbit' | 'strava' | 'google-fit' | 'apple_health' | 'manual' | 'withings' | 'file' | 'merged' | string; 
   type: NormalizedActivityType;
   name?: string;
   startTimeUtc: string;
@@ -123,8 +133,48 @@ export interface NormalizedActivityFirestore {
   mapPolyline?: string;
   date: string;
   lastFetched: string;
+  // Set on a source activity once it has been merged into a canonical record; such activities are not counted.
+  canonicalActivityId?: string;
+  // Only on canonical records (dataSource 'merged'): the source activities they were built from.
+  mergedFrom?: Array<{ id: string; dataSource: string; originalId: string }>;
+  // Set when a sync found that the source no longer has this activity (e.g. it was deleted there). Such activities
+  // are not counted; the field is cleared if the source returns the activity again.
+  tombstonedAt?: string; // ISO 8601
 }
 
+// Downsampled data streams recorded during an activity, stored in `activity_streams` under the ID of the
+// source activity they belong to (e.g. 'strava-123'). All arrays have `sampleCount` entries; point i of
+// each array describes the same moment. Streams the device did not record are absent.
+export interface ActivityStreamsFirestore {
+  activityId: string;
+  dataSource: 'strava' | string;
+  originalId: string;
+  originalSampleCount: number; // Number of samples before downsampling
+  sampleCount: number;
+  timeSec: number[]; // Seconds since the start of the activity
+  distanceMeters?: number[];
+  heartRateBpm?: number[];
+  altitudeMeters?: number[];
+  velocityMetersPerSec?: number[];
+  cadence?: number[]; // As reported by the source; Strava counts strides (one foot) per minute for runs, RPM for rides
+  lastFetched: string;
+}
+
+
+// An activity file (GPX, TCX or FIT) uploaded by the user, stored in `activity_files` under the SHA-256 of
+// its content, so the same file cannot be imported twice. The original file is kept in Cloud Storage at
+// `storagePath`, so the activity (`activityId`, dataSource 'file') can be parsed again later.
+export interface ActivityFileFirestore {
+  id: string;
+  fileName: string;
+  format: 'gpx' | 'tcx' | 'fit';
+  sizeBytes: number;
+  storagePath: string;
+  activityId: string;
+  activityTypeOverride?: NormalizedActivityType; // Chosen by the user instead of the sport named in the file
+  uploadedAt: string;
+  lastParsedAt: string;
+}
 
 // --- Health Metric Types for Manual Entry & Timeline ---
 export type HealthMetricType = 
@@ -135,7 +185,16 @@ export type HealthMetricType =
   | 'lipidPanel'
   | 'appointment'
   | 'medication'
-  | 'condition';
+  | 'condition'
+  | 'weight'
+  | 'bodyFat'
+  | 'muscleMass'
+  | 'bloodPressure';
+
+export interface BloodPressureData {
+  systolic: number; // mmHg
+  diastolic: number; // mmHg
+}
 
 export interface LipidPanelData {
   totalCholesterol: number;
@@ -144,14 +203,18 @@ export interface LipidPanelData {
   triglycerides: number;
 }
 
+// [2025-06-29] COMMENT: Added 'withings' to the list of possible data sources for a health entry.
+export type HealthEntrySource = 'manual' | 'quest' | 'uhc' | 'fitbit' | 'strava' | 'google-fit' | 'withings';
+
+export const healthEntrySources: HealthEntrySource[] = ['manual', 'quest', 'uhc', 'fitbit', 'strava', 'google-fit', 'withings'];
+
 export interface BaseHealthEntry {
   id: string;
   date: string;
   type: HealthMetricType;
   title: string;
   notes?: string;
-  // [2025-06-29] COMMENT: Added 'withings' to the list of possible data sources for a health entry.
-  source?: 'manual' | 'quest' | 'uhc' | 'fitbit' | 'strava' | 'google-fit' | 'withings';
+  source?: HealthEntrySource;
 }
 
 export interface WalkingEntry extends BaseHealthEntry { type: 'walking'; value: number; unit: 'steps' | 'km' | 'miles'; }
@@ -162,18 +225,25 @@ export interface LipidPanelEntry extends BaseHealthEntry { type: 'lipidPanel'; v
 export interface AppointmentEntry extends BaseHealthEntry { type: 'appointment'; doctor?: string; location?: string; reason?: string; visitNotes?: string; }
 export interface MedicationEntry extends BaseHealthEntry { type: 'medication'; medicationName: string; dosage: string; frequency: string; }
 export interface ConditionEntry extends BaseHealthEntry { type: 'condition'; conditionName: string; diagnosisDate?: string; status?: 'active' | 'resolved' | 'chronic'; }
+export interface WeightEntry extends BaseHealthEntry { type: 'weight'; value: number; unit: 'kg' | 'lbs'; }
+export interface BodyFatEntry extends BaseHealthEntry { type: 'bodyFat'; value: number; unit: '%'; }
+export interface MuscleMassEntry extends BaseHealthEntry { type: 'muscleMass'; value: number; unit: 'kg' | 'lbs'; }
+export interface BloodPressureEntry extends BaseHealthEntry { type: 'bloodPressure'; value: BloodPressureData; unit: 'mmHg'; }
 
 export type HealthEntry =
   | WalkingEntry | StandingEntry | BreathingEntry | PulseEntry | LipidPanelEntry
-  | AppointmentEntry | MedicationEntry | ConditionEntry;
+  | AppointmentEntry | MedicationEntry | ConditionEntry
+  | WeightEntry | BodyFatEntry | MuscleMassEntry | BloodPressureEntry;
 
 export const healthMetricCategories: HealthMetricType[] = [
-  'walking', 'standing', 'breathing', 'pulse', 'lipidPanel', 'appointment', 'medication', 'condition'
+  'walking', 'standing', 'breathing', 'pulse', 'lipidPanel', 'appointment', 'medication', 'condition',
+  'weight', 'bodyFat', 'muscleMass', 'bloodPressure'
 ];
 
 export const healthMetricDisplayNames: Record<HealthMetricType, string> = {
   walking: 'Walking', standing: 'Standing', breathing: 'Breathing', pulse: 'Pulse',
-  lipidPanel: 'Lipid Panel', appointment: 'Appointment', medication: 'Medication', condition: 'Condition'
+  lipidPanel: 'Lipid Panel', appointment: 'Appointment', medication: 'Medication', condition: 'Condition',
+  weight: 'Weight', bodyFat: 'Body Fat', muscleMass: 'Muscle Mass', bloodPressure: 'Blood Pressure'
 };
 
 
@@ -188,17 +258,87 @@ export interface LoginResult {
 
 export type ApiCallStat = {
     lastCalledAt?: string;
-    callCountToday?: number;
+    callCountToday?: number; // Resets with the first call of each UTC day
+    rateLimitRemaining?: number; // As last reported by the provider's rate-limit headers
+    rateLimitResetAt?: string;
 }
 export type FitbitApiCallStats = {
-    [key in 'dailyActivitySummary' | 'heartRateTimeSeries' | 'sleepData' | 'swimmingData' | 'loggedActivities']?: ApiCallStat;
+    [key in 'dailyActivitySummary' | 'heartRateTimeSeries' | 'sleepData' | 'swimmingData' | 'loggedActivities' | 'weightLogs' | 'subscriptions' | 'profile']?: ApiCallStat;
 };
-export type StravaApiCallStats = { activities?: ApiCallStat };
-export type GoogleFitApiCallStats = { sessions?: ApiCallStat, aggregateData?: ApiCallStat };
+export type StravaApiCallStats = { activities?: ApiCallStat, athlete?: ApiCallStat };
+
+// Progress of a full-history Strava import. The import walks backwards in time, so
+// `beforeCursor` (Unix seconds) is the start time of the oldest activity imported so far.
+export interface StravaBackfillState {
+  status: 'in_progress' | 'complete';
+  beforeCursor?: number;
+  importedCount: number;
+  startedAt: string; // ISO 8601
+  completedAt?: string; // ISO 8601
+}
+export type GoogleFitApiCallStats = { sessions?: ApiCallStat, aggregateData?: ApiCallStat, dataSources?: ApiCallStat, datasets?: ApiCallStat };
 // [2025-06-29] COMMENT: Added a generic type for Withings API call stats.
 export type WithingsApiCallStats = { [key: string]: ApiCallStat };
 
 
+// --- Sync Orchestration Types ---
+export type SyncProviderId = 'fitbit' | 'strava' | 'googlefit' | 'withings';
+export type ProviderSyncStatus = 'success' | 'error' | 'skipped' | 'rate_limited';
+
+export interface ProviderSyncResult {
+  provider: SyncProviderId;
+  providerName: string;
+  status: ProviderSyncStatus;
+  message: string;
+  syncedCount?: number;
+  error?: string;
+  resumeCursor?: string; // Set when the provider's rate limit stopped the sync early; see SyncResult.resumeCursor
+}
+
+export type SyncTrigger = 'manual' | 'scheduled' | 'webhook';
+
+// One execution of a provider sync, stored in `users/{uid}/sync_runs`.
+export interface SyncRunFirestore {
+  provider: SyncProviderId;
+  trigger: SyncTrigger;
+  status: Exclude<ProviderSyncStatus, 'skipped'>;
+  window?: { from: string; to: string }; // YYYY-MM-DD. Absent for syncs that are not bound to a date range.
+  message: string;
+  syncedCount: number;
+  error?: string;
+  resumeCursor?: string;
+  startedAt: string; // ISO 8601
+  finishedAt: string; // ISO 8601
+  durationMs: number;
+}
+
+// Summary of a provider's recent sync runs, kept on the profile so the connection health panel needs no queries.
+export interface ProviderSyncHealth {
+  lastRunId?: string;
+  lastRunAt?: string; // ISO 8601
+  lastRunStatus?: SyncRunFirestore['status'];
+  lastSuccessAt?: string; // ISO 8601
+  lastFailureAt?: string; // ISO 8601
+  lastFailureMessage?: string;
+  resume?: SyncResumePoint; // Set while a rate-limited run left part of the sync window unsynced
+}
+
+// Where a provider's next sync continues after its rate limit stopped a run early.
+export interface SyncResumePoint {
+  step: number; // Index of the sync step the rate limit stopped
+  from: string; // YYYY-MM-DD. The stopped step continues from this day (its resume cursor).
+  windowFrom: string; // YYYY-MM-DD. The steps after it did not run, and start from the stopped run's window.
+}
+
+export interface SyncAllResult {
+  success: boolean; // true when no connected provider failed
+  message: string;
+  totalSynced: number;
+  results: ProviderSyncResult[];
+  alreadyRunning?: boolean; // true when another sync of the same user was still running, so nothing was synced
+}
+
+
 // --- Goal Configuration Types ---
 export interface WalkingRadarGoals {
   maxDailySteps?: number; maxDailyDistanceMeters?: number; maxDailyDurationSec?: number; maxDailySessions?: number;
@@ -292,7 +432,21 @@ export interface FitbitHeartRateFirestore {
   date: string; 
   restingHeartRate?: number;
   heartRateZones?: Array<{ name: string; min: number; max: number; minutes: number; caloriesOut?: number; }>;
-  intradaySeries?: { dataset: Array<{ time: string; value: number }>; datasetInterval: number; datasetType: string; };
+  intradaySampleCount?: number; // Samples stored for the day in fitbit_heart_rate_intraday
+  lastFetched: string;
+  dataSource: 'fitbit';
+}
+
+// One chunk of a day's intraday heart rate, stored in `fitbit_heart_rate_intraday` as '{date}_{chunkIndex}'.
+// A day is split into fixed chunks of local time (see lib/heart-rate-intraday.ts) so that even a full day
+// of 1-second samples stays far below Firestore's document size limit.
+export interface FitbitHeartRateIntradayChunkFirestore {
+  date: string; // YYYY-MM-DD, local to the user's Fitbit profile
+  chunkIndex: number;
+  sampleCount: number;
+  samples: Uint8Array; // Packed samples: 2 bytes of seconds since the chunk start, then 1 byte of bpm each
+  datasetInterval: number;
+  datasetType: string; // 'minute' or 'second'
   lastFetched: string;
   dataSource: 'fitbit';
 }
@@ -328,6 +482,79 @@ export interface FitbitSleepLogFirestore {
 }
 
 
+// A date whose Fitbit data changed, queued by the subscription webhook for a targeted re-sync.
+export type FitbitCollectionType = 'activities' | 'sleep' | 'body';
+
+export interface FitbitSyncQueueItemFirestore {
+  collectionType: FitbitCollectionType;
+  date: string; // YYYY-MM-DD
+  queuedAt: string; // ISO string
+}
+
+// --- Normalized sleep (source-agnostic, mirrors NormalizedActivityFirestore) ---
+export type NormalizedSleepStage = 'awake' | 'light' | 'deep' | 'rem' | 'asleep' | 'outOfBed'; // 'asleep' is sleep of unknown stage
+
+export interface NormalizedSleepSegment {
+  stage: NormalizedSleepStage;
+  startTimeUtc: string; // ISO string
+  durationSec: number;
+}
+
+export interface NormalizedSleepFirestore {
+  id: string;
+  userId: string;
+  originalId: string;
+  dataSource: 'fitbit' | 'google-fit' | 'withings' | string;
+  dateOfSleep: string; // YYYY-MM-DD, the local date the sleep ended on
+  startTimeUtc: string;
+  endTimeUtc: string;
+  timezone?: string;
+  durationSec: number; // Total time in bed, from start to end
+  minutesAsleep?: number;
+  minutesAwake?: number;
+  minutesToFallAsleep?: number;
+  efficiencyPercent?: number; // 0-100
+  isMainSleep?: boolean;
+  stageMinutes?: Partial<Record<NormalizedSleepStage, number>>;
+  stageSegments?: NormalizedSleepSegment[];
+  lastFetched: string;
+}
+
+// --- Source-agnostic daily summaries (used when Fitbit daily summaries are absent) ---
+export interface DailySummaryFirestore {
+  date: string; // YYYY-MM-DD in the user's time zone
+  timezone: string;
+  steps?: number;
+  distanceMeters?: number;
+  caloriesOut?: number;
+  activeMinutes?: number;
+  restingHeartRate?: number; // bpm. Not reported by Google Fit, which has no resting heart rate data type.
+  averageHeartRate?: number;
+  maxHeartRate?: number;
+  minHeartRate?: number;
+  lastFetched: string;
+  dataSource: 'google-fit' | string;
+}
+
+
+// --- Body measurements (e.g. Withings scales and blood pressure monitors) ---
+export interface BodyMeasurementFirestore {
+  id: string;
+  userId: string;
+  originalId: string; // Provider's measurement group ID
+  dataSource: 'withings' | 'fitbit' | string;
+  measuredAtUtc: string; // ISO string
+  date: string; // YYYY-MM-DD
+  weightKg?: number;
+  fatRatioPercent?: number;
+  muscleMassKg?: number;
+  systolicBloodPressureMmHg?: number;
+  diastolicBloodPressureMmHg?: number;
+  heartRateBpm?: number;
+  lastFetched: string;
+}
+
+
 // --- Admin Configuration Types ---
 export interface ConnectableServicesConfig {
   fitnessApps: SelectableService[];